@@ -0,0 +1,1004 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabaseClient } from "@/lib/supabaseClient";
+import { withRedirect } from "@/lib/authRedirect";
+import { KEY_STATUSES } from "@/lib/answerKey";
+import { MAX_VARIANTS, PROVIDER_KINDS, variantParam } from "@/lib/analysisDiagnostics";
+import type { Variant, VariantResult } from "@/lib/analysisDiagnostics";
+import { formatUsd } from "@/lib/llmCost";
+import { SPEND_DAYS } from "@/lib/llmUsage";
+import type { SpendRow } from "@/lib/llmUsage";
+import type {
+  AdminQuestion,
+  AnswerKeyChange,
+  FeedbackSummary,
+  VersionSummary,
+} from "@/lib/adminQuestions";
+
+type Tab = "questions" | "keys" | "feedback" | "diagnostics" | "spend";
+
+type Detail = {
+  question: AdminQuestion;
+  versions: VersionSummary[];
+  keyLog: AnswerKeyChange[];
+};
+
+const EDIT_FIELDS: {
+  key: keyof AdminQuestion;
+  label: string;
+  multiline?: boolean;
+  choices?: readonly string[];
+}[] = [
+  { key: "year", label: "Year" },
+  { key: "question_number", label: "Q. No." },
+  { key: "subject", label: "Subject" },
+  { key: "topic_id", label: "Topic id" },
+  { key: "difficulty", label: "Difficulty" },
+  { key: "question_text", label: "Question", multiline: true },
+  { key: "option_a", label: "Option A", multiline: true },
+  { key: "option_b", label: "Option B", multiline: true },
+  { key: "option_c", label: "Option C", multiline: true },
+  { key: "option_d", label: "Option D", multiline: true },
+  { key: "correct_option", label: "Correct option" },
+  { key: "key_status", label: "Key status", choices: KEY_STATUSES },
+  { key: "accepted_options", label: "Accepted (multiple correct)" },
+];
+
+function formatDateTime(iso: string | null) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/* -------------------------------------------------------
+   Authed fetch (every /api/admin route checks profiles.role)
+------------------------------------------------------- */
+
+async function adminFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const { data: s } = await supabaseClient.auth.getSession();
+  const token = s.session?.access_token;
+  if (!token) throw new Error("Session expired. Please login again.");
+
+  const res = await fetch(path, {
+    ...init,
+    cache: "no-store",
+    headers: {
+      ...(init?.body ? { "Content-Type": "application/json" } : {}),
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.details || body?.error || `Request failed (${res.status})`);
+  return body as T;
+}
+
+function TabButton({
+  active,
+  children,
+  onClick,
+}: {
+  active: boolean;
+  children: React.ReactNode;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={[
+        "rounded-md border px-4 py-2 text-sm",
+        active
+          ? "bg-emerald-500 text-slate-950 border-emerald-400"
+          : "bg-slate-900/40 text-slate-200 border-slate-700 hover:bg-slate-800/60",
+      ].join(" ")}
+    >
+      {children}
+    </button>
+  );
+}
+
+/* -------------------------------------------------------
+   Prompt diagnostics (same question, several providers/models)
+------------------------------------------------------- */
+
+// Static class names so Tailwind keeps them
+const RESULT_COLUMNS: Record<number, string> = { 2: "lg:grid-cols-2", 3: "lg:grid-cols-3" };
+
+function DiagnosticsPanel({ initialQuestionId }: { initialQuestionId: number | null }) {
+  const [questionId, setQuestionId] = useState(initialQuestionId ? String(initialQuestionId) : "");
+  const [variants, setVariants] = useState<Variant[]>([{ provider: "openai", model: null }]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [run, setRun] = useState<{ key: string | null; results: VariantResult[] } | null>(null);
+
+  const setVariant = (i: number, patch: Partial<Variant>) =>
+    setVariants((vs) => vs.map((v, j) => (j === i ? { ...v, ...patch } : v)));
+
+  const start = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ questionId: questionId.trim() });
+      for (const v of variants) params.append("variant", variantParam(v));
+      const res = await adminFetch<{ question: { key: string | null }; results: VariantResult[] }>(
+        `/api/admin/diagnostics?${params}`
+      );
+      setRun({ key: res.question.key, results: res.results });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Diagnostics failed.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5 space-y-4">
+      <div>
+        <h2 className="text-base font-semibold">Prompt diagnostics</h2>
+        <p className="mt-1 text-xs text-slate-400">
+          Runs the analysis prompt for one question per variant. Nothing is saved; every call is billed and
+          logged with its cost.
+        </p>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void start();
+        }}
+        className="space-y-3"
+      >
+        <input
+          value={questionId}
+          onChange={(e) => setQuestionId(e.target.value)}
+          placeholder="Question id"
+          className="w-40 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm"
+        />
+
+        {variants.map((v, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <select
+              value={v.provider}
+              onChange={(e) => setVariant(i, { provider: e.target.value as Variant["provider"] })}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm"
+            >
+              {PROVIDER_KINDS.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <input
+              value={v.model ?? ""}
+              onChange={(e) => setVariant(i, { model: e.target.value.trim() || null })}
+              disabled={v.provider === "fixture"}
+              placeholder="Model (default from env)"
+              className="w-64 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm disabled:opacity-50"
+            />
+            {variants.length > 1 ? (
+              <button
+                type="button"
+                onClick={() => setVariants((vs) => vs.filter((_, j) => j !== i))}
+                className="text-xs text-slate-400 hover:text-rose-300"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          {variants.length < MAX_VARIANTS ? (
+            <button
+              type="button"
+              onClick={() => setVariants((vs) => [...vs, { provider: "openai", model: null }])}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
+            >
+              + Variant
+            </button>
+          ) : null}
+          <button
+            type="submit"
+            disabled={running || !/^\d+$/.test(questionId.trim())}
+            className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+          >
+            {running ? "Running…" : "Run"}
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {run ? (
+        <div className="space-y-2">
+          <div className="text-xs text-slate-400">Answer key: {run.key ?? "—"}</div>
+          <div className={`grid gap-3 ${RESULT_COLUMNS[run.results.length] ?? ""}`}>
+            {run.results.map((r, i) => (
+              <div key={i} className="min-w-0 rounded-xl border border-slate-800 bg-slate-950/30 p-4 space-y-3">
+                <div>
+                  <div className="text-sm font-semibold">{r.label}</div>
+                  <div className="text-xs text-slate-400">
+                    {(r.ms / 1000).toFixed(1)}s · {r.calls.length} call{r.calls.length === 1 ? "" : "s"} ·{" "}
+                    {r.calls
+                      .map((c) => (c.usage ? `${c.usage.promptTokens}+${c.usage.completionTokens}` : "?"))
+                      .join(", ")}{" "}
+                    tokens · {formatUsd(r.costUsd)}
+                  </div>
+                </div>
+
+                {r.error ? (
+                  <p className="text-sm text-rose-300">{r.error}</p>
+                ) : r.analysis ? (
+                  <>
+                    <div className="text-xs">
+                      <span className="text-slate-400">Answer</span>{" "}
+                      <span
+                        className={r.analysis.correct_answer === run.key ? "text-emerald-300" : "text-rose-300"}
+                      >
+                        {r.analysis.correct_answer || "—"}
+                      </span>
+                      {" · "}
+                      <span className="text-slate-400">Verdict</span>{" "}
+                      {r.analysis.strategy.ai_verdict.recommendation} ({r.analysis.strategy.ai_verdict.confidence}%)
+                    </div>
+                    <div>
+                      <div className="text-sm font-medium">{r.analysis.topic_brief.title}</div>
+                      <ul className="mt-1 list-disc space-y-1 pl-5 text-xs text-slate-300">
+                        {r.analysis.topic_brief.bullets.map((b, j) => (
+                          <li key={j}>{b}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <ul className="space-y-1 text-xs text-slate-300">
+                      {r.analysis.statements.map((s) => (
+                        <li key={s.id}>
+                          Statement {s.id}: <span className="text-slate-100">{s.verdict}</span> · {s.facts.length}{" "}
+                          fact{s.facts.length === 1 ? "" : "s"}
+                        </li>
+                      ))}
+                    </ul>
+                    <details className="text-xs">
+                      <summary className="cursor-pointer text-slate-400">Raw JSON</summary>
+                      <pre className="mt-2 max-h-96 overflow-auto whitespace-pre-wrap text-[11px] text-slate-300">
+                        {JSON.stringify(r.analysis, null, 2)}
+                      </pre>
+                    </details>
+                  </>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+/* -------------------------------------------------------
+   LLM spend (llm_calls, daily per plan / per route)
+------------------------------------------------------- */
+
+/** day → cost per value of `dim`, newest day first. */
+function pivotSpend(rows: SpendRow[], dim: "plan" | "route") {
+  const columns = [...new Set(rows.map((r) => r[dim]))].sort();
+  const byDay = new Map<string, Record<string, number>>();
+  for (const r of rows) {
+    const day = byDay.get(r.day) ?? {};
+    day[r[dim]] = (day[r[dim]] ?? 0) + r.cost_usd;
+    byDay.set(r.day, day);
+  }
+  const days = [...byDay.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, cost]) => ({ day, cost, total: Object.values(cost).reduce((s, n) => s + n, 0) }));
+  return { columns, days };
+}
+
+function SpendTable({ title, rows, dim }: { title: string; rows: SpendRow[]; dim: "plan" | "route" }) {
+  const { columns, days } = pivotSpend(rows, dim);
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-200">{title}</h3>
+      <div className="overflow-x-auto rounded-xl border border-slate-800">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-900/60 text-slate-400">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Day (UTC)</th>
+              {columns.map((c) => (
+                <th key={c} className="px-3 py-2 text-right font-medium">
+                  {c}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-right font-medium">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map((d) => (
+              <tr key={d.day} className="border-t border-slate-800">
+                <td className="px-3 py-2 text-slate-300">{d.day}</td>
+                {columns.map((c) => (
+                  <td key={c} className="px-3 py-2 text-right text-slate-300">
+                    {c in d.cost ? formatUsd(d.cost[c]) : "—"}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right font-medium text-slate-100">{formatUsd(d.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function SpendPanel() {
+  const [days, setDays] = useState<number>(30);
+  const [rows, setRows] = useState<SpendRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setError(null);
+      try {
+        const res = await adminFetch<{ rows: SpendRow[] }>(`/api/admin/spend?days=${days}`);
+        if (!cancelled) setRows(res.rows);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load spend.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const sum = (k: keyof Omit<SpendRow, "day" | "plan" | "route">) =>
+    (rows ?? []).reduce((s, r) => s + r[k], 0);
+  const cost = sum("cost_usd");
+  const calls = sum("calls");
+  const requests = sum("requests");
+  const unpriced = sum("unpriced_calls");
+
+  const stats: [string, string][] = [
+    ["Spend", formatUsd(cost)],
+    ["Requests", String(requests)],
+    ["Per request", requests ? formatUsd(cost / requests) : "—"],
+    ["LLM calls", String(calls)],
+    ["Weak → retried", calls ? `${Math.round((sum("weak_calls") / calls) * 100)}%` : "—"],
+    ["Failed calls", String(sum("failed_calls"))],
+  ];
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5 space-y-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-base font-semibold">LLM spend</h2>
+          <p className="mt-1 text-xs text-slate-400">
+            Every provider call, priced when it was made. A request is one unlock, refresh or admin run,
+            retries included.
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm"
+        >
+          {SPEND_DAYS.map((d) => (
+            <option key={d} value={d}>
+              Last {d} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {!rows ? (
+        !error && <p className="text-sm text-slate-400">Loading…</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-slate-400">No LLM calls in this period.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-6">
+            {stats.map(([label, value]) => (
+              <div key={label} className="rounded-xl border border-slate-800 bg-slate-950/30 px-3 py-2">
+                <div className="text-[11px] uppercase tracking-wide text-slate-500">{label}</div>
+                <div className="text-lg font-semibold">{value}</div>
+              </div>
+            ))}
+          </div>
+          {unpriced > 0 && (
+            <p className="text-xs text-amber-300">
+              {unpriced} call{unpriced === 1 ? "" : "s"} had no usage or an unpriced model and are not in the totals.
+            </p>
+          )}
+          <SpendTable title="Per plan" rows={rows} dim="plan" />
+          <SpendTable title="Per route" rows={rows} dim="route" />
+        </>
+      )}
+    </section>
+  );
+}
+
+/* -------------------------------------------------------
+   Question editor
+------------------------------------------------------- */
+
+function QuestionEditor({
+  detail,
+  onSaved,
+  onError,
+}: {
+  detail: Detail;
+  onSaved: () => void;
+  onError: (msg: string | null) => void;
+}) {
+  const q = detail.question;
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState<null | "save" | "invalidate" | "regenerate">(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    for (const f of EDIT_FIELDS) next[f.key] = q[f.key] == null ? "" : String(q[f.key]);
+    setDraft(next);
+    setReason("");
+    setNotice(null);
+  }, [q]);
+
+  const changed = EDIT_FIELDS.filter(
+    (f) => (draft[f.key] ?? "") !== (q[f.key] == null ? "" : String(q[f.key]))
+  );
+  const keyChanging = changed.some(
+    (f) => f.key === "correct_option" || f.key === "key_status" || f.key === "accepted_options"
+  );
+
+  const save = async () => {
+    setBusy("save");
+    onError(null);
+    try {
+      const patch: Record<string, string> = {};
+      for (const f of changed) patch[f.key] = draft[f.key];
+
+      const res = await adminFetch<{ keyChanged: boolean; invalidated: number }>(
+        `/api/admin/questions/${q.id}`,
+        { method: "PATCH", body: JSON.stringify({ patch, reason }) }
+      );
+
+      setNotice(
+        res.keyChanged
+          ? `Saved. Answer key logged; ${res.invalidated} analysis version(s) invalidated.`
+          : "Saved."
+      );
+      onSaved();
+    } catch (e: unknown) {
+      onError(e instanceof Error ? e.message : "Save failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const analysisAction = async (action: "invalidate" | "regenerate") => {
+    if (action === "invalidate" && !confirm("Invalidate the current analysis for this question?")) return;
+
+    setBusy(action);
+    onError(null);
+    try {
+      const res = await adminFetch<{ invalidated?: number; analysisVersion?: number }>(
+        `/api/admin/questions/${q.id}/analysis`,
+        { method: "POST", body: JSON.stringify({ action }) }
+      );
+      setNotice(
+        action === "invalidate"
+          ? `${res.invalidated ?? 0} version(s) invalidated.`
+          : `Regenerated as version ${res.analysisVersion}.`
+      );
+      onSaved();
+    } catch (e: unknown) {
+      onError(e instanceof Error ? e.message : "Action failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-base font-semibold">
+            Question #{q.id}
+            <span className="ml-2 text-xs font-normal text-slate-400">
+              {q.year ?? "—"} · Q{q.question_number ?? "—"}
+            </span>
+          </h2>
+          {notice ? <div className="text-xs text-emerald-300">{notice}</div> : null}
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-4">
+          {EDIT_FIELDS.map((f) => (
+            <label
+              key={f.key}
+              className={["block", f.multiline ? "md:col-span-4" : ""].join(" ")}
+            >
+              <div className="text-xs uppercase tracking-wide text-slate-400">{f.label}</div>
+              {f.choices ? (
+                <select
+                  value={draft[f.key] ?? ""}
+                  onChange={(e) => setDraft((d) => ({ ...d, [f.key]: e.target.value }))}
+                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+                >
+                  {f.choices.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              ) : f.multiline ? (
+                <textarea
+                  value={draft[f.key] ?? ""}
+                  onChange={(e) => setDraft((d) => ({ ...d, [f.key]: e.target.value }))}
+                  rows={f.key === "question_text" ? 5 : 2}
+                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+                />
+              ) : (
+                <input
+                  value={draft[f.key] ?? ""}
+                  onChange={(e) => setDraft((d) => ({ ...d, [f.key]: e.target.value }))}
+                  className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+                />
+              )}
+            </label>
+          ))}
+        </div>
+
+        {keyChanging && (
+          <label className="mt-4 block">
+            <div className="text-xs uppercase tracking-wide text-amber-300">
+              Reason for answer-key change
+            </div>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. UPSC final key, 2024-06-12"
+              className="mt-1 w-full rounded-md border border-amber-600/60 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+            />
+          </label>
+        )}
+
+        <div className="mt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={save}
+            disabled={!changed.length || busy !== null}
+            className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+          >
+            {busy === "save" ? "Saving…" : `Save${changed.length ? ` (${changed.length})` : ""}`}
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold">Analyses</h3>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => analysisAction("invalidate")}
+              disabled={busy !== null}
+              className="rounded-md bg-slate-900 border border-slate-700 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+            >
+              {busy === "invalidate" ? "Invalidating…" : "Invalidate"}
+            </button>
+            <button
+              type="button"
+              onClick={() => analysisAction("regenerate")}
+              disabled={busy !== null}
+              className="rounded-md bg-amber-500 px-3 py-1.5 text-xs font-semibold text-slate-950 hover:bg-amber-400 disabled:opacity-60"
+            >
+              {busy === "regenerate" ? "Regenerating…" : "Regenerate now"}
+            </button>
+          </div>
+        </div>
+
+        {detail.versions.length ? (
+          <table className="mt-3 w-full text-left text-xs">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="py-1">Version</th>
+                <th className="py-1">Key</th>
+                <th className="py-1">Created</th>
+                <th className="py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.versions.map((v) => (
+                <tr key={v.version} className="border-t border-slate-800/70">
+                  <td className="py-1.5">v{v.version}</td>
+                  <td className="py-1.5">{v.official_answer ?? "—"}</td>
+                  <td className="py-1.5">{formatDateTime(v.created_at)}</td>
+                  <td className="py-1.5">
+                    {v.invalidated_at ? (
+                      <span className="text-rose-300">
+                        invalidated {formatDateTime(v.invalidated_at)}
+                        {v.invalidated_reason ? ` · ${v.invalidated_reason}` : ""}
+                      </span>
+                    ) : (
+                      <span className="text-emerald-300">current</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-3 text-xs text-slate-400">No analysis generated yet.</p>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5">
+        <h3 className="text-sm font-semibold">Answer-key history</h3>
+        <KeyLogTable rows={detail.keyLog} />
+      </div>
+    </div>
+  );
+}
+
+function KeyLogTable({ rows, showQuestion }: { rows: AnswerKeyChange[]; showQuestion?: boolean }) {
+  if (!rows.length) return <p className="mt-3 text-xs text-slate-400">No changes recorded.</p>;
+
+  return (
+    <table className="mt-3 w-full text-left text-xs">
+      <thead className="text-slate-400">
+        <tr>
+          <th className="py-1">When</th>
+          {showQuestion ? <th className="py-1">Question</th> : null}
+          <th className="py-1">Change</th>
+          <th className="py-1">Reason</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.id} className="border-t border-slate-800/70">
+            <td className="py-1.5">{formatDateTime(r.created_at)}</td>
+            {showQuestion ? <td className="py-1.5">#{r.question_id}</td> : null}
+            <td className="py-1.5">
+              {r.old_option ?? "—"}
+              {r.old_status ? ` (${r.old_status})` : ""} →{" "}
+              <span className="font-semibold">
+                {r.new_option ?? "—"}
+                {r.new_status ? ` (${r.new_status})` : ""}
+              </span>
+            </td>
+            <td className="py-1.5 text-slate-300">{r.reason ?? "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/* -------------------------------------------------------
+   Page
+------------------------------------------------------- */
+
+export default function AdminPage() {
+  const router = useRouter();
+
+  const [authState, setAuthState] = useState<"checking" | "ok" | "denied">("checking");
+  const [tab, setTab] = useState<Tab>("questions");
+  const [err, setErr] = useState<string | null>(null);
+
+  // questions
+  const [q, setQ] = useState("");
+  const [year, setYear] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [results, setResults] = useState<AdminQuestion[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [detail, setDetail] = useState<Detail | null>(null);
+
+  // answer keys + feedback
+  const [keyLog, setKeyLog] = useState<AnswerKeyChange[]>([]);
+  const [feedback, setFeedback] = useState<FeedbackSummary[]>([]);
+  const [listLoading, setListLoading] = useState(false);
+
+  // Gate: the API re-checks the role on every call; this only decides what to render
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const { data } = await supabaseClient.auth.getUser();
+      if (!data.user) {
+        router.replace(withRedirect("/login", "/admin"));
+        return;
+      }
+
+      const { data: prof } = await supabaseClient
+        .from("profiles")
+        .select("role")
+        .eq("id", data.user.id)
+        .maybeSingle();
+
+      if (!cancelled) setAuthState(prof?.role === "admin" ? "ok" : "denied");
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
+  const search = async () => {
+    setSearching(true);
+    setErr(null);
+    try {
+      const params = new URLSearchParams();
+      if (q.trim()) params.set("q", q.trim());
+      if (year.trim()) params.set("year", year.trim());
+      const res = await adminFetch<{ questions: AdminQuestion[] }>(`/api/admin/questions?${params}`);
+      setResults(res.questions);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Search failed.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const loadDetail = useCallback(async (id: number) => {
+    setErr(null);
+    try {
+      const res = await adminFetch<Detail>(`/api/admin/questions/${id}`);
+      setDetail(res);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to load question.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) void loadDetail(selectedId);
+  }, [selectedId, loadDetail]);
+
+  useEffect(() => {
+    if (authState !== "ok" || (tab !== "keys" && tab !== "feedback")) return;
+    let cancelled = false;
+
+    (async () => {
+      setListLoading(true);
+      setErr(null);
+      try {
+        if (tab === "keys") {
+          const res = await adminFetch<{ changes: AnswerKeyChange[] }>("/api/admin/answer-keys");
+          if (!cancelled) setKeyLog(res.changes);
+        } else {
+          const res = await adminFetch<{ items: FeedbackSummary[] }>("/api/admin/feedback");
+          if (!cancelled) setFeedback(res.items);
+        }
+      } catch (e: unknown) {
+        if (!cancelled) setErr(e instanceof Error ? e.message : "Failed to load.");
+      } finally {
+        if (!cancelled) setListLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tab, authState]);
+
+  const openQuestion = (id: number) => {
+    setTab("questions");
+    setSelectedId(id);
+  };
+
+  if (authState !== "ok") {
+    return (
+      <main className="min-h-screen bg-slate-950 text-slate-50 px-6 py-10">
+        <div className="max-w-4xl mx-auto rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
+          {authState === "checking" ? "Checking access…" : "You don't have access to the admin console."}
+          {authState === "denied" && (
+            <div className="mt-3">
+              <Link href="/practice" className="text-sm text-emerald-300 hover:underline">
+                Back to practice
+              </Link>
+            </div>
+          )}
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50 px-6 py-10">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-semibold">Admin</h1>
+            <p className="text-sm text-slate-400 mt-1">Questions, answer keys and analysis quality.</p>
+          </div>
+          <Link
+            href="/practice"
+            className="rounded-md bg-slate-900 border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
+          >
+            Practice
+          </Link>
+        </header>
+
+        <div className="flex gap-2">
+          <TabButton active={tab === "questions"} onClick={() => setTab("questions")}>
+            Questions
+          </TabButton>
+          <TabButton active={tab === "keys"} onClick={() => setTab("keys")}>
+            Answer-key log
+          </TabButton>
+          <TabButton active={tab === "feedback"} onClick={() => setTab("feedback")}>
+            Negative feedback
+          </TabButton>
+          <TabButton active={tab === "diagnostics"} onClick={() => setTab("diagnostics")}>
+            Diagnostics
+          </TabButton>
+          <TabButton active={tab === "spend"} onClick={() => setTab("spend")}>
+            Spend
+          </TabButton>
+        </div>
+
+        {err && (
+          <div className="rounded-md border border-rose-500/40 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+            {err}
+          </div>
+        )}
+
+        {tab === "questions" && (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-[22rem_1fr]">
+            <section className="space-y-3">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void search();
+                }}
+                className="flex gap-2"
+              >
+                <input
+                  value={q}
+                  onChange={(e) => setQ(e.target.value)}
+                  placeholder="Text or question id"
+                  className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm"
+                />
+                <input
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  placeholder="Year"
+                  className="w-20 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={searching}
+                  className="rounded-md bg-emerald-500 px-3 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  {searching ? "…" : "Search"}
+                </button>
+              </form>
+
+              <div className="max-h-[70vh] space-y-2 overflow-y-auto">
+                {results.map((r) => (
+                  <button
+                    key={r.id}
+                    type="button"
+                    onClick={() => setSelectedId(r.id)}
+                    className={[
+                      "w-full rounded-xl border px-3 py-2 text-left",
+                      r.id === selectedId
+                        ? "border-emerald-500 bg-emerald-500/10"
+                        : "border-slate-800 bg-slate-900/40 hover:bg-slate-800/60",
+                    ].join(" ")}
+                  >
+                    <div className="text-xs text-slate-400">
+                      #{r.id} · {r.year ?? "—"} · Q{r.question_number ?? "—"} · {r.subject ?? "—"} · key{" "}
+                      {r.correct_option ?? "—"}
+                    </div>
+                    <div className="mt-1 line-clamp-2 text-sm text-slate-100">{r.question_text}</div>
+                  </button>
+                ))}
+                {!results.length && !searching ? (
+                  <p className="text-xs text-slate-500">Search by text, or enter a question id.</p>
+                ) : null}
+              </div>
+            </section>
+
+            <section>
+              {detail && detail.question.id === selectedId ? (
+                <QuestionEditor
+                  detail={detail}
+                  onSaved={() => void loadDetail(detail.question.id)}
+                  onError={setErr}
+                />
+              ) : (
+                <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-sm text-slate-400">
+                  {selectedId ? "Loading…" : "Select a question to edit."}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+
+        {tab === "keys" && (
+          <section className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5">
+            <h2 className="text-base font-semibold">Recent answer-key changes</h2>
+            {listLoading ? (
+              <p className="mt-3 text-xs text-slate-400">Loading…</p>
+            ) : (
+              <KeyLogTable rows={keyLog} showQuestion />
+            )}
+          </section>
+        )}
+
+        {tab === "diagnostics" && <DiagnosticsPanel initialQuestionId={selectedId} />}
+
+        {tab === "spend" && <SpendPanel />}
+
+        {tab === "feedback" && (
+          <section className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5">
+            <h2 className="text-base font-semibold">Questions with the most negative feedback</h2>
+            <p className="mt-1 text-xs text-slate-400">Ratings ≤ 2 and error reports.</p>
+
+            {listLoading ? (
+              <p className="mt-3 text-xs text-slate-400">Loading…</p>
+            ) : feedback.length ? (
+              <div className="mt-4 space-y-3">
+                {feedback.map((f) => (
+                  <div key={f.question_id} className="rounded-xl border border-slate-800 bg-slate-950/30 p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="text-xs text-slate-400">
+                          #{f.question_id} · {f.question?.year ?? "—"} · Q{f.question?.question_number ?? "—"} ·{" "}
+                          {f.question?.subject ?? "—"}
+                        </div>
+                        <div className="mt-1 line-clamp-2 text-sm text-slate-100">
+                          {f.question?.question_text ?? "(question missing)"}
+                        </div>
+                      </div>
+                      <div className="shrink-0 text-right text-xs">
+                        <div className="font-semibold text-rose-300">{f.negative} negative</div>
+                        <div className="text-slate-400">
+                          of {f.total} · avg {f.avg_rating ?? "—"}
+                        </div>
+                      </div>
+                    </div>
+
+                    {f.recent_comments.length ? (
+                      <ul className="mt-3 list-disc space-y-1 pl-5 text-xs text-slate-300">
+                        {f.recent_comments.map((c, i) => (
+                          <li key={i}>{c}</li>
+                        ))}
+                      </ul>
+                    ) : null}
+
+                    <div className="mt-3">
+                      <button
+                        type="button"
+                        onClick={() => openQuestion(f.question_id)}
+                        className="text-xs text-emerald-300 hover:underline"
+                      >
+                        Open in editor →
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-3 text-xs text-slate-400">No negative feedback yet.</p>
+            )}
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
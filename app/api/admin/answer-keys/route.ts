@@ -0,0 +1,24 @@
+// app/api/admin/answer-keys/route.ts
+// GET → most recent answer-key changes across all questions
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAnswerKeyLog } from "@/lib/adminQuestions";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const changes = await getAnswerKeyLog(getSupabaseAdmin(), undefined, 100);
+    return NextResponse.json({ ok: true, changes });
+  } catch (e) {
+    console.error("answer key log failed", e);
+    return NextResponse.json(
+      { error: "answer_key_log_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+// app/api/admin/diagnostics/route.ts (formerly the open /test-ai route)
+// GET ?questionId=&variant=openai:gpt-4.1-mini&variant=fixture
+//   → the analysis prompt run once per variant (max MAX_VARIANTS), side by side with
+//     time, tokens and cost. No variant = the env-configured provider/model.
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { answerKeyOf, answerLabel, isGradable } from "@/lib/answerKey";
+import { getLlmConfig } from "@/lib/llmProvider";
+import { MAX_VARIANTS, parseVariant, runVariant } from "@/lib/analysisDiagnostics";
+import { createLlmCallLog } from "@/lib/llmUsage";
+import type { Variant } from "@/lib/analysisDiagnostics";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const questionId = Number(searchParams.get("questionId"));
+    if (!Number.isInteger(questionId) || questionId <= 0) {
+      return NextResponse.json({ error: "Invalid questionId" }, { status: 400 });
+    }
+
+    const rawVariants = searchParams.getAll("variant").filter((v) => v.trim());
+    if (rawVariants.length > MAX_VARIANTS) {
+      return NextResponse.json({ error: `At most ${MAX_VARIANTS} variants` }, { status: 400 });
+    }
+
+    const variants: Variant[] = [];
+    for (const raw of rawVariants) {
+      const v = parseVariant(raw);
+      if (!v) return NextResponse.json({ error: `Invalid variant "${raw}"` }, { status: 400 });
+      variants.push(v);
+    }
+    if (!variants.length) variants.push({ provider: getLlmConfig().provider, model: null });
+
+    const admin = getSupabaseAdmin();
+    const { data: question, error } = await admin
+      .from("questions")
+      .select("id, question_text, option_a, option_b, option_c, option_d, correct_option, key_status, accepted_options")
+      .eq("id", questionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!question) return NextResponse.json({ error: "Question not found" }, { status: 404 });
+
+    // Dropped questions have no key by design; anything else needs one
+    const answerKey = answerKeyOf(question);
+    if (!isGradable(answerKey) && answerKey.status !== "dropped") {
+      return NextResponse.json({ error: "Correct option missing/invalid for this question" }, { status: 400 });
+    }
+
+    const input = {
+      questionText: question.question_text ?? "",
+      options: {
+        A: question.option_a ?? "",
+        B: question.option_b ?? "",
+        C: question.option_c ?? "",
+        D: question.option_d ?? "",
+      },
+      answerKey,
+    };
+
+    const log = (line: string) => console.info(`[diagnostics] admin=${auth.user.id} q=${questionId} ${line}`);
+    const results = await Promise.all(
+      variants.map(async (v) => {
+        const llmLog = createLlmCallLog(admin, {
+          route: "admin:diagnostics",
+          plan: "admin",
+          provider: v.provider,
+          userId: auth.user.id,
+          questionId,
+        });
+        const result = await runVariant(v, input, log, llmLog.onLlmCall);
+        await llmLog.flush();
+        return result;
+      })
+    );
+
+    return NextResponse.json({
+      ok: true,
+      question: { id: question.id, key: answerLabel(answerKey) },
+      results,
+    });
+  } catch (e) {
+    console.error("diagnostics failed", e);
+    return NextResponse.json(
+      { error: "diagnostics_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/admin/feedback/route.ts
+// GET → questions with the most negative ai_feedback (rating ≤ 2 or error reports)
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { negativeFeedbackSummary } from "@/lib/adminQuestions";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const items = await negativeFeedbackSummary(getSupabaseAdmin());
+    return NextResponse.json({ ok: true, items });
+  } catch (e) {
+    console.error("admin feedback summary failed", e);
+    return NextResponse.json(
+      { error: "feedback_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// app/api/admin/questions/[id]/analysis/route.ts
+// POST { action: "invalidate" }  → retire current analysis; next user request regenerates
+// POST { action: "regenerate" }  → generate a new version now
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { invalidateAnalyses } from "@/lib/analysisStore";
+import { regenerateAnalysis } from "@/lib/adminQuestions";
+import { getLlmConfig, llmConfigProblem } from "@/lib/llmProvider";
+import { createLlmCallLog } from "@/lib/llmUsage";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const id = Number((await ctx.params).id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: "Invalid question id" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const admin = getSupabaseAdmin();
+
+    if (body?.action === "invalidate") {
+      const invalidated = await invalidateAnalyses(admin, id, "invalidated by admin");
+      return NextResponse.json({ ok: true, invalidated });
+    }
+
+    if (body?.action === "regenerate") {
+      const llmProblem = llmConfigProblem();
+      if (llmProblem) return NextResponse.json({ error: llmProblem }, { status: 500 });
+
+      const llmLog = createLlmCallLog(admin, {
+        route: "admin:regenerate",
+        plan: "admin",
+        provider: getLlmConfig().provider,
+        userId: auth.user.id,
+        questionId: id,
+      });
+
+      let saved;
+      try {
+        saved = await regenerateAnalysis(admin, id, auth.user.id, { onLlmCall: llmLog.onLlmCall });
+      } finally {
+        await llmLog.flush();
+      }
+      return NextResponse.json({
+        ok: true,
+        analysisVersion: saved.version,
+        analysisUpdatedAt: saved.createdAt,
+      });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (e) {
+    console.error("admin analysis action failed", e);
+    return NextResponse.json(
+      { error: "analysis_action_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
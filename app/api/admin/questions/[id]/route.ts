@@ -0,0 +1,90 @@
+// app/api/admin/questions/[id]/route.ts
+// GET   → question + analysis versions + answer-key history
+// PATCH → edit fields; { reason } is stored with an answer-key change
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  ADMIN_QUESTION_COLUMNS,
+  getAnswerKeyLog,
+  listAnalysisVersions,
+  sanitizePatch,
+  updateQuestion,
+} from "@/lib/adminQuestions";
+
+export const runtime = "nodejs";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+async function questionId(ctx: Ctx) {
+  const id = Number((await ctx.params).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export async function GET(request: Request, ctx: Ctx) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const id = await questionId(ctx);
+    if (!id) return NextResponse.json({ error: "Invalid question id" }, { status: 400 });
+
+    const admin = getSupabaseAdmin();
+    const { data: question, error } = await admin
+      .from("questions")
+      .select(ADMIN_QUESTION_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!question) return NextResponse.json({ error: "Question not found" }, { status: 404 });
+
+    const [versions, keyLog] = await Promise.all([
+      listAnalysisVersions(admin, id),
+      getAnswerKeyLog(admin, id),
+    ]);
+
+    return NextResponse.json({ ok: true, question, versions, keyLog });
+  } catch (e) {
+    console.error("admin question load failed", e);
+    return NextResponse.json(
+      { error: "load_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, ctx: Ctx) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const id = await questionId(ctx);
+    if (!id) return NextResponse.json({ error: "Invalid question id" }, { status: 400 });
+
+    const body = await request.json().catch(() => null);
+    const { patch, error: patchErr } = sanitizePatch(body?.patch ?? {});
+
+    if (patchErr) return NextResponse.json({ error: patchErr }, { status: 400 });
+    if (!Object.keys(patch).length) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const result = await updateQuestion(getSupabaseAdmin(), {
+      questionId: id,
+      patch,
+      adminId: auth.user.id,
+      reason: typeof body?.reason === "string" ? body.reason : null,
+    });
+
+    if ("error" in result) return NextResponse.json({ error: result.error }, { status: 400 });
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    console.error("admin question update failed", e);
+    return NextResponse.json(
+      { error: "update_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// app/api/admin/questions/import/route.ts
+// POST the raw CSV or JSON file as the body.
+//   ?dryRun=1         validate + duplicate check only, nothing is written
+//   ?format=csv|json  optional; otherwise taken from Content-Type or sniffed
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { detectFormat, importQuestions, parseImportText } from "@/lib/questionImport";
+
+export const runtime = "nodejs";
+
+// ~4 MB of text is several thousand questions; bigger files go through the CLI
+const MAX_BYTES = 4 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const url = new URL(request.url);
+    const dryRun = url.searchParams.get("dryRun") === "1";
+
+    const text = await request.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: "Empty body" }, { status: 400 });
+    }
+    if (text.length > MAX_BYTES) {
+      return NextResponse.json({ error: "File too large; use the import CLI" }, { status: 413 });
+    }
+
+    const format = detectFormat(
+      text,
+      url.searchParams.get("format") || request.headers.get("content-type")
+    );
+
+    let rows: Record<string, unknown>[];
+    try {
+      rows = parseImportText(text, format);
+    } catch (e) {
+      return NextResponse.json(
+        { error: "Could not parse file", details: e instanceof Error ? e.message : "Unknown" },
+        { status: 400 }
+      );
+    }
+
+    const report = await importQuestions(getSupabaseAdmin(), rows, { dryRun });
+
+    return NextResponse.json({ ok: true, format, ...report });
+  } catch (e) {
+    console.error("question import failed", e);
+    return NextResponse.json(
+      { error: "import_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
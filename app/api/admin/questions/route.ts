@@ -0,0 +1,32 @@
+// app/api/admin/questions/route.ts
+// GET ?q=&year=&subject=  → question search for the admin console
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { searchQuestions } from "@/lib/adminQuestions";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const year = Number(searchParams.get("year"));
+
+    const questions = await searchQuestions(getSupabaseAdmin(), {
+      q: searchParams.get("q") ?? "",
+      year: Number.isInteger(year) && year > 0 ? year : null,
+      subject: searchParams.get("subject") || null,
+    });
+
+    return NextResponse.json({ ok: true, questions });
+  } catch (e) {
+    console.error("admin question search failed", e);
+    return NextResponse.json(
+      { error: "search_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/admin/spend/route.ts
+// GET ?days=30 → LLM spend per UTC day × plan × route (see lib/llmUsage.ts)
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { fetchSpendReport, SPEND_DAYS } from "@/lib/llmUsage";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAdmin(request);
+    if (!auth.ok) return auth.response;
+
+    const days = Number(new URL(request.url).searchParams.get("days") || 30);
+    if (!SPEND_DAYS.includes(days as (typeof SPEND_DAYS)[number])) {
+      return NextResponse.json({ error: `days must be one of ${SPEND_DAYS.join(", ")}` }, { status: 400 });
+    }
+
+    const rows = await fetchSpendReport(getSupabaseAdmin(), days);
+    return NextResponse.json({ ok: true, days, rows });
+  } catch (e) {
+    console.error("admin spend report failed", e);
+    return NextResponse.json(
+      { error: "spend_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,23 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { supabaseServerClient } from "@/lib/supabaseServer";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
 import { generateQuestionAnalysis } from "@/lib/generateQuestionAnalysis";
-import { normalizeQuestionAnalysisV1 } from "@/lib/aiAnalysis";
+import { getLlmConfig, llmConfigProblem } from "@/lib/llmProvider";
+import { createLlmCallLog, planLabel } from "@/lib/llmUsage";
+import type { AnalysisSection, AnalysisStreamEvent } from "@/lib/analysisStream";
+import { encodeAnalysisEvent, NDJSON_CONTENT_TYPE } from "@/lib/analysisStream";
+import {
+  countUnlocks,
+  getLatestAnalysis,
+  hasUnlocked,
+  recordUnlock,
+  saveAnalysisVersion,
+} from "@/lib/analysisStore";
+import { entitlementFromProfile, isEntitled } from "@/lib/plans";
+import { getReferralBonus } from "@/lib/coupons";
+import { answerKeyOf, answerLabel, isGradable } from "@/lib/answerKey";
+import { checkRateLimits, clientIp, dailyRegenerationRule, LIMITS, refundRateLimit } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 function tlog(t0: number, label: string) {
@@ -20,11 +35,6 @@ const LIFETIME_FREE = 25;
 //  return now.toISOString();
 //}
 
-function toOfficialAnswer(x: unknown): "A" | "B" | "C" | "D" | null {
-  const s = String(x ?? "").trim().toUpperCase();
-  return s === "A" || s === "B" || s === "C" || s === "D" ? s : null;
-}
-
 export async function GET(request: Request) {
   const t0 = performance.now();
   try {
@@ -32,12 +42,17 @@ export async function GET(request: Request) {
     const idParam = searchParams.get("questionId");
     const refreshParam = searchParams.get("refresh");
     const refresh = refreshParam === "1"; // ONLY "1" triggers regeneration
+    const stream = searchParams.get("stream") === "1"; // NDJSON sections as they are ready
     const questionId = idParam ? Number(idParam) : NaN;
 
     if (!Number.isFinite(questionId) || questionId <= 0) {
       return NextResponse.json({ error: "Invalid questionId" }, { status: 400 });
     }
 
+    const ip = clientIp(request);
+    const ipLimit = await checkRateLimits([{ rule: LIMITS.apiIp, id: ip }]);
+    if (!ipLimit.ok) return ipLimit.response;
+
     // --- Auth ---
     const authHeader = request.headers.get("authorization") || "";
     const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
@@ -55,6 +70,9 @@ export async function GET(request: Request) {
 
     const user = u.user;
 
+    const userLimit = await checkRateLimits([{ rule: LIMITS.apiUser, id: user.id }]);
+    if (!userLimit.ok) return userLimit.response;
+
     // Token-scoped client (RLS-safe)
     const supabaseAuthed = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -65,57 +83,66 @@ export async function GET(request: Request) {
       }
     );
 
-    // --- Pro check ---
+    // --- Pro check (plan expiry, see lib/plans.ts) ---
     const { data: prof } = await supabaseAuthed
       .from("profiles")
-      .select("is_pro")
+      .select("plan_id, pro_until")
       .eq("id", user.id)
       .maybeSingle();
 
-    const isPro = !!prof?.is_pro;
-
-    // --- Existing analysis ---
-    const { data: existing } = await supabaseAuthed
-      .from("question_analysis")
-      .select("analysis, updated_at")
-      .eq("user_id", user.id)
-      .eq("question_id", questionId)
-      .maybeSingle();
+    const entitlement = entitlementFromProfile(prof);
+    const isPro = isEntitled(entitlement);
 
-    const hadExisting = !!existing?.analysis;
+    // Shared cache lives behind the service role; users only get unlock rows
+    const supabaseAdmin = getSupabaseAdmin();
 
-    if (!refresh && existing?.analysis) {
-      return NextResponse.json({
-        ok: true,
-        cached: true,
-        analysis: normalizeQuestionAnalysisV1(existing.analysis),
-        analysisUpdatedAt: existing.updated_at ?? null,
-        // include quota/isPro if you want, but don't recompute heavy stuff here
-      });
-}
+    // --- Existing canonical analysis + this user's unlock ---
+    const [existing, unlocked] = await Promise.all([
+      getLatestAnalysis(supabaseAdmin, questionId),
+      hasUnlocked(supabaseAdmin, user.id, questionId),
+    ]);
 
-    // --- Quota (skip for Pro) ---
-    // --- Quota (MVP): Free users can unlock only first 25 unique questions ---
-    // Only enforce on NEW unlock (no existing row)
-    if (!isPro && !hadExisting) {
-      const { count: lifetimeCount } = await supabaseAuthed
-        .from("question_analysis")
-        .select("*", { count: "exact", head: true })
-        .eq("user_id", user.id);
+    // --- Refresh replaces the shared version everyone sees: free users only for questions they unlocked ---
+    if (refresh && existing && !isPro && !unlocked) {
+      return NextResponse.json(
+        { error: "Unlock this question before regenerating its analysis" },
+        { status: 403 }
+      );
+    }
 
-      const lifetime = lifetimeCount ?? 0;
+    // --- Quota (MVP): Free users can unlock only first 25 unique questions (+ referral bonus) ---
+    // Only enforce on NEW unlock (no unlock row yet)
+    if (!isPro && !unlocked) {
+      const [lifetime, bonus] = await Promise.all([
+        countUnlocks(supabaseAdmin, user.id),
+        getReferralBonus(supabaseAdmin, user.id),
+      ]);
 
-      if (lifetime >= LIFETIME_FREE) {
-        // ✅ Block immediately: no LLM call, no upsert
+      if (lifetime >= LIFETIME_FREE + bonus) {
+        // ✅ Block immediately: no LLM call, no unlock
         return NextResponse.json({ error: "LIMIT_REACHED", isPro: false }, { status: 402 });
       }
     }
 
+    // --- Cache hit: someone already generated this question ---
+    if (!refresh && existing) {
+      if (!unlocked) await recordUnlock(supabaseAdmin, user.id, questionId);
+
+      return NextResponse.json({
+        ok: true,
+        cached: true,
+        quotaSpent: !isPro && !unlocked,
+        analysis: existing.analysis,
+        analysisVersion: existing.version,
+        analysisUpdatedAt: existing.createdAt,
+      });
+    }
+
     // --- Question ---
     const { data: question } = await supabaseAuthed
       .from("questions")
       .select(
-        "id, question_text, option_a, option_b, option_c, option_d, correct_option"
+"id, question_text, option_a, option_b, option_c, option_d, correct_option, key_status, accepted_options"
       )
       .eq("id", questionId)
       .single();
@@ -124,59 +151,154 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Question not found" }, { status: 404 });
     }
 
-    const officialAnswer = toOfficialAnswer(question.correct_option);
-    if (!officialAnswer) {
+    // Dropped questions are analysed too (the prompt explains why they were dropped)
+    const answerKey = answerKeyOf(question);
+    if (!isGradable(answerKey) && answerKey.status !== "dropped") {
       return NextResponse.json(
         { error: "Correct option invalid" },
         { status: 400 }
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const llmProblem = llmConfigProblem();
+    if (llmProblem) {
       return NextResponse.json(
-        { error: "OPENAI_API_KEY missing" },
+        { error: llmProblem },
         { status: 500 }
       );
     }
 
-    // --- Generate ---
-    try {
-      const analysis = await generateQuestionAnalysis({
-        questionText: question.question_text ?? "",
-        options: {
-          A: question.option_a ?? "",
-          B: question.option_b ?? "",
-          C: question.option_c ?? "",
-          D: question.option_d ?? "",
-        },
-        officialAnswer,
+    // --- Every path below calls the LLM: per-user/IP buckets, daily cap on refresh ---
+    const regeneration = refresh && existing ? { rule: dailyRegenerationRule(isPro), id: user.id } : null;
+    const limitedAt = new Date();
+    const generateLimit = await checkRateLimits(
+      [
+        { rule: LIMITS.generateUser, id: user.id },
+        { rule: LIMITS.generateIp, id: ip },
+        ...(regeneration ? [regeneration] : []),
+      ],
+      undefined,
+      limitedAt
+    );
+    if (!generateLimit.ok) return generateLimit.response;
+
+    // A regeneration that never produced an analysis doesn't count towards the daily cap
+    const refundRegeneration = async () => {
+      if (regeneration) await refundRateLimit(regeneration, undefined, limitedAt);
+    };
+
+    // --- Generate (refresh=1 creates a new canonical version) ---
+    const llmLog = createLlmCallLog(supabaseAdmin, {
+      route: refresh && existing ? "analysis:refresh" : "analysis",
+      plan: planLabel(entitlement),
+      provider: getLlmConfig().provider,
+      userId: user.id,
+      questionId,
+    });
+
+    const generateAndSave = async (onSection?: (section: AnalysisSection) => void) => {
+      let analysis;
+      try {
+        analysis = await generateQuestionAnalysis(
+          {
+            questionText: question.question_text ?? "",
+            options: {
+              A: question.option_a ?? "",
+              B: question.option_b ?? "",
+              C: question.option_c ?? "",
+              D: question.option_d ?? "",
+            },
+            answerKey,
+          },
+          { onSection, signal: request.signal, onLlmCall: llmLog.onLlmCall }
+        );
+      } finally {
+        await llmLog.flush(); // failed and aborted calls are billed too
+      }
+
+      const saved = await saveAnalysisVersion(supabaseAdmin, {
+        questionId,
+        analysis,
+        officialAnswer: answerLabel(answerKey),
+        createdBy: user.id,
       });
 
-      await supabaseAuthed.from("question_analysis").upsert(
-        {
-          user_id: user.id,
-          question_id: questionId,
-          analysis,
-        },
-        { onConflict: "user_id,question_id" }
-      );
+      if (!unlocked) await recordUnlock(supabaseAdmin, user.id, questionId);
 
-      return NextResponse.json({ 
+      return {
         ok: true,
-        cached: false, 
-        quotaSpent: !isPro && !hadExisting, // ✅ only the FIRST time this question is unlocked
-        analysis });
+        cached: false,
+        quotaSpent: !isPro && !unlocked, // ✅ only the FIRST time this question is unlocked
+        analysis: saved.analysis,
+        analysisVersion: saved.version,
+        analysisUpdatedAt: saved.createdAt,
+      };
+    };
+
+    const lastSaved = () =>
+      existing && unlocked
+        ? {
+            ok: true,
+            cached: true,
+            analysis: existing.analysis,
+            analysisVersion: existing.version,
+            analysisUpdatedAt: existing.createdAt,
+            warning: "Regeneration failed; showing last saved analysis",
+          }
+        : null;
+
+    // --- stream=1: NDJSON, one event per finished section ---
+    if (stream) {
+      const encoder = new TextEncoder();
+
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (ev: AnalysisStreamEvent) =>
+            controller.enqueue(encoder.encode(encodeAnalysisEvent(ev)));
+
+          try {
+            const result = await generateAndSave(send);
+            send({ type: "done", ...result });
+          } catch (e) {
+            if (request.signal.aborted) return; // client went away (analysisAbortRef)
+            console.error("Regeneration failed:", e);
+            await refundRegeneration();
+
+            const fallback = lastSaved();
+            if (fallback) {
+              send({ type: "reset" });
+              send({ type: "done", ...fallback });
+            } else {
+              send({
+                type: "error",
+                error: "Failed to generate analysis",
+                details: e instanceof Error ? e.message : "Unknown",
+              });
+            }
+          } finally {
+            try {
+              controller.close();
+            } catch {
+              // already closed by an abort
+            }
+          }
+        },
+      });
+
+      return new Response(body, {
+        headers: { "Content-Type": NDJSON_CONTENT_TYPE, "Cache-Control": "no-store" },
+      });
+    }
+
+    try {
+      return NextResponse.json(await generateAndSave());
     } catch (e: any) {
       console.error("Regeneration failed:", e);
+      await refundRegeneration();
 
-      if (existing?.analysis) {
-        return NextResponse.json({
-          ok: true,
-          cached: true,
-          analysis: normalizeQuestionAnalysisV1(existing.analysis),
-          analysisUpdatedAt: existing.updated_at ?? null,
-          warning: "Regeneration failed; showing last saved analysis",
-        });
+      const fallback = lastSaved();
+      if (fallback) {
+        return NextResponse.json(fallback);
       }
 
       return NextResponse.json(
@@ -1,6 +1,18 @@
 // app/api/payments/razorpay/order/route.ts
 import { NextResponse } from "next/server";
 import crypto from "crypto";
+import { supabaseServerClient } from "@/lib/supabaseServer";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { savePaymentOrder } from "@/lib/razorpay";
+import { availablePlans } from "@/lib/plans";
+import { checkRateLimits, clientIp, LIMITS } from "@/lib/rateLimit";
+import {
+  attachCodeHold,
+  releaseCodeHold,
+  reserveCheckoutCode,
+  resolveCheckoutCode,
+  type CheckoutCode,
+} from "@/lib/coupons";
 
 export const runtime = "nodejs";
 
@@ -10,44 +22,143 @@ function must(name: string) {
   return v;
 }
 
-export async function POST() {
+export async function POST(request: Request) {
   try {
+    const ip = clientIp(request);
+    const ipLimit = await checkRateLimits([{ rule: LIMITS.apiIp, id: ip }]);
+    if (!ipLimit.ok) return ipLimit.response;
+
+    // Auth: the order carries the user id so the webhook can credit the right account
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!token) {
+      return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+    }
+
+    const { data: u, error: uErr } = await supabaseServerClient.auth.getUser(token);
+    if (uErr || !u.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = u.user;
+
+    // Every order creates a Razorpay order and may hold a coupon use, so it gets its own bucket
+    const userLimit = await checkRateLimits([
+      { rule: LIMITS.apiUser, id: user.id },
+      { rule: LIMITS.checkoutUser, id: user.id },
+      { rule: LIMITS.checkoutIp, id: ip },
+    ]);
+    if (!userLimit.ok) return userLimit.response;
+
     const keyId = must("RAZORPAY_KEY_ID");
     const keySecret = must("RAZORPAY_KEY_SECRET");
 
-    // MVP price: ₹399 (paise)
-    const amount = 399 * 100;
-    const receipt = `upscai_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
-
-    const auth = Buffer.from(`${keyId}:${keySecret}`).toString("base64");
-
-    const r = await fetch("https://api.razorpay.com/v1/orders", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${auth}`,
-      },
-      body: JSON.stringify({
-        amount,
-        currency: "INR",
-        receipt,
-        payment_capture: 1,
-      }),
-    });
+    // Price comes from the plan catalogue, never from the client
+    const body = await request.json().catch(() => null);
+    const plan = availablePlans().find((p) => p.id === body?.planId);
+
+    if (!plan) {
+      return NextResponse.json({ error: "Unknown or unavailable plan" }, { status: 400 });
+    }
 
-    const data = await r.json();
+    const supabaseAdmin = getSupabaseAdmin();
 
-    if (!r.ok) {
-      return NextResponse.json(
-        { error: "Failed to create order", details: data?.error?.description ?? data },
-        { status: 500 }
+    // Optional coupon / referral code → discount applied before Razorpay sees the amount
+    let applied: CheckoutCode | null = null;
+    if (body?.code) {
+      const res = await resolveCheckoutCode(supabaseAdmin, {
+        code: body.code,
+        userId: user.id,
+        amountPaise: plan.pricePaise,
+      });
+
+      if (!res.ok) {
+        return NextResponse.json({ error: res.error }, { status: 400 });
+      }
+      applied = res.applied;
+    }
+
+    // Hold one use of the code for this order (caps checked atomically); given back on failure
+    let reservationId: string | null = null;
+    if (applied) {
+      const hold = await reserveCheckoutCode(supabaseAdmin, { applied, userId: user.id });
+      if (!hold.ok) {
+        return NextResponse.json({ error: hold.error }, { status: 400 });
+      }
+      reservationId = hold.reservationId;
+    }
+
+    const release = async () => {
+      if (!reservationId) return;
+      await releaseCodeHold(supabaseAdmin, { reservationId }).catch((e) =>
+        console.error("Failed to release code hold", e)
       );
+    };
+
+    let data;
+    try {
+      const amount = plan.pricePaise - (applied?.discountPaise ?? 0);
+      const receipt = `upscai_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+
+      const auth = Buffer.from(`${keyId}:${keySecret}`).toString("base64");
+
+      const r = await fetch("https://api.razorpay.com/v1/orders", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Basic ${auth}`,
+        },
+        body: JSON.stringify({
+          amount,
+          currency: plan.currency,
+          receipt,
+          payment_capture: 1,
+          notes: {
+            user_id: user.id,
+            email: user.email ?? "",
+            plan_id: plan.id,
+            ...(applied ? { code: applied.code } : {}),
+          },
+        }),
+      });
+
+      data = await r.json();
+
+      if (!r.ok) {
+        await release();
+        return NextResponse.json(
+          { error: "Failed to create order", details: data?.error?.description ?? data },
+          { status: 500 }
+        );
+      }
+
+      // Keep our own record: /verify trusts this, not the client, for owner + amount
+      await savePaymentOrder(supabaseAdmin, {
+        orderId: data.id,
+        userId: user.id,
+        planId: plan.id,
+        amount: data.amount,
+        listAmount: plan.pricePaise,
+        currency: data.currency,
+        receipt,
+        applied,
+      });
+      if (reservationId) await attachCodeHold(supabaseAdmin, reservationId, data.id);
+    } catch (e) {
+      await release();
+      throw e;
     }
 
     return NextResponse.json({
       orderId: data.id,
       amount: data.amount,
       currency: data.currency,
+      planId: plan.id,
+      planLabel: plan.label,
+      listAmount: plan.pricePaise,
+      discount: applied?.discountPaise ?? 0,
+      code: applied?.code ?? null,
       keyId: keyId,
     });
   } catch (e: any) {
@@ -1,8 +1,17 @@
 // app/api/payments/razorpay/verify/route.ts
 import { NextResponse } from "next/server";
-import crypto from "crypto";
-import { createClient } from "@supabase/supabase-js";
 import { supabaseServerClient } from "@/lib/supabaseServer";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  getPaymentOrder,
+  markOrderPaid,
+  redeemOrderCode,
+  syncEntitlement,
+  upsertPayment,
+  verifyPaymentSignature,
+} from "@/lib/razorpay";
+import { isEntitled } from "@/lib/plans";
+import { checkRateLimits, clientIp, LIMITS } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 
@@ -14,6 +23,9 @@ function must(name: string) {
 
 export async function POST(request: Request) {
   try {
+    const ipLimit = await checkRateLimits([{ rule: LIMITS.apiIp, id: clientIp(request) }]);
+    if (!ipLimit.ok) return ipLimit.response;
+
     /* ------------------ AUTH ------------------ */
     const authHeader = request.headers.get("authorization") || "";
     const token = authHeader.startsWith("Bearer ")
@@ -33,10 +45,13 @@ export async function POST(request: Request) {
 
     const user = u.user;
 
+    const userLimit = await checkRateLimits([{ rule: LIMITS.apiUser, id: user.id }]);
+    if (!userLimit.ok) return userLimit.response;
+
     /* ------------------ BODY ------------------ */
     const body = await request.json().catch(() => null);
-    const { orderId, paymentId, signature, amount = 39900, currency = "INR" } =
-      body || {};
+    // amount/currency are NOT taken from the client; they come from payment_orders
+    const { orderId, paymentId, signature } = body || {};
 
     if (!orderId || !paymentId || !signature) {
       return NextResponse.json(
@@ -48,12 +63,7 @@ export async function POST(request: Request) {
     /* ------------------ VERIFY SIGNATURE ------------------ */
     const secret = must("RAZORPAY_KEY_SECRET");
 
-    const expected = crypto
-      .createHmac("sha256", secret)
-      .update(`${orderId}|${paymentId}`)
-      .digest("hex");
-
-    if (expected !== signature) {
+    if (!verifyPaymentSignature({ orderId, paymentId, signature, keySecret: secret })) {
       console.error("Signature mismatch", {
         orderId,
         paymentId,
@@ -65,31 +75,36 @@ export async function POST(request: Request) {
     }
 
     /* ------------------ ADMIN CLIENT ------------------ */
-    const supabaseAdmin = createClient(
-      must("NEXT_PUBLIC_SUPABASE_URL"),
-      must("SUPABASE_SERVICE_ROLE_KEY"),
-      { auth: { persistSession: false } }
-    );
+    const supabaseAdmin = getSupabaseAdmin();
 
-    /* ------------------ INSERT PAYMENT (IDEMPOTENT) ------------------ */
-    const { error: payErr } = await supabaseAdmin
-      .from("payments")
-      .upsert(
-        [
-          {
-            user_id: user.id,
-            order_id: orderId,
-            payment_id: paymentId,
-            signature,
-            amount,
-            currency,
-            status: "captured",
-          },
-        ],
-        { onConflict: "payment_id", ignoreDuplicates: true }
-      );
+    /* ------------------ ORDER OWNERSHIP ------------------ */
+    const order = await getPaymentOrder(supabaseAdmin, orderId);
+
+    if (!order) {
+      return NextResponse.json({ error: "Unknown order" }, { status: 404 });
+    }
+
+    if (order.user_id !== user.id) {
+      console.error("Order owner mismatch", { orderId, userId: user.id });
+      return NextResponse.json({ error: "Order does not belong to this user" }, { status: 403 });
+    }
 
-    if (payErr) {
+    /* ------------------ INSERT PAYMENT (IDEMPOTENT) ------------------ */
+    // The webhook may have recorded this payment already; upsertPayment never downgrades it.
+    try {
+      await upsertPayment(supabaseAdmin, {
+        userId: user.id,
+        orderId,
+        paymentId,
+        signature,
+        amount: order.amount,
+        currency: order.currency,
+        status: "captured",
+      });
+      await markOrderPaid(supabaseAdmin, orderId);
+      // Uses up the coupon / referral: the same code can't discount another order past its limits
+      await redeemOrderCode(supabaseAdmin, order);
+    } catch (payErr) {
       console.error("Payment insert failed", payErr);
       return NextResponse.json(
         { error: "Payment record insert failed" },
@@ -97,21 +112,11 @@ export async function POST(request: Request) {
       );
     }
 
-    /* ------------------ UPGRADE USER ------------------ */
-    const { data: profile, error: profErr } = await supabaseAdmin
-      .from("profiles")
-      .upsert(
-        {
-          id: user.id,
-          email: user.email ?? null,
-          is_pro: true,
-        },
-        { onConflict: "id" }
-      )
-      .select("id, is_pro")
-      .single();
-
-    if (profErr) {
+    /* ------------------ EXTEND PLAN ------------------ */
+    let entitlement;
+    try {
+      entitlement = await syncEntitlement(supabaseAdmin, user.id, user.email ?? null);
+    } catch (profErr) {
       console.error("Profile upgrade failed", profErr);
       return NextResponse.json(
         { error: "Failed to upgrade user" },
@@ -122,8 +127,9 @@ export async function POST(request: Request) {
     /* ------------------ SUCCESS ------------------ */
     return NextResponse.json({
       ok: true,
-      isPro: true,
-      profile,
+      isPro: isEntitled(entitlement),
+      planId: entitlement.planId,
+      proUntil: entitlement.proUntil,
     });
   } catch (e: any) {
     console.error("verify route crashed", e);
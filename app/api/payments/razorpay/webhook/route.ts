@@ -0,0 +1,163 @@
+// app/api/payments/razorpay/webhook/route.ts
+// Razorpay → server notifications. Source of truth for payments: a user who closes
+// the browser before /verify runs still gets upgraded by payment.captured.
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  getPaymentOrder,
+  markOrderPaid,
+  redeemOrderCode,
+  syncEntitlement,
+  upsertPayment,
+  verifyWebhookSignature,
+} from "@/lib/razorpay";
+import { releaseCodeHold, reverseRedemption } from "@/lib/coupons";
+
+export const runtime = "nodejs";
+
+function must(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`${name} missing`);
+  return v;
+}
+
+type PaymentEntity = {
+  id: string;
+  order_id: string;
+  amount: number;
+  currency: string;
+  email?: string | null;
+  amount_refunded?: number;
+  notes?: Record<string, string> | [];
+};
+
+type RefundEntity = {
+  id: string;
+  payment_id: string;
+  amount: number;
+};
+
+type WebhookBody = {
+  event?: string;
+  payload?: {
+    payment?: { entity?: PaymentEntity };
+    refund?: { entity?: RefundEntity };
+  };
+};
+
+/** payment_orders owner; else notes.user_id; else whoever /verify recorded for this order. */
+async function resolveUserId(admin: SupabaseClient, payment: PaymentEntity) {
+  const order = await getPaymentOrder(admin, payment.order_id);
+  if (order) return order.user_id;
+
+  const notes = Array.isArray(payment.notes) ? {} : payment.notes ?? {};
+  if (notes.user_id) return notes.user_id;
+
+  const { data } = await admin
+    .from("payments")
+    .select("user_id")
+    .eq("order_id", payment.order_id)
+    .limit(1)
+    .maybeSingle();
+
+  return (data?.user_id as string | undefined) ?? null;
+}
+
+export async function POST(request: Request) {
+  try {
+    /* ------------------ SIGNATURE (raw body) ------------------ */
+    const rawBody = await request.text();
+    const signature = request.headers.get("x-razorpay-signature") || "";
+    const eventId = request.headers.get("x-razorpay-event-id");
+
+    if (
+      !signature ||
+      !verifyWebhookSignature({
+        rawBody,
+        signature,
+        webhookSecret: must("RAZORPAY_WEBHOOK_SECRET"),
+      })
+    ) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+    }
+
+    const body = JSON.parse(rawBody) as WebhookBody;
+    const event = body.event ?? "";
+    const payment = body.payload?.payment?.entity;
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    /* ------------------ DEDUPE (Razorpay retries until 2xx) ------------------ */
+    if (eventId) {
+      const { data: seen } = await supabaseAdmin
+        .from("payment_webhook_events")
+        .select("event_id")
+        .eq("event_id", eventId)
+        .maybeSingle();
+
+      if (seen) return NextResponse.json({ ok: true, duplicate: true });
+    }
+
+    const handled =
+      event === "payment.captured" || event === "payment.failed" || event === "refund.processed";
+
+    if (!handled || !payment) {
+      return NextResponse.json({ ok: true, ignored: event || "unknown" });
+    }
+
+    const userId = await resolveUserId(supabaseAdmin, payment);
+    if (!userId) {
+      // Nothing to credit yet; /verify will record it if the client comes back.
+      console.error("Webhook payment without user", { event, paymentId: payment.id });
+      return NextResponse.json({ ok: true, ignored: "unknown_user" });
+    }
+
+    const base = {
+      userId,
+      orderId: payment.order_id,
+      paymentId: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+    };
+
+    /* ------------------ APPLY ------------------ */
+    if (event === "payment.captured") {
+      await upsertPayment(supabaseAdmin, { ...base, status: "captured" });
+      await markOrderPaid(supabaseAdmin, payment.order_id);
+      const order = await getPaymentOrder(supabaseAdmin, payment.order_id);
+      if (order) await redeemOrderCode(supabaseAdmin, order);
+      await syncEntitlement(supabaseAdmin, userId, payment.email ?? null);
+    } else if (event === "payment.failed") {
+      await upsertPayment(supabaseAdmin, { ...base, status: "failed" });
+      // Give the order's coupon / referral back for another checkout
+      await releaseCodeHold(supabaseAdmin, { orderId: payment.order_id });
+    } else if (event === "refund.processed") {
+      const refund = body.payload?.refund?.entity;
+      const refunded = payment.amount_refunded ?? refund?.amount ?? 0;
+
+      // Partial refunds keep the payment (and its plan time) in place
+      if (refunded >= payment.amount) {
+        await upsertPayment(supabaseAdmin, { ...base, status: "refunded" });
+        await syncEntitlement(supabaseAdmin, userId);
+        // The referrer's bonus analyses were for a paying user
+        await reverseRedemption(supabaseAdmin, payment.order_id);
+      }
+    }
+
+    if (eventId) {
+      await supabaseAdmin
+        .from("payment_webhook_events")
+        .upsert(
+          { event_id: eventId, event, payment_id: payment.id },
+          { onConflict: "event_id", ignoreDuplicates: true }
+        );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    // 5xx → Razorpay retries; every step above is safe to repeat
+    console.error("razorpay webhook failed", e);
+    return NextResponse.json({ error: "webhook_failed" }, { status: 500 });
+  }
+}
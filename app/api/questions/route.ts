@@ -0,0 +1,102 @@
+// app/api/questions/route.ts
+// GET → one page of practice questions (see lib/questionQuery.ts)
+//   ?year=&topic=&subject=&status=   filters (status is the caller's own: attempted, wrong, …)
+//   &cursor=                         from the previous page's nextCursor
+//   &limit=                          default PAGE_SIZE, max MAX_PAGE_SIZE
+//   &counts=1                        include per-filter counts (first page of a filter)
+// GET ?ids=1,2,3 → those questions in that order (sessions), max MAX_IDS_PER_REQUEST
+// GET ?meta=1&year=&topic=&cursor= → META_PAGE_SIZE text-less rows (session pools)
+import { NextResponse } from "next/server";
+import { supabaseServerClient } from "@/lib/supabaseServer";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { checkRateLimits, clientIp, LIMITS } from "@/lib/rateLimit";
+import {
+  decodeCursor,
+  fetchQuestionCounts,
+  fetchQuestionMetaPage,
+  fetchQuestionPage,
+  fetchQuestionsByIds,
+  MAX_IDS_PER_REQUEST,
+  MAX_PAGE_SIZE,
+  PAGE_SIZE,
+  parseFilters,
+} from "@/lib/questionQuery";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const ipLimit = await checkRateLimits([{ rule: LIMITS.apiIp, id: clientIp(request) }]);
+    if (!ipLimit.ok) return ipLimit.response;
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!token) {
+      return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+    }
+
+    const { data: u, error: uErr } = await supabaseServerClient.auth.getUser(token);
+    if (uErr || !u.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userLimit = await checkRateLimits([{ rule: LIMITS.apiUser, id: u.user.id }]);
+    if (!userLimit.ok) return userLimit.response;
+
+    const { searchParams } = new URL(request.url);
+    const admin = getSupabaseAdmin();
+
+    const idsParam = searchParams.get("ids");
+    if (idsParam !== null) {
+      const ids = idsParam
+        .split(",")
+        .map((s) => Number(s))
+        .filter((n) => Number.isInteger(n) && n > 0);
+
+      if (ids.length > MAX_IDS_PER_REQUEST) {
+        return NextResponse.json(
+          { error: `At most ${MAX_IDS_PER_REQUEST} ids per request` },
+          { status: 400 }
+        );
+      }
+
+      const items = await fetchQuestionsByIds(admin, ids);
+      return NextResponse.json({ ok: true, items, nextCursor: null, counts: null });
+    }
+
+    const parsed = parseFilters(searchParams);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const cursor = searchParams.get("cursor");
+    const after = decodeCursor(cursor);
+    if (cursor && after === null) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    if (searchParams.get("meta") === "1") {
+      const page = await fetchQuestionMetaPage(admin, parsed.filters, after);
+      return NextResponse.json({ ok: true, ...page, counts: null });
+    }
+
+    const limitRaw = Number(searchParams.get("limit") || PAGE_SIZE);
+    const limit = Number.isInteger(limitRaw) ? Math.min(Math.max(limitRaw, 1), MAX_PAGE_SIZE) : PAGE_SIZE;
+
+    const [page, counts] = await Promise.all([
+      fetchQuestionPage(admin, u.user.id, parsed.filters, { after, limit }),
+      searchParams.get("counts") === "1"
+        ? fetchQuestionCounts(admin, u.user.id, parsed.filters)
+        : Promise.resolve(null),
+    ]);
+
+    return NextResponse.json({ ok: true, ...page, counts });
+  } catch (e) {
+    console.error("questions page failed", e);
+    return NextResponse.json(
+      { error: "questions_failed", details: e instanceof Error ? e.message : "Unknown" },
+      { status: 500 }
+    );
+  }
+}
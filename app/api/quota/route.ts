@@ -2,6 +2,10 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { supabaseServerClient } from "@/lib/supabaseServer";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { entitlementFromProfile, isEntitled, NO_ENTITLEMENT } from "@/lib/plans";
+import { getReferralBonus } from "@/lib/coupons";
+import { checkRateLimits, clientIp, LIMITS } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 
@@ -22,6 +26,9 @@ function jsonNoStore(data: any, init?: ResponseInit) {
 
 export async function GET(request: Request) {
   try {
+    const ipLimit = await checkRateLimits([{ rule: LIMITS.apiIp, id: clientIp(request) }]);
+    if (!ipLimit.ok) return ipLimit.response;
+
     // 1) Read Bearer token
     const authHeader = request.headers.get("authorization") || "";
     const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
@@ -37,6 +44,9 @@ export async function GET(request: Request) {
     }
     const user = u.user;
 
+    const userLimit = await checkRateLimits([{ rule: LIMITS.apiUser, id: user.id }]);
+    if (!userLimit.ok) return userLimit.response;
+
     // 3) Token-scoped client (RLS-safe)
     const supabaseAuthed = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -47,45 +57,61 @@ export async function GET(request: Request) {
       }
     );
 
-    // 4) Read profile.is_pro
+    // 4) Read plan_id / pro_until (see lib/plans.ts)
     // IMPORTANT: In your project history, profiles.id may NOT always equal auth.user.id.
     // So we try id match first, then fallback to email match.
-    let isPro = false;
+    let entitlement = NO_ENTITLEMENT;
 
     const { data: profById, error: profByIdErr } = await supabaseAuthed
       .from("profiles")
-      .select("id,email,is_pro")
+      .select("id,email,plan_id,pro_until")
       .eq("id", user.id)
       .maybeSingle();
 
     if (!profByIdErr && profById) {
-      isPro = !!profById.is_pro;
+      entitlement = entitlementFromProfile(profById);
     } else if (user.email) {
       const { data: profByEmail, error: profByEmailErr } = await supabaseAuthed
         .from("profiles")
-        .select("id,email,is_pro")
+        .select("id,email,plan_id,pro_until")
         .eq("email", user.email)
         .maybeSingle();
 
       if (!profByEmailErr && profByEmail) {
-        isPro = !!profByEmail.is_pro;
+        entitlement = entitlementFromProfile(profByEmail);
       }
     }
 
-    // 5) Lifetime usage = number of saved analyses
-    // (Assumes question_analysis.user_id stores auth user id. If your column differs, change here.)
+    const isPro = isEntitled(entitlement);
+
+    // 5) Lifetime usage = number of questions this user has unlocked
+    // (analyses themselves are shared; see lib/analysisStore.ts)
     const { count: lifetimeCount, error: countErr } = await supabaseAuthed
-      .from("question_analysis")
+      .from("analysis_unlocks")
       .select("*", { count: "exact", head: true })
       .eq("user_id", user.id);
 
     // If RLS blocks count or table/col mismatch, don’t crash quota endpoint.
     const lifetimeUsed = !countErr ? (lifetimeCount ?? 0) : 0;
-    const lifetimeFreeRemaining = isPro ? 999999 : Math.max(0, LIFETIME_FREE - lifetimeUsed);
+
+    // 6) Referral bonus on top of LIFETIME_FREE (see lib/coupons.ts)
+    let referralBonus = 0;
+    try {
+      referralBonus = await getReferralBonus(getSupabaseAdmin(), user.id);
+    } catch (e) {
+      console.warn("referral bonus lookup failed:", e);
+    }
+
+    const lifetimeFreeRemaining = isPro
+      ? 999999
+      : Math.max(0, LIFETIME_FREE + referralBonus - lifetimeUsed);
 
     return jsonNoStore({
       isPro,
+      planId: entitlement.planId,
+      proUntil: entitlement.proUntil,
       lifetimeUsed,
+      referralBonus,
       lifetimeFreeRemaining,
     });
   } catch (e: any) {
@@ -3,6 +3,7 @@
 import { Suspense, useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { supabaseClient } from "@/lib/supabaseClient";
+import { REDIRECT_PARAM, safeRedirect } from "@/lib/authRedirect";
 
 /* ----------------------------------------------------- */
 /* UI Helpers */
@@ -30,10 +31,7 @@ function LoginClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
 
-  const redirectTo = useMemo(() => {
-    const r = searchParams.get("redirect");
-    return r && r.startsWith("/") ? r : "/practice";
-  }, [searchParams]);
+  const redirectTo = useMemo(() => safeRedirect(searchParams.get(REDIRECT_PARAM)), [searchParams]);
 
   const [mode, setMode] = useState<Mode>("login");
 
@@ -0,0 +1,304 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabaseClient } from "@/lib/supabaseClient";
+import { withRedirect } from "@/lib/authRedirect";
+import { areaOf } from "@/lib/adaptivePractice";
+import { fetchTopics, UNTAGGED } from "@/lib/taxonomy";
+import { fetchNotebookRows } from "@/lib/notes";
+import type { FactHighlight, QuestionNote } from "@/lib/notes";
+
+type NoteQuestion = {
+  id: number;
+  year: number | null;
+  question_number: number | null;
+  subject: string | null;
+  topic_id: string | null;
+  question_text: string;
+};
+
+type Joined<T> = T & { questions: NoteQuestion | NoteQuestion[] | null };
+
+type NotebookEntry = {
+  question: NoteQuestion;
+  area: string; // subject-level bucket (lib/adaptivePractice.ts areaOf)
+  note: QuestionNote | null;
+  highlights: FactHighlight[];
+  lastAt: string;
+};
+
+const one = <T,>(x: T | T[] | null): T | null => (Array.isArray(x) ? (x[0] ?? null) : x);
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+  });
+}
+
+function Chip({
+  active,
+  children,
+  onClick,
+}: {
+  active: boolean;
+  children: React.ReactNode;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={[
+        "rounded-full border px-3 py-1 text-xs",
+        active
+          ? "border-emerald-400 bg-emerald-500/15 text-emerald-100"
+          : "border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500",
+      ].join(" ")}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function NotesPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [entries, setEntries] = useState<NotebookEntry[]>([]);
+  const [areaNames, setAreaNames] = useState<Map<string, string>>(new Map());
+
+  const [areaFilter, setAreaFilter] = useState<string>("All");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const { data: u } = await supabaseClient.auth.getUser();
+      const userId = u.user?.id;
+      if (!userId) {
+        router.replace(withRedirect("/login", "/notes"));
+        return;
+      }
+
+      try {
+        const questionCols = "questions(id, year, question_number, subject, topic_id, question_text)";
+        const [notes, highlights, topics] = await Promise.all([
+          fetchNotebookRows<Joined<QuestionNote>>(
+            supabaseClient,
+            "question_notes",
+            userId,
+            `id, question_id, body, tags, created_at, updated_at, ${questionCols}`
+          ),
+          fetchNotebookRows<Joined<FactHighlight>>(
+            supabaseClient,
+            "fact_highlights",
+            userId,
+            `id, question_id, statement_id, fact, source_pointer, created_at, ${questionCols}`,
+            ["statement_id", "id"]
+          ),
+          fetchTopics(supabaseClient),
+        ]);
+
+        const byQuestion = new Map<number, NotebookEntry>();
+        const entryFor = (q: NoteQuestion, at: string) => {
+          const cur =
+            byQuestion.get(q.id) ??
+            { question: q, area: areaOf(q), note: null, highlights: [], lastAt: at };
+          if (at > cur.lastAt) cur.lastAt = at;
+          byQuestion.set(q.id, cur);
+          return cur;
+        };
+
+        for (const n of notes) {
+          const q = one(n.questions);
+          if (q) entryFor(q, n.updated_at).note = n;
+        }
+        for (const h of highlights) {
+          const q = one(h.questions);
+          if (q) entryFor(q, h.created_at).highlights.push(h);
+        }
+
+        const names = new Map(topics.map((t) => [t.id, t.name]));
+        names.set(UNTAGGED, "Untagged");
+
+        if (!cancelled) {
+          setEntries(Array.from(byQuestion.values()).sort((a, b) => b.lastAt.localeCompare(a.lastAt)));
+          setAreaNames(names);
+        }
+      } catch (e) {
+        if (!cancelled) setErr(e instanceof Error ? e.message : "Failed to load notes.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
+  const areaLabel = (area: string) =>
+    areaNames.get(area) ?? (area.startsWith("subject:") ? area.slice("subject:".length) : area);
+
+  const areas = useMemo(
+    () => Array.from(new Set(entries.map((e) => e.area))).sort((a, b) => a.localeCompare(b)),
+    [entries]
+  );
+
+  const tags = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const e of entries) for (const t of e.note?.tags ?? []) counts.set(t, (counts.get(t) ?? 0) + 1);
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }, [entries]);
+
+  const visible = entries.filter(
+    (e) =>
+      (areaFilter === "All" || e.area === areaFilter) &&
+      (!tagFilter || (e.note?.tags ?? []).includes(tagFilter))
+  );
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50 px-6 py-10">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-semibold">My Notes</h1>
+            <p className="text-sm text-slate-400 mt-1">
+              Your notes and highlighted facts, question by question.
+            </p>
+          </div>
+          <Link
+            href="/practice"
+            className="rounded-md bg-slate-900 border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
+          >
+            ← Practice
+          </Link>
+        </header>
+
+        {err ? (
+          <div className="rounded-xl border border-rose-700 bg-rose-950/30 p-4 text-sm text-rose-200">
+            {err}
+          </div>
+        ) : null}
+
+        {loading ? (
+          <div className="text-sm text-slate-400">Loading notes…</div>
+        ) : entries.length === 0 ? (
+          <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-4 text-sm text-slate-300">
+            No notes yet. In{" "}
+            <Link href="/practice" className="text-emerald-300 hover:underline">
+              Practice
+            </Link>
+            , add a note under a question or star a fact in its analysis.
+          </div>
+        ) : (
+          <>
+            <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs uppercase tracking-wide text-slate-400">Subject</span>
+                <select
+                  value={areaFilter}
+                  onChange={(e) => setAreaFilter(e.target.value)}
+                  className="bg-slate-950/60 border border-slate-700 rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="All">All</option>
+                  {areas.map((a) => (
+                    <option key={a} value={a}>
+                      {areaLabel(a)}
+                    </option>
+                  ))}
+                </select>
+                <span className="ml-auto text-xs text-slate-400">
+                  {visible.length} of {entries.length} questions
+                </span>
+              </div>
+
+              {tags.length ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs uppercase tracking-wide text-slate-400">Tags</span>
+                  <Chip active={!tagFilter} onClick={() => setTagFilter(null)}>
+                    All
+                  </Chip>
+                  {tags.map(([t, n]) => (
+                    <Chip key={t} active={tagFilter === t} onClick={() => setTagFilter(t)}>
+                      #{t} <span className="text-slate-500">{n}</span>
+                    </Chip>
+                  ))}
+                </div>
+              ) : null}
+            </section>
+
+            <div className="space-y-4">
+              {visible.map((e) => (
+                <article
+                  key={e.question.id}
+                  className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5 space-y-3"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                    <div className="font-semibold uppercase tracking-wide text-emerald-400 flex flex-wrap gap-2">
+                      <span>{areaLabel(e.area)}</span>
+                      {e.question.year && <span>• {e.question.year}</span>}
+                      {e.question.question_number && <span>• Q{e.question.question_number}</span>}
+                    </div>
+                    <span className="text-slate-500">{formatDate(e.lastAt)}</span>
+                  </div>
+
+                  <p className="text-sm text-slate-300 line-clamp-3 whitespace-pre-wrap">
+                    {e.question.question_text}
+                  </p>
+
+                  {e.note?.body ? (
+                    <div className="rounded-lg border border-slate-700 bg-slate-950/40 p-3 text-sm text-slate-100 whitespace-pre-wrap">
+                      {e.note.body}
+                    </div>
+                  ) : null}
+
+                  {e.note?.tags.length ? (
+                    <div className="flex flex-wrap gap-2">
+                      {e.note.tags.map((t) => (
+                        <button
+                          key={t}
+                          type="button"
+                          onClick={() => setTagFilter(t)}
+                          className="text-xs text-emerald-300 hover:underline"
+                        >
+                          #{t}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+
+                  {e.highlights.length ? (
+                    <ul className="space-y-2">
+                      {e.highlights.map((h) => (
+                        <li
+                          key={h.id}
+                          className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3"
+                        >
+                          <div className="text-sm text-slate-100">★ {h.fact}</div>
+                          {h.source_pointer ? (
+                            <div className="mt-1 text-[11px] text-slate-400">{h.source_pointer}</div>
+                          ) : null}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </article>
+              ))}
+
+              {visible.length === 0 ? (
+                <div className="text-sm text-slate-400">Nothing matches these filters.</div>
+              ) : null}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { supabaseClient } from "@/lib/supabaseClient";
+import { REDIRECT_PARAM, safeRedirect, withRedirect } from "@/lib/authRedirect";
 
 type ProfileRow = {
   id: string;
@@ -19,7 +20,7 @@ export default function OnboardingClient() {
   const router = useRouter();
   const sp = useSearchParams();
 
-  const redirectTo = useMemo(() => sp.get("redirectTo") || "/practice", [sp]);
+  const redirectTo = useMemo(() => safeRedirect(sp.get(REDIRECT_PARAM)), [sp]);
 
   const [loading, setLoading] = useState(true);
   const [email, setEmail] = useState("");
@@ -61,13 +62,13 @@ export default function OnboardingClient() {
         try {
           await supabaseClient.auth.signOut();
         } catch {}
-        if (alive) router.replace(`/login?redirectTo=${encodeURIComponent(redirectTo)}`);
+        if (alive) router.replace(withRedirect("/login", redirectTo));
         return;
       }
 
       const session = s.session;
       if (!session?.user) {
-        if (alive) router.replace(`/login?redirectTo=${encodeURIComponent(redirectTo)}`);
+        if (alive) router.replace(withRedirect("/login", redirectTo));
         return;
       }
 
@@ -90,8 +91,8 @@ export default function OnboardingClient() {
         return;
       }
 
-      // 3) If already complete => go onwards
-      if (prof && isComplete(prof as ProfileRow)) {
+      // 3) If already complete => go onwards (proxy.ts sends back anyone not flagged onboarded)
+      if (prof && prof.onboarded !== false && isComplete(prof as ProfileRow)) {
         if (alive) router.replace(redirectTo);
         return;
       }
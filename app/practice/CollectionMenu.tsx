@@ -0,0 +1,111 @@
+// app/practice/CollectionMenu.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { CollectionSummary } from "@/lib/collections";
+
+type Props = {
+  collections: CollectionSummary[];
+  memberOf: Set<string>; // collection ids holding the current question
+  onToggle: (collectionId: string, include: boolean) => Promise<void>;
+  onCreate: (name: string) => Promise<void>; // creates and adds the current question
+};
+
+/** "Save to…" dropdown for the current question (bookmarks have their own star). */
+export default function CollectionMenu({ collections, memberOf, onToggle, onCreate }: Props) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const custom = collections.filter((c) => c.kind === "custom");
+  const savedCount = custom.filter((c) => memberOf.has(c.id)).length;
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="rounded-md border border-slate-700 bg-slate-900 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-800"
+      >
+        Save to…{savedCount ? ` (${savedCount})` : ""}
+      </button>
+
+      {open ? (
+        <div className="absolute right-0 z-20 mt-1 w-64 rounded-lg border border-slate-700 bg-slate-950 p-2 shadow-xl">
+          {custom.length ? (
+            <ul className="max-h-60 overflow-y-auto">
+              {custom.map((c) => (
+                <li key={c.id}>
+                  <label className="flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-sm text-slate-200 hover:bg-slate-800/70">
+                    <input
+                      type="checkbox"
+                      checked={memberOf.has(c.id)}
+                      disabled={busy}
+                      onChange={(e) => run(() => onToggle(c.id, e.target.checked))}
+                    />
+                    <span className="flex-1 truncate">{c.name}</span>
+                    <span className="text-xs text-slate-500">{c.itemCount}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="px-2 py-1 text-xs text-slate-400">No collections yet.</div>
+          )}
+
+          <form
+            className="mt-2 flex gap-2 border-t border-slate-800 pt-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!name.trim()) return;
+              void run(async () => {
+                await onCreate(name);
+                setName("");
+              });
+            }}
+          >
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New collection"
+              maxLength={80}
+              className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+            />
+            <button
+              type="submit"
+              disabled={busy || !name.trim()}
+              className="rounded-md bg-emerald-500 px-2 py-1 text-xs font-semibold text-slate-950 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+
+          {error ? <div className="mt-1 px-2 text-xs text-rose-400">{error}</div> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
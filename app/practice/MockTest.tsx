@@ -0,0 +1,720 @@
+// app/practice/MockTest.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabaseClient } from "@/lib/supabaseClient";
+import { MARKS_CORRECT, MARKS_WRONG, scoreAnswers } from "@/lib/scoring";
+import type { ScoredAnswer } from "@/lib/scoring";
+import { answerKeyOf, describeKey, gradeAnswer, gradeToIsCorrect, isGradable } from "@/lib/answerKey";
+import { clampTimeSpent, newSessionId } from "@/lib/attemptEvents";
+import type { AttemptEventInsert } from "@/lib/attemptEvents";
+import { fetchQuestionsByIds, requestQuestionMeta } from "@/lib/questionQuery";
+import type { QuestionMeta } from "@/lib/questionQuery";
+import type { QuestionRow } from "./types";
+
+const MOCK_DURATION_MS = 2 * 60 * 60 * 1000; // 2 hours, same as GS Paper I
+const RANDOM_PAPER_SIZE = 100;
+const STORAGE_KEY = "mock_test_v1";
+
+type Phase = "setup" | "running" | "results";
+
+type MockState = {
+  label: string; // e.g. "2023 paper" / "Random 100"
+  questionIds: number[];
+  answers: Record<number, string>;
+  marked: number[];
+  visited: number[];
+  index: number;
+  startedAt: number;
+  endsAt: number;
+  submittedAt: number | null;
+  // attempt events; optional so snapshots saved before these existed still resume
+  sessionId?: string;
+  timeSpent?: Record<number, number>; // ms per question, summed across visits
+  enteredAt?: number; // when the current question was opened
+};
+
+type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+/* ---------- localStorage snapshot (survives refresh mid-paper) ---------- */
+
+function readSnapshot(): MockState | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as MockState;
+    if (!Array.isArray(parsed?.questionIds) || !parsed.endsAt) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function writeSnapshot(s: MockState | null) {
+  try {
+    if (s) localStorage.setItem(STORAGE_KEY, JSON.stringify(s));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/** True when a paper was started and not yet submitted (used to resume after reload). */
+export function hasMockInProgress() {
+  if (typeof window === "undefined") return false;
+  const s = readSnapshot();
+  return !!s && !s.submittedAt;
+}
+
+function shuffle<T>(arr: T[]): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** Books the time since the current question was opened against it. */
+function withTimeOnCurrent(m: MockState, at: number): MockState {
+  const id = m.questionIds[m.index];
+  const since = m.enteredAt ?? m.startedAt;
+  const timeSpent = { ...(m.timeSpent ?? {}) };
+  timeSpent[id] = (timeSpent[id] ?? 0) + Math.max(0, at - since);
+  return { ...m, timeSpent, enteredAt: at };
+}
+
+function formatClock(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
+
+export default function MockTest({ onExit }: { onExit: () => void }) {
+  const [mock, setMock] = useState<MockState | null>(null);
+  const [pool, setPool] = useState<QuestionMeta[] | null>(null); // every question, without text
+  const [paperRows, setPaperRows] = useState<QuestionRow[]>([]); // full rows of the open paper
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [paperChoice, setPaperChoice] = useState<string>("random");
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Only questions with a key can be scored in exam mode; dropped ones stay in their
+  // year's paper (as in the real exam) but score nothing
+  const scorable = useMemo(
+    () =>
+      (pool ?? []).filter((q) => {
+        const key = answerKeyOf(q);
+        return isGradable(key) || key.status === "dropped";
+      }),
+    [pool]
+  );
+
+  const byId = useMemo(() => new Map(paperRows.map((q) => [q.id, q])), [paperRows]);
+
+  const years = useMemo(
+    () =>
+      Array.from(new Set(scorable.map((q) => q.year).filter((x): x is number => !!x))).sort(
+        (a, b) => b - a
+      ),
+    [scorable]
+  );
+
+  const phase: Phase = !mock ? "setup" : mock.submittedAt ? "results" : "running";
+
+  const paper = useMemo(
+    () =>
+      (mock?.questionIds ?? [])
+        .map((id) => byId.get(id))
+        .filter((q): q is QuestionRow => !!q),
+    [mock?.questionIds, byId]
+  );
+
+  // ---- load the pool, and resume a paper left running before a reload ----
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const snap = readSnapshot();
+        const { data: s } = await supabaseClient.auth.getSession();
+        const token = s.session?.access_token;
+        if (!token) throw new Error("Not logged in.");
+
+        const [meta, rows] = await Promise.all([
+          requestQuestionMeta(token, { year: null, topic: null }),
+          snap ? fetchQuestionsByIds(supabaseClient, snap.questionIds) : Promise.resolve([]),
+        ]);
+        setPool(meta);
+        setPaperRows(rows);
+        if (snap) setMock(snap);
+      } catch (e) {
+        setLoadError(e instanceof Error ? e.message : "Failed to load questions.");
+      }
+    };
+
+    load();
+  }, []);
+
+  // ---- persist every change while the paper is open ----
+  useEffect(() => {
+    if (mock) writeSnapshot(mock);
+  }, [mock]);
+
+  // ---- countdown ----
+  useEffect(() => {
+    if (phase !== "running") return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [phase]);
+
+  const remainingMs = mock ? mock.endsAt - now : MOCK_DURATION_MS;
+
+  /* ---------- actions ---------- */
+
+  const startPaper = async () => {
+    let picked: QuestionMeta[];
+    let label: string;
+
+    if (paperChoice === "random") {
+      picked = shuffle(scorable).slice(0, RANDOM_PAPER_SIZE);
+      label = `Random ${picked.length}`;
+    } else {
+      picked = scorable
+        .filter((q) => String(q.year ?? "") === paperChoice)
+        .sort((a, b) => (a.question_number ?? a.id) - (b.question_number ?? b.id));
+      label = `${paperChoice} paper`;
+    }
+
+    if (picked.length === 0) return;
+
+    setStarting(true);
+    setLoadError(null);
+    try {
+      setPaperRows(await fetchQuestionsByIds(supabaseClient, picked.map((q) => q.id)));
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : "Failed to load the paper.");
+      return;
+    } finally {
+      setStarting(false);
+    }
+
+    const startedAt = Date.now();
+    setSaveStatus("idle");
+    setSaveError(null);
+    setNow(startedAt);
+    setMock({
+      label,
+      questionIds: picked.map((q) => q.id),
+      answers: {},
+      marked: [],
+      visited: [picked[0].id],
+      index: 0,
+      startedAt,
+      endsAt: startedAt + MOCK_DURATION_MS,
+      submittedAt: null,
+      sessionId: newSessionId(),
+      timeSpent: {},
+      enteredAt: startedAt,
+    });
+  };
+
+  const goTo = (index: number) => {
+    setMock((m) => {
+      if (!m || index < 0 || index >= m.questionIds.length) return m;
+      const id = m.questionIds[index];
+      return {
+        ...withTimeOnCurrent(m, Date.now()),
+        index,
+        visited: m.visited.includes(id) ? m.visited : [...m.visited, id],
+      };
+    });
+  };
+
+  const choose = (key: string) => {
+    setMock((m) => {
+      if (!m) return m;
+      const id = m.questionIds[m.index];
+      return { ...m, answers: { ...m.answers, [id]: key } };
+    });
+  };
+
+  const clearResponse = () => {
+    setMock((m) => {
+      if (!m) return m;
+      const id = m.questionIds[m.index];
+      const answers = { ...m.answers };
+      delete answers[id];
+      return { ...m, answers };
+    });
+  };
+
+  const toggleMark = () => {
+    setMock((m) => {
+      if (!m) return m;
+      const id = m.questionIds[m.index];
+      return {
+        ...m,
+        marked: m.marked.includes(id) ? m.marked.filter((x) => x !== id) : [...m.marked, id],
+      };
+    });
+  };
+
+  /* ---------- submit: one batch write to question_attempts ---------- */
+  const saveAttempts = async (m: MockState) => {
+    setSaveStatus("saving");
+    setSaveError(null);
+
+    try {
+      const { data: u, error: userErr } = await supabaseClient.auth.getUser();
+      if (userErr) throw userErr;
+      const user = u.user;
+      if (!user) throw new Error("Not logged in.");
+
+      const rows: AttemptEventInsert[] = m.questionIds
+        .filter((id) => !!m.answers[id])
+        .map((id) => ({
+          user_id: user.id,
+          question_id: id,
+          selected_option: m.answers[id],
+          is_correct: gradeToIsCorrect(gradeAnswer(answerKeyOf(byId.get(id)), m.answers[id])),
+          time_spent_ms: clampTimeSpent(m.timeSpent?.[id]),
+          confidence: null, // not asked mid-exam
+          analysis_opened_first: false,
+          session_id: m.sessionId ?? null,
+        }));
+
+      if (rows.length > 0) {
+        const { error: insertErr } = await supabaseClient.from("question_attempts").insert(rows);
+        if (insertErr) throw insertErr;
+      }
+
+      setSaveStatus("saved");
+    } catch (e) {
+      console.error("Failed to save mock attempts:", e);
+      setSaveStatus("error");
+      setSaveError(e instanceof Error ? e.message : "Failed to save attempts.");
+    }
+  };
+
+  const submitPaper = () => {
+    if (!mock || mock.submittedAt) return;
+    const submittedAt = Math.min(Date.now(), mock.endsAt);
+    const done = { ...withTimeOnCurrent(mock, submittedAt), submittedAt };
+    setConfirmSubmit(false);
+    setMock(done);
+    void saveAttempts(done);
+  };
+
+  // ---- auto-submit when the clock runs out ----
+  useEffect(() => {
+    if (phase === "running" && remainingMs <= 0) submitPaper();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, remainingMs]);
+
+  const exit = () => {
+    writeSnapshot(null);
+    setMock(null);
+    onExit();
+  };
+
+  /* ---------- results ---------- */
+
+  const summary = useMemo(() => {
+    if (!mock) return null;
+    return scoreAnswers(
+      paper.map((q) => ({
+        selected: mock.answers[q.id] ?? null,
+        correct: q.correct_option,
+        key: answerKeyOf(q),
+      }))
+    );
+  }, [mock, paper]);
+
+  const subjectBreakdown = useMemo(() => {
+    if (!mock) return [];
+    const map = new Map<string, ScoredAnswer[]>();
+    for (const q of paper) {
+      const subject = (q.subject ?? "Unknown").trim() || "Unknown";
+      const list = map.get(subject) ?? [];
+      list.push({ selected: mock.answers[q.id] ?? null, correct: q.correct_option, key: answerKeyOf(q) });
+      map.set(subject, list);
+    }
+    return Array.from(map.entries())
+      .map(([subject, items]) => ({ subject, ...scoreAnswers(items) }))
+      .sort((a, b) => b.total - a.total);
+  }, [mock, paper]);
+
+  /* ======================================================
+     SETUP
+     ====================================================== */
+  if (phase === "setup" || !mock) {
+    return (
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+        <div>
+          <div className="text-lg font-semibold text-slate-100">Full-length mock test</div>
+          <div className="text-xs text-slate-400 mt-1">
+            2 hours · mark for review · submit once at the end · +{MARKS_CORRECT} / {MARKS_WRONG}{" "}
+            marking
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs uppercase tracking-wide text-slate-400">Paper</span>
+          <select
+            value={paperChoice}
+            onChange={(e) => setPaperChoice(e.target.value)}
+            className="bg-slate-950/60 border border-slate-700 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="random">Random {RANDOM_PAPER_SIZE} questions</option>
+            {years.map((y) => (
+              <option key={y} value={String(y)}>
+                {y} paper
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {pool === null && !loadError && <p className="text-sm text-slate-400">Loading questions…</p>}
+        {pool !== null && scorable.length === 0 && (
+          <p className="text-sm text-rose-400">No questions with an answer key are available.</p>
+        )}
+        {loadError && <p className="text-sm text-rose-400">{loadError}</p>}
+
+        <div className="flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={exit}
+            className="rounded-md bg-slate-900 border border-slate-700 px-4 py-2 text-sm text-slate-200 hover:bg-slate-800"
+          >
+            Back to practice
+          </button>
+          <button
+            type="button"
+            onClick={startPaper}
+            disabled={scorable.length === 0 || starting}
+            className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+          >
+            {starting ? "Loading paper…" : "Start test"}
+          </button>
+        </div>
+      </section>
+    );
+  }
+
+  /* ======================================================
+     RESULTS
+     ====================================================== */
+  if (phase === "results" && summary) {
+    const timeTaken = (mock.submittedAt ?? mock.endsAt) - mock.startedAt;
+
+    return (
+      <section className="space-y-4">
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="text-lg font-semibold text-slate-100">Result — {mock.label}</div>
+              <div className="text-xs text-slate-400 mt-1">
+                Time taken {formatClock(timeTaken)} · +{MARKS_CORRECT} / {MARKS_WRONG} marking
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-3xl font-semibold text-emerald-300">{summary.netMarks}</div>
+              <div className="text-xs text-slate-400">out of {summary.maxMarks}</div>
+              {summary.voided > 0 && (
+                <div className="text-xs text-amber-300">
+                  {summary.voided} dropped question{summary.voided === 1 ? "" : "s"} not scored
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4 text-sm">
+            <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400">Correct</div>
+              <div className="mt-1 text-xl font-semibold text-emerald-300">{summary.correct}</div>
+            </div>
+            <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400">Wrong</div>
+              <div className="mt-1 text-xl font-semibold text-rose-300">{summary.wrong}</div>
+            </div>
+            <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400">Skipped</div>
+              <div className="mt-1 text-xl font-semibold text-slate-100">{summary.unattempted}</div>
+            </div>
+            <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400">Accuracy</div>
+              <div className="mt-1 text-xl font-semibold text-slate-100">{summary.accuracyPct}%</div>
+            </div>
+          </div>
+
+          <div className="text-xs text-slate-400">
+            {saveStatus === "saving" && "Saving attempts…"}
+            {saveStatus === "saved" && "✅ Attempts saved to your profile."}
+            {saveStatus === "error" && (
+              <span className="text-rose-300">
+                Failed to save attempts: {saveError}{" "}
+                <button
+                  type="button"
+                  onClick={() => void saveAttempts(mock)}
+                  className="underline underline-offset-2 hover:text-rose-100"
+                >
+                  Retry
+                </button>
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
+          <div className="text-sm font-semibold text-slate-100">Subject-wise</div>
+          <div className="mt-3 overflow-hidden rounded-xl border border-slate-800">
+            <div className="grid grid-cols-12 bg-slate-900/60 px-4 py-2 text-xs uppercase tracking-wide text-slate-400">
+              <div className="col-span-6">Subject</div>
+              <div className="col-span-2 text-right">Correct</div>
+              <div className="col-span-2 text-right">Wrong</div>
+              <div className="col-span-2 text-right">Marks</div>
+            </div>
+            {subjectBreakdown.map((s) => (
+              <div
+                key={s.subject}
+                className="grid grid-cols-12 px-4 py-3 text-sm border-t border-slate-800/70"
+              >
+                <div className="col-span-6 text-slate-100">{s.subject}</div>
+                <div className="col-span-2 text-right text-slate-200">{s.correct}</div>
+                <div className="col-span-2 text-right text-slate-200">{s.wrong}</div>
+                <div className="col-span-2 text-right text-slate-200">{s.netMarks}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-2">
+          <div className="text-sm font-semibold text-slate-100">Answer review</div>
+          {paper.map((q, i) => {
+            const sel = mock.answers[q.id] ?? null;
+            const key = answerKeyOf(q);
+            const grade = gradeAnswer(key, sel);
+            const tone =
+              grade === "correct"
+                ? "border-emerald-600 text-emerald-200"
+                : grade === "wrong"
+                ? "border-rose-600 text-rose-200"
+                : "border-slate-700 text-slate-300";
+            return (
+              <div
+                key={q.id}
+                className={`rounded-lg border bg-slate-950/40 px-3 py-2 text-sm flex items-start justify-between gap-4 ${tone}`}
+              >
+                <div className="line-clamp-2">
+                  <span className="font-semibold">Q{i + 1}.</span> {q.question_text}
+                </div>
+                <div className="shrink-0 text-xs">
+                  You: {sel ?? "—"} · Key: {describeKey(key)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={exit}
+            className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400"
+          >
+            Back to practice
+          </button>
+        </div>
+      </section>
+    );
+  }
+
+  /* ======================================================
+     RUNNING
+     ====================================================== */
+  const q = paper[mock.index] ?? null;
+  const answeredCount = Object.keys(mock.answers).length;
+  const lowTime = remainingMs < 10 * 60 * 1000;
+
+  const options = q
+    ? [
+        { key: "A", label: q.option_a ?? "" },
+        { key: "B", label: q.option_b ?? "" },
+        { key: "C", label: q.option_c ?? "" },
+        { key: "D", label: q.option_d ?? "" },
+      ].filter((opt) => opt.label.trim().length > 0)
+    : [];
+
+  const paletteTone = (id: number, i: number) => {
+    const answered = !!mock.answers[id];
+    const marked = mock.marked.includes(id);
+    const ring = i === mock.index ? " ring-2 ring-slate-100" : "";
+    if (marked && answered) return `border-violet-500 bg-violet-500/30 text-violet-100${ring}`;
+    if (marked) return `border-violet-500 bg-violet-500/10 text-violet-200${ring}`;
+    if (answered) return `border-emerald-500 bg-emerald-500/20 text-emerald-100${ring}`;
+    if (mock.visited.includes(id)) return `border-rose-600 bg-rose-500/10 text-rose-200${ring}`;
+    return `border-slate-700 bg-slate-900 text-slate-300${ring}`;
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4 flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-slate-100">{mock.label}</div>
+          <div className="text-xs text-slate-400 mt-1">
+            Answered {answeredCount} / {paper.length} · Marked {mock.marked.length}
+          </div>
+        </div>
+        <div
+          className={`font-mono text-2xl font-semibold ${lowTime ? "text-rose-300" : "text-slate-100"}`}
+        >
+          {formatClock(remainingMs)}
+        </div>
+        <button
+          type="button"
+          onClick={() => setConfirmSubmit(true)}
+          className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400"
+        >
+          Submit test
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+        <div className="md:col-span-3 rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+          {q ? (
+            <>
+              <div className="text-xs font-semibold uppercase tracking-wide text-emerald-400 flex flex-wrap gap-2">
+                <span>Question {mock.index + 1}</span>
+                {q.subject && <span>• {q.subject}</span>}
+              </div>
+
+              <pre className="whitespace-pre-wrap text-sm leading-relaxed text-slate-100">
+                {q.question_text}
+              </pre>
+
+              <div className="space-y-2">
+                {options.map((opt) => (
+                  <button
+                    key={opt.key}
+                    type="button"
+                    onClick={() => choose(opt.key)}
+                    className={`flex w-full items-center gap-2 rounded-lg border px-3 py-2 text-left text-sm transition ${
+                      mock.answers[q.id] === opt.key
+                        ? "border-emerald-400 bg-emerald-500/10"
+                        : "border-slate-700 bg-slate-900 hover:border-slate-500"
+                    }`}
+                  >
+                    <span className="inline-flex h-6 w-6 shrink-0 items-center justify-center rounded-full border border-slate-500 text-xs font-semibold">
+                      {opt.key}
+                    </span>
+                    <span>{opt.label}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={toggleMark}
+                    className="rounded-md border border-violet-500 bg-violet-500/10 px-3 py-1 text-xs md:text-sm text-violet-100 hover:bg-violet-500/20"
+                  >
+                    {mock.marked.includes(q.id) ? "Unmark review" : "Mark for review"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clearResponse}
+                    disabled={!mock.answers[q.id]}
+                    className="rounded-md bg-slate-900 border border-slate-700 px-3 py-1 text-xs md:text-sm disabled:opacity-40"
+                  >
+                    Clear response
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => goTo(mock.index - 1)}
+                    disabled={mock.index <= 0}
+                    className="rounded-md bg-slate-900 border border-slate-700 px-3 py-1 text-xs md:text-sm disabled:opacity-40"
+                  >
+                    ← Previous
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => goTo(mock.index + 1)}
+                    disabled={mock.index >= paper.length - 1}
+                    className="rounded-md bg-slate-900 border border-slate-700 px-3 py-1 text-xs md:text-sm disabled:opacity-40"
+                  >
+                    Next →
+                  </button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">Loading paper…</p>
+          )}
+        </div>
+
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4 space-y-3">
+          <div className="text-xs uppercase tracking-wide text-slate-400">Question palette</div>
+          <div className="grid grid-cols-5 gap-1.5">
+            {mock.questionIds.map((id, i) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => goTo(i)}
+                className={`h-8 rounded-md border text-xs font-semibold ${paletteTone(id, i)}`}
+              >
+                {i + 1}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-1 text-[11px] text-slate-400">
+            <div>
+              <span className="text-emerald-300">■</span> Answered
+            </div>
+            <div>
+              <span className="text-violet-300">■</span> Marked for review
+            </div>
+            <div>
+              <span className="text-rose-300">■</span> Visited, not answered
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {confirmSubmit && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+          <div className="w-full max-w-lg rounded-2xl border border-slate-800 bg-slate-950 p-5">
+            <div className="text-lg font-semibold text-slate-100">Submit test?</div>
+            <div className="text-xs text-slate-400 mt-1">
+              Answered {answeredCount} of {paper.length}
+              {mock.marked.length > 0 && ` · ${mock.marked.length} still marked for review`}. You
+              can&apos;t change answers after submitting.
+            </div>
+            <div className="mt-4 flex items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setConfirmSubmit(false)}
+                className="rounded-md bg-slate-900 border border-slate-700 px-4 py-2 text-sm text-slate-200 hover:bg-slate-800"
+              >
+                Keep going
+              </button>
+              <button
+                type="button"
+                onClick={submitPaper}
+                className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400"
+              >
+                Submit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,107 @@
+// app/practice/NotesPanel.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { normalizeTags } from "@/lib/notes";
+import type { QuestionNote } from "@/lib/notes";
+
+type Props = {
+  note: QuestionNote | null;
+  highlightCount: number;
+  onSave: (body: string, tags: string[]) => Promise<void>;
+};
+
+/** Private note + tags for the current question. Remount (key) per question. */
+export default function NotesPanel({ note, highlightCount, onSave }: Props) {
+  const [open, setOpen] = useState(!!note);
+  const [body, setBody] = useState(note?.body ?? "");
+  const [tagsText, setTagsText] = useState((note?.tags ?? []).join(", "));
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const dirty =
+    body.trim() !== (note?.body ?? "") ||
+    normalizeTags(tagsText).join(",") !== (note?.tags ?? []).join(",");
+
+  const save = async () => {
+    setStatus("saving");
+    setError(null);
+    try {
+      await onSave(body, normalizeTags(tagsText));
+      setStatus("saved");
+    } catch (e) {
+      setStatus("error");
+      setError(e instanceof Error ? e.message : "Failed to save note.");
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="flex items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          className="rounded-md border border-slate-700 bg-slate-900 px-3 py-1.5 text-slate-200 hover:bg-slate-800"
+        >
+          + Add note
+        </button>
+        {highlightCount ? (
+          <span className="text-amber-200">
+            {highlightCount} highlighted fact{highlightCount === 1 ? "" : "s"}
+          </span>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-950/40 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs uppercase tracking-wide text-slate-400">My note (private)</div>
+        <Link href="/notes" className="text-xs text-emerald-300 hover:underline">
+          All notes →
+        </Link>
+      </div>
+
+      <textarea
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          setStatus("idle");
+        }}
+        rows={3}
+        placeholder="What to remember about this question…"
+        className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={tagsText}
+          onChange={(e) => {
+            setTagsText(e.target.value);
+            setStatus("idle");
+          }}
+          placeholder="Tags, e.g. revise, maps"
+          className="flex-1 min-w-[10rem] rounded-md border border-slate-700 bg-slate-950 px-3 py-1.5 text-xs text-slate-100"
+        />
+        <button
+          type="button"
+          onClick={save}
+          disabled={!dirty || status === "saving"}
+          className="rounded-md bg-emerald-500 px-3 py-1.5 text-xs font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-50"
+        >
+          {status === "saving" ? "Saving…" : "Save note"}
+        </button>
+        {status === "saved" && !dirty ? <span className="text-xs text-emerald-300">Saved</span> : null}
+      </div>
+
+      {highlightCount ? (
+        <div className="text-xs text-amber-200">
+          {highlightCount} highlighted fact{highlightCount === 1 ? "" : "s"} from the analysis
+        </div>
+      ) : null}
+      {error ? <div className="text-xs text-rose-400">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+// app/practice/SearchBox.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { supabaseClient } from "@/lib/supabaseClient";
+import { MIN_QUERY_LENGTH, searchQuestions, snippetParts } from "@/lib/search";
+import type { SearchHit } from "@/lib/search";
+
+type Props = {
+  describe: (hit: SearchHit) => string; // "Polity › Constitution • 2019 • Q12"
+  onOpen: (hit: SearchHit, hits: SearchHit[], query: string) => void;
+};
+
+const DEBOUNCE_MS = 300;
+
+/** Search box + ranked results; picking a result opens it in the practice view. */
+export default function SearchBox({ describe, onOpen }: Props) {
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<SearchHit[] | null>(null); // null = nothing searched yet
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < MIN_QUERY_LENGTH) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+      try {
+        const found = await searchQuestions(supabaseClient, q);
+        if (!cancelled) setHits(found);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Search failed.");
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const tooShort = query.trim().length < MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={ref} className="relative w-full md:w-80">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setOpen(false);
+          if (e.key === "Enter" && !tooShort && hits?.length) {
+            onOpen(hits[0], hits, query.trim());
+            setOpen(false);
+          }
+        }}
+        placeholder="Search questions & analyses, e.g. Ramsar sites"
+        className="w-full rounded-md border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-slate-100"
+      />
+
+      {open && !tooShort ? (
+        <div className="absolute left-0 right-0 z-20 mt-1 max-h-96 overflow-y-auto rounded-lg border border-slate-700 bg-slate-950 p-2 shadow-xl md:w-[32rem]">
+          {error ? (
+            <div className="px-2 py-1 text-xs text-rose-400">{error}</div>
+          ) : searching && !hits ? (
+            <div className="px-2 py-1 text-xs text-slate-400">Searching…</div>
+          ) : hits && hits.length === 0 ? (
+            <div className="px-2 py-1 text-xs text-slate-400">No questions match “{query.trim()}”.</div>
+          ) : (
+            <ul className="space-y-1">
+              {(hits ?? []).map((h) => (
+                <li key={h.questionId}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onOpen(h, hits ?? [], query.trim());
+                      setOpen(false);
+                    }}
+                    className="w-full rounded-md px-2 py-2 text-left hover:bg-slate-800/70"
+                  >
+                    <div className="flex items-center justify-between gap-2 text-[11px] uppercase tracking-wide">
+                      <span className="truncate text-emerald-400">{describe(h)}</span>
+                      {h.matchedIn === "analysis" ? (
+                        <span className="shrink-0 text-slate-500">in analysis</span>
+                      ) : null}
+                    </div>
+                    <div className="mt-0.5 text-xs text-slate-300 line-clamp-3">
+                      {snippetParts(h.snippet).map((p, i) =>
+                        p.hit ? (
+                          <mark key={i} className="rounded bg-amber-400/25 px-0.5 text-amber-100">
+                            {p.text}
+                          </mark>
+                        ) : (
+                          <span key={i}>{p.text}</span>
+                        )
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+// app/practice/TopicFilter.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ancestorIds, UNTAGGED } from "@/lib/taxonomy";
+import type { TopicNode, TopicTally } from "@/lib/taxonomy";
+
+type Props = {
+  tree: TopicNode[];
+  counts: Map<string, TopicTally>; // questions per node, rolled up
+  value: string; // "All" | topic id | UNTAGGED
+  label: string; // display text for the current value
+  onChange: (value: string) => void;
+};
+
+/* ---------- one row + its (collapsible) children ---------- */
+
+function TreeRow({
+  node,
+  counts,
+  value,
+  expanded,
+  onToggle,
+  onPick,
+}: {
+  node: TopicNode;
+  counts: Map<string, TopicTally>;
+  value: string;
+  expanded: Set<string>;
+  onToggle: (id: string) => void;
+  onPick: (id: string) => void;
+}) {
+  const count = counts.get(node.id)?.total ?? 0;
+  const visibleChildren = node.children.filter((c) => (counts.get(c.id)?.total ?? 0) > 0);
+  const open = expanded.has(node.id);
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-1"
+        style={{ paddingLeft: `${node.depth * 14}px` }}
+      >
+        {visibleChildren.length ? (
+          <button
+            type="button"
+            onClick={() => onToggle(node.id)}
+            className="w-5 text-xs text-slate-400 hover:text-slate-100"
+            aria-label={open ? "Collapse" : "Expand"}
+          >
+            {open ? "▾" : "▸"}
+          </button>
+        ) : (
+          <span className="w-5" />
+        )}
+        <button
+          type="button"
+          onClick={() => onPick(node.id)}
+          className={[
+            "flex flex-1 items-center justify-between gap-3 rounded px-2 py-1 text-left text-sm",
+            value === node.id
+              ? "bg-emerald-500/20 text-emerald-100"
+              : "text-slate-200 hover:bg-slate-800/70",
+          ].join(" ")}
+        >
+          <span>{node.name}</span>
+          <span className="text-xs text-slate-500">{count}</span>
+        </button>
+      </div>
+
+      {open && visibleChildren.length ? (
+        <ul>
+          {visibleChildren.map((c) => (
+            <TreeRow
+              key={c.id}
+              node={c}
+              counts={counts}
+              value={value}
+              expanded={expanded}
+              onToggle={onToggle}
+              onPick={onPick}
+            />
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  );
+}
+
+/* ---------- dropdown ---------- */
+
+export default function TopicFilter({ tree, counts, value, label, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  // Opening on a deep selection shows where it sits
+  const toggleMenu = () => {
+    if (!open && value !== "All" && value !== UNTAGGED) {
+      setExpanded((prev) => {
+        const next = new Set(prev);
+        for (const id of ancestorIds(value).slice(0, -1)) next.add(id);
+        return next;
+      });
+    }
+    setOpen((o) => !o);
+  };
+
+  const toggle = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const pick = (id: string) => {
+    onChange(id);
+    setOpen(false);
+  };
+
+  const roots = tree.filter((n) => (counts.get(n.id)?.total ?? 0) > 0);
+  const untagged = counts.get(UNTAGGED)?.total ?? 0;
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={toggleMenu}
+        className="min-w-[12rem] max-w-[22rem] truncate bg-slate-950/60 border border-slate-700 rounded-md px-3 py-2 text-left text-sm"
+      >
+        {label} <span className="text-slate-500">▾</span>
+      </button>
+
+      {open ? (
+        <div className="absolute left-0 z-20 mt-1 max-h-96 w-80 overflow-y-auto rounded-lg border border-slate-700 bg-slate-950 p-2 shadow-xl">
+          <button
+            type="button"
+            onClick={() => pick("All")}
+            className={[
+              "mb-1 flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm",
+              value === "All" ? "bg-emerald-500/20 text-emerald-100" : "text-slate-200 hover:bg-slate-800/70",
+            ].join(" ")}
+          >
+            <span>All topics</span>
+          </button>
+
+          <ul>
+            {roots.map((n) => (
+              <TreeRow
+                key={n.id}
+                node={n}
+                counts={counts}
+                value={value}
+                expanded={expanded}
+                onToggle={toggle}
+                onPick={pick}
+              />
+            ))}
+          </ul>
+
+          {untagged ? (
+            <button
+              type="button"
+              onClick={() => pick(UNTAGGED)}
+              className={[
+                "mt-1 flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm",
+                value === UNTAGGED ? "bg-emerald-500/20 text-emerald-100" : "text-slate-400 hover:bg-slate-800/70",
+              ].join(" ")}
+            >
+              <span>Untagged</span>
+              <span className="text-xs text-slate-500">{untagged}</span>
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -5,29 +5,96 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { supabaseClient } from "@/lib/supabaseClient";
-import type { QuestionAnalysisV1, StatementVerdict, SourceRef } from "@/lib/aiAnalysis";
+import { currentPath, withRedirect } from "@/lib/authRedirect";
+import type {
+  Fact,
+  QuestionAnalysisV1,
+  StatementVerdict,
+  SourceRef,
+  StrategyV1,
+} from "@/lib/aiAnalysis";
 import { normalizeQuestionAnalysisV1 } from "@/lib/aiAnalysis";
+import type { PartialAnalysis } from "@/lib/analysisStream";
+import {
+  applyAnalysisEvent,
+  emptyPartialAnalysis,
+  readAnalysisStream,
+} from "@/lib/analysisStream";
+import { buildReviewSchedule, dueForReview } from "@/lib/spacedRepetition";
+import type { AttemptEvent } from "@/lib/spacedRepetition";
+import {
+  answerKeyOf,
+  answerLabel,
+  describeKey,
+  gradeAnswer,
+  gradeToIsCorrect,
+  isGradable,
+} from "@/lib/answerKey";
+import { buildWeakAreaSession } from "@/lib/adaptivePractice";
+import {
+  clampTimeSpent,
+  CONFIDENCE_LABELS,
+  CONFIDENCE_LEVELS,
+  fetchUserAttempts,
+  newSessionId,
+} from "@/lib/attemptEvents";
+import type { AttemptEventInsert, Confidence } from "@/lib/attemptEvents";
+import {
+  highlightKey,
+  loadQuestionNotebook,
+  saveQuestionNote,
+  toggleFactHighlight,
+} from "@/lib/notes";
+import type { FactHighlight, QuestionNote } from "@/lib/notes";
+import {
+  collectionShareUrl,
+  collectionsContaining,
+  createCollection,
+  deleteCollection,
+  ensureBookmarks,
+  getCollection,
+  getSharedCollection,
+  listMyCollections,
+  setInCollection,
+  updateCollection,
+} from "@/lib/collections";
+import type { CollectionSummary, SharedCollection } from "@/lib/collections";
+import type { SearchHit } from "@/lib/search";
+import {
+  QUESTION_STATUSES,
+  requestQuestionMeta,
+  requestQuestionPage,
+  requestQuestionsByIds,
+  STATUS_LABELS,
+} from "@/lib/questionQuery";
+import type { QuestionCounts, QuestionFilters, QuestionStatus } from "@/lib/questionQuery";
+import type { WeakArea } from "@/lib/adaptivePractice";
+import { availablePlans, formatPrice, getPlan } from "@/lib/plans";
+import type { PlanId } from "@/lib/plans";
+import { buildTopicTree, fetchTopics, isWithin, rollUp, topicPath, UNTAGGED } from "@/lib/taxonomy";
+import type { Topic } from "@/lib/taxonomy";
+import type { QuestionRow } from "./types";
+import MockTest, { hasMockInProgress } from "./MockTest";
+import TopicFilter from "./TopicFilter";
+import NotesPanel from "./NotesPanel";
+import CollectionMenu from "./CollectionMenu";
+import SearchBox from "./SearchBox";
+
+// A fixed, ordered set of questions served instead of the plain filtered list
+type PracticeSession =
+  | { kind: "review"; ids: number[] } // spaced-repetition due queue
+  | { kind: "weak"; ids: number[]; focus: WeakArea[] } // lib/adaptivePractice.ts
+  | { kind: "collection"; ids: number[]; collection: SharedCollection; readOnly: boolean } // lib/collections.ts
+  | { kind: "search"; ids: number[]; query: string }; // lib/search.ts, ranked
 
 type AnalysisTabsProps = {
-  analysis: QuestionAnalysisV1;
+  analysis: PartialAnalysis; // a complete QuestionAnalysisV1, or sections streamed so far
+  streaming?: boolean;
   analysisUpdatedAt?: string | null;
   difficulty?: string; //
-};
-
-/* ---------- Question row from Supabase ---------- */
-type QuestionRow = {
-  id: number;
-  year: number | null;
-  subject: string | null;
-  question_number: number | null;
-  question_text: string;
-
-  option_a: string | null;
-  option_b: string | null;
-  option_c: string | null;
-  option_d: string | null;
-  correct_option: string | null;
-  difficulty: string | null;
+  // notebook highlights (lib/notes.ts); omitted while streaming
+  highlighted?: Set<string>;
+  onToggleHighlight?: (statementId: number, fact: Fact) => void;
 };
 
 type FeedbackState = {
@@ -40,9 +107,15 @@ type FeedbackState = {
   context: "analysis" | "error";
 };
 
+// Fetch the next page when this close to the end of what's loaded
+const PREFETCH_AHEAD = 5;
+
 // quota (free plan gating)
+
 type QuotaState = {
   isPro: boolean;
+  planId?: PlanId | null;
+  proUntil?: string | null;
   lifetimeFreeRemaining: number;
 };
 
@@ -52,29 +125,79 @@ export default function PracticePage() {
   // auth
   const [authChecked, setAuthChecked] = useState(false);
 
-  // data
-  const [allQuestions, setAllQuestions] = useState<QuestionRow[]>([]);
+  // data: browsing pages through /api/questions (lib/questionQuery.ts); a session
+  // (review, weak areas, collection, search) loads just its own ids
+  const [browse, setBrowse] = useState<{
+    items: QuestionRow[];
+    nextCursor: string | null;
+    counts: QuestionCounts | null;
+  }>({ items: [], nextCursor: null, counts: null });
+  const [sessionRows, setSessionRows] = useState<QuestionRow[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
   const [loadingQuestion, setLoadingQuestion] = useState(true);
+  const [loadingSession, setLoadingSession] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const browseRequestRef = useRef(0); // drops pages that arrive after the filter changed
+  const sessionRequestRef = useRef(0);
 
   // filters
   const [yearFilter, setYearFilter] = useState<string>("All");
-  const [subjectFilter, setSubjectFilter] = useState<string>("All");
+  const [topicFilter, setTopicFilter] = useState<string>("All"); // "All" | topic id | UNTAGGED
+  const [statusFilter, setStatusFilter] = useState<QuestionStatus>("all"); // browsing only
 
   // navigation on filtered list
   const [questionIndex, setQuestionIndex] = useState(0);
 
+  // practice loop vs. timed full-length mock
+  const [mode, setMode] = useState<"practice" | "mock">("practice");
+
+  // spaced-repetition review ("Due today")
+  const [attemptHistory, setAttemptHistory] = useState<AttemptEvent[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [session, setSession] = useState<PracticeSession | null>(null); // snapshot while in a set
+
+  // bookmarks + collections
+  const [userId, setUserId] = useState<string | null>(null);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [membership, setMembership] = useState<{ questionId: number; ids: Set<string> } | null>(null);
+  const [shareCopied, setShareCopied] = useState(false);
+
+  // /practice?mode=weak (from the profile page) starts a weak-area set once data is in
+  const autoStartWeak = useRef(
+    typeof window !== "undefined" &&
+      new URLSearchParams(window.location.search).get("mode") === "weak"
+  );
+
+  // question to land on once a session's rows have loaded (search results)
+  const jumpToQuestionRef = useRef<number | null>(null);
+
   // attempt + analysis
   const [selected, setSelected] = useState<string | null>(null);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
   const [analysis, setAnalysis] = useState<QuestionAnalysisV1 | null>(null);
   const [analysisUpdatedAt, setAnalysisUpdatedAt] = useState<string | null>(null);
+  // Review sessions: the unlocked analysis stays hidden until the question is re-answered
+  const [analysisHidden, setAnalysisHidden] = useState(false);
+  const [streamingAnalysis, setStreamingAnalysis] = useState<PartialAnalysis | null>(null);
   const [loadingAnalysis, setLoadingAnalysis] = useState(false);
 
   // IMPORTANT: abort + request sequencing should ONLY be used for analysis
   const analysisAbortRef = useRef<AbortController | null>(null);
   const analysisReqIdRef = useRef(0);
 
+  // attempt events (lib/attemptEvents.ts)
+  const [confidence, setConfidence] = useState<Confidence | null>(null);
+
+  // revision notebook for the current question
+  const [notebook, setNotebook] = useState<{
+    questionId: number;
+    note: QuestionNote | null;
+    highlights: FactHighlight[];
+  } | null>(null);
+  const practiceSessionIdRef = useRef<string | null>(null); // one per page load
+  const questionShownAtRef = useRef(0);
+
   // quota
   const [quota, setQuota] = useState<QuotaState | null>(null);
   const [quotaLoading, setQuotaLoading] = useState(false);
@@ -93,6 +216,12 @@ export default function PracticePage() {
   // Payment Gateway
   const [payOpen, setPayOpen] = useState(false);
   const [payLoading, setPayLoading] = useState(false);
+  const plans = useMemo(() => availablePlans(), []);
+  const [payPlanId, setPayPlanId] = useState<PlanId>(
+    () => (plans.find((p) => p.id === "prelims") ?? plans[0]).id
+  );
+  const [payCode, setPayCode] = useState(""); // coupon or referral code
+  const [payError, setPayError] = useState<string | null>(null);
 
   // ---- cleanup: abort any in-flight analysis on unmount ----
   useEffect(() => {
@@ -186,20 +315,32 @@ export default function PracticePage() {
 
       const res = await fetch("/api/payments/razorpay/order", {
         method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ planId: payPlanId, code: payCode.trim() || undefined }),
       });
 
       const data = await res.json().catch(() => null);
-      if (!res.ok) throw new Error(data?.error || "Failed to create order.");
+      if (!res.ok) {
+        // bad coupon / referral → keep the modal open so the user can fix it
+        if (res.status === 400 && payCode.trim()) {
+          setPayError(data?.error || "Invalid code.");
+          return;
+        }
+        throw new Error(data?.error || "Failed to create order.");
+      }
+      setPayError(null);
 
-      const { orderId, amount, currency, keyId } = data;
+      const { orderId, amount, currency, keyId, planLabel } = data;
 
       const rzp = new (window as any).Razorpay({
         key: keyId,
         amount,
         currency,
         name: "UPSC PYQ",
-        description: "Lifetime access",
+        description: planLabel ?? "UPSC PYQ Pro",
         // callback_url: "/api/payments/razorpay/verify",
         order_id: orderId,
         handler: async (resp: any) => {
@@ -229,7 +370,9 @@ export default function PracticePage() {
             setPayOpen(false);
 
             setQuota((q) => ({
-              isPro: true,
+              isPro: !!vBody?.isPro,
+              planId: vBody?.planId ?? null,
+              proUntil: vBody?.proUntil ?? null,
               lifetimeFreeRemaining: q?.lifetimeFreeRemaining ?? 0,
             }));
 
@@ -252,11 +395,14 @@ export default function PracticePage() {
     }
   };
 
-  /* ---------- recordAttempt (upsert) ---------- */
+  /* ---------- recordAttempt (insert: every attempt is kept as history) ---------- */
   const recordAttempt = async (params: {
     questionId: number;
     selectedOption: string;
-    isCorrect: boolean;
+    isCorrect: boolean | null; // null = not scored (dropped question)
+    timeSpentMs: number | null;
+    confidence: Confidence | null;
+    analysisOpenedFirst: boolean;
   }) => {
     try {
       const { data: u, error: userErr } = await supabaseClient.auth.getUser();
@@ -264,102 +410,58 @@ export default function PracticePage() {
       const user = u.user;
       if (!user) throw new Error("Not logged in.");
 
-      const { error: insertErr } = await supabaseClient
+      practiceSessionIdRef.current ??= newSessionId();
+
+      const event: AttemptEventInsert = {
+        user_id: user.id,
+        question_id: params.questionId,
+        selected_option: params.selectedOption,
+        is_correct: params.isCorrect,
+        time_spent_ms: clampTimeSpent(params.timeSpentMs),
+        confidence: params.confidence,
+        analysis_opened_first: params.analysisOpenedFirst,
+        session_id: practiceSessionIdRef.current,
+      };
+
+      const { data: row, error: insertErr } = await supabaseClient
         .from("question_attempts")
-        .upsert(
-          {
-            user_id: user.id,
-            question_id: params.questionId,
-            selected_option: params.selectedOption,
-            is_correct: params.isCorrect,
-          },
-          { onConflict: "user_id,question_id" }
-        );
+        .insert(event)
+        .select("question_id,is_correct,created_at")
+        .single();
 
       if (insertErr) throw insertErr;
+      if (row) setAttemptHistory((h) => [...h, row as AttemptEvent]);
     } catch (e) {
       console.error("Failed to record attempt:", e);
     }
   };
 
-  /* ---------- recordAnalysis (upsert) ---------- */
-  const recordAnalysis = async (params: { questionId: number; analysis: any }) => {
-    try {
-      const { data: u, error: userErr } = await supabaseClient.auth.getUser();
-      if (userErr) throw userErr;
-      const user = u.user;
-      if (!user) throw new Error("Not logged in.");
-
-      const { error: upsertErr } = await supabaseClient.from("question_analysis").upsert(
-        {
-          user_id: user.id,
-          question_id: params.questionId,
-          analysis: params.analysis,
-          updated_at: new Date().toISOString(),
-        },
-        { onConflict: "user_id,question_id" }
-      );
-
-      if (upsertErr) throw upsertErr;
-    } catch (e) {
-      console.error("Failed to record analysis:", e);
-    }
-  };
-
   /* ======================================================
      AUTH GUARD (MUST RUN FIRST)
+     proxy.ts already sent anyone signed out / not onboarded away; this
+     picks up the user and covers a session that ends while the page is open.
      ====================================================== */
   useEffect(() => {
     let alive = true;
 
     const check = async () => {
-      try {
-        const { data } = await supabaseClient.auth.getSession();
-        const session = data.session;
-
-        if (!session) {
-          router.replace("/login?redirect=/practice");
-          return;
-        }
-
-        const userId = session.user.id;
-
-        const { data: profile, error: pErr } = await supabaseClient
-          .from("profiles")
-          .select("onboarded")
-          .eq("id", userId)
-          .maybeSingle();
-
-        if (pErr) throw pErr;
-
-        if (!profile || profile.onboarded === false) {
-          router.replace("/onboarding?redirect=/practice");
-          return;
-        }
+      const { data } = await supabaseClient.auth.getUser();
+      if (!data.user) {
+        // keeps ?shared= etc. so shared links survive the login
+        router.replace(withRedirect("/login", currentPath()));
+        return;
+      }
 
-        if (alive) setAuthChecked(true);
-      } catch {
-        router.replace("/login?redirect=/practice");
+      if (alive) {
+        setUserId(data.user.id);
+        setAuthChecked(true);
       }
     };
 
     check();
 
-    const { data: sub } = supabaseClient.auth.onAuthStateChange(async (_event, session) => {
-      if (!session) {
-        router.replace("/login?redirect=/practice");
-        return;
-      }
-
-      const { data: profile } = await supabaseClient
-        .from("profiles")
-        .select("onboarded")
-        .eq("id", session.user.id)
-        .maybeSingle();
-
-      if (!profile || profile.onboarded === false) {
-        router.replace("/onboarding?redirect=/practice");
-      }
+    const { data: sub } = supabaseClient.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_OUT") router.replace(withRedirect("/login", currentPath()));
     });
 
     return () => {
@@ -371,78 +473,412 @@ export default function PracticePage() {
   /* ======================================================
      LOAD QUESTIONS (ONLY AFTER AUTH CHECK)
      ====================================================== */
+  const accessToken = async () => {
+    const { data } = await supabaseClient.auth.getSession();
+    return data.session?.access_token ?? null;
+  };
+
+  const currentFilters = (): QuestionFilters => ({
+    year: yearFilter === "All" ? null : Number(yearFilter),
+    topic: topicFilter === "All" ? null : topicFilter,
+    subject: null,
+    status: statusFilter,
+  });
+
   useEffect(() => {
     if (!authChecked) return;
 
-    const loadQuestions = async () => {
-      setError(null);
-      setLoadingQuestion(true);
-
+    const loadTopics = async () => {
       try {
-        const { data, error } = await supabaseClient
-          .from("questions")
-          .select("*")
-          .order("id", { ascending: true });
-
-        if (error || !data || data.length === 0) {
-          console.error("Error fetching questions:", error);
-          setError("Failed to load questions from Supabase.");
-          return;
-        }
-
-        setAllQuestions(data as QuestionRow[]);
-        setQuestionIndex(0);
-      } catch (err) {
-        console.error("Unexpected error fetching questions:", err);
-        setError("Unexpected error while loading questions.");
-      } finally {
-        setLoadingQuestion(false);
+        setTopics(await fetchTopics(supabaseClient));
+      } catch (e) {
+        // the filter falls back to "Untagged" only if the taxonomy can't load
+        console.error("Error fetching topics:", e);
       }
+      if (hasMockInProgress()) setMode("mock");
     };
 
-    loadQuestions();
+    loadTopics();
+  }, [authChecked]);
+
+  // First page + counts for the current filters
+  const loadFirstPage = async () => {
+    const request = ++browseRequestRef.current;
+    setError(null);
+    setLoadingQuestion(true);
+
+    try {
+      const token = await accessToken();
+      if (!token) return;
+
+      const page = await requestQuestionPage(token, currentFilters(), { withCounts: true });
+      if (request !== browseRequestRef.current) return;
+      setBrowse(page);
+    } catch (e) {
+      if (request !== browseRequestRef.current) return;
+      console.error("Error fetching questions:", e);
+      setError(e instanceof Error ? e.message : "Failed to load questions.");
+    } finally {
+      if (request === browseRequestRef.current) setLoadingQuestion(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!authChecked) return;
+    void loadFirstPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authChecked, yearFilter, topicFilter, statusFilter]);
+
+  const loadMore = async () => {
+    if (loadingMore || !browse.nextCursor) return;
+    const request = browseRequestRef.current;
+    setLoadingMore(true);
+
+    try {
+      const token = await accessToken();
+      if (!token) return;
+
+      const page = await requestQuestionPage(token, currentFilters(), { cursor: browse.nextCursor });
+      if (request !== browseRequestRef.current) return;
+      setBrowse((b) => ({ ...b, items: [...b.items, ...page.items], nextCursor: page.nextCursor }));
+    } catch (e) {
+      console.error("Error fetching more questions:", e);
+      setError(e instanceof Error ? e.message : "Failed to load more questions.");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // A session's own questions, in its order; lands on jumpToQuestionRef when set
+  const loadSessionRows = async (ids: number[]) => {
+    const request = ++sessionRequestRef.current;
+    setLoadingSession(true);
+
+    try {
+      const token = await accessToken();
+      if (!token) return;
+
+      const rows = await requestQuestionsByIds(token, ids);
+      if (request !== sessionRequestRef.current) return;
+      setSessionRows(rows);
+
+      const jumpTo = jumpToQuestionRef.current;
+      jumpToQuestionRef.current = null;
+      if (jumpTo !== null) setQuestionIndex(Math.max(0, rows.findIndex((q) => q.id === jumpTo)));
+    } catch (e) {
+      if (request !== sessionRequestRef.current) return;
+      console.error("Error fetching session questions:", e);
+      setError(e instanceof Error ? e.message : "Failed to load questions.");
+    } finally {
+      if (request === sessionRequestRef.current) setLoadingSession(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    void loadSessionRows(session.ids);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session]);
+
+  /* ======================================================
+     LOAD ATTEMPT HISTORY (review schedule)
+     ====================================================== */
+  const loadAttemptHistory = async () => {
+    try {
+      const { data: u } = await supabaseClient.auth.getUser();
+      const user = u.user;
+      if (!user) return;
+
+      setAttemptHistory(
+        await fetchUserAttempts<AttemptEvent>(supabaseClient, user.id, "question_id,is_correct,created_at")
+      );
+    } catch (e) {
+      console.error("Failed to load attempt history:", e);
+    } finally {
+      setHistoryLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    if (!authChecked) return;
+    loadAttemptHistory();
   }, [authChecked]);
 
+  const dueQueue = useMemo(
+    () => dueForReview(buildReviewSchedule(attemptHistory)),
+    [attemptHistory]
+  );
+
+  /* ======================================================
+     COLLECTIONS (bookmarks + named sets, lib/collections.ts)
+     ====================================================== */
+  const loadCollections = async () => {
+    if (!userId) return;
+    try {
+      setCollections(await listMyCollections(supabaseClient, userId));
+    } catch (e) {
+      console.error("Failed to load collections:", e);
+    }
+  };
+
+  const openCollection = async (collectionId: string) => {
+    try {
+      const found = await getCollection(supabaseClient, collectionId);
+      if (!found) {
+        setError("That collection doesn't exist or isn't shared.");
+        return;
+      }
+      setSession({
+        kind: "collection",
+        ids: found.questionIds,
+        collection: found.collection,
+        readOnly: found.collection.user_id !== userId,
+      });
+      setShareCopied(false);
+    } catch (e) {
+      console.error("Failed to open collection:", e);
+      setError("Failed to open collection.");
+    }
+  };
+
+  const openSharedCollection = async (shareToken: string) => {
+    try {
+      const found = await getSharedCollection(supabaseClient, shareToken);
+      if (!found) {
+        setError("That collection doesn't exist or isn't shared.");
+        return;
+      }
+      setSession({
+        kind: "collection",
+        ids: found.questionIds,
+        collection: found.collection,
+        readOnly: !found.isOwner,
+      });
+      setShareCopied(false);
+    } catch (e) {
+      console.error("Failed to open shared collection:", e);
+      setError("Failed to open collection.");
+    }
+  };
+
+  // Shared links land here as /practice?shared=<share_token>
+  useEffect(() => {
+    if (!authChecked || !userId) return;
+    void loadCollections();
+
+    const shared = new URLSearchParams(window.location.search).get("shared");
+    if (shared) void openSharedCollection(shared);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authChecked, userId]);
+
+  const bumpCount = (collectionId: string, delta: number) =>
+    setCollections((cs) =>
+      cs.map((c) => (c.id === collectionId ? { ...c, itemCount: Math.max(0, c.itemCount + delta) } : c))
+    );
+
+  const setQuestionInCollection = async (collectionId: string, include: boolean) => {
+    if (!question) return;
+    await setInCollection(supabaseClient, { collectionId, questionId: question.id, include });
+
+    setMembership((m) => {
+      if (!m || m.questionId !== question.id) return m;
+      const ids = new Set(m.ids);
+      if (include) ids.add(collectionId);
+      else ids.delete(collectionId);
+      return { ...m, ids };
+    });
+    bumpCount(collectionId, include ? 1 : -1);
+  };
+
+  const toggleBookmark = async () => {
+    if (!userId || !question) return;
+    try {
+      const bookmarks = await ensureBookmarks(supabaseClient, userId);
+      if (!collections.some((c) => c.id === bookmarks.id)) {
+        setCollections((cs) => [{ ...bookmarks, itemCount: 0 }, ...cs]);
+      }
+      await setQuestionInCollection(bookmarks.id, !currentMembership?.has(bookmarks.id));
+    } catch (e) {
+      console.error("Failed to toggle bookmark:", e);
+    }
+  };
+
+  const createAndAdd = async (name: string) => {
+    if (!userId) return;
+    const created = await createCollection(supabaseClient, { userId, name });
+    setCollections((cs) => [...cs, { ...created, itemCount: 0 }]);
+    await setQuestionInCollection(created.id, true);
+  };
+
+  const shareActiveCollection = async (share: boolean) => {
+    if (session?.kind !== "collection" || session.readOnly) return;
+    try {
+      const id = session.collection.id;
+      const token = collections.find((c) => c.id === id)?.share_token;
+      if (!token) return;
+      await updateCollection(supabaseClient, id, { is_shared: share });
+      // Not setSession: that would restart the set from question 1
+      setCollections((cs) => cs.map((c) => (c.id === id ? { ...c, is_shared: share } : c)));
+
+      if (share) {
+        await navigator.clipboard?.writeText(collectionShareUrl(window.location.origin, token));
+        setShareCopied(true);
+      } else {
+        setShareCopied(false);
+      }
+    } catch (e) {
+      console.error("Failed to update sharing:", e);
+      setError("Failed to update sharing.");
+    }
+  };
+
+  const deleteActiveCollection = async () => {
+    if (session?.kind !== "collection" || session.readOnly) return;
+    if (!confirm(`Delete the collection "${session.collection.name}"? Questions stay in the bank.`)) return;
+    try {
+      await deleteCollection(supabaseClient, session.collection.id);
+      setCollections((cs) => cs.filter((c) => c.id !== session.collection.id));
+      setSession(null);
+    } catch (e) {
+      console.error("Failed to delete collection:", e);
+      setError("Failed to delete collection.");
+    }
+  };
+
+  const toggleReview = () => {
+    setSession((cur) =>
+      cur?.kind === "review" ? null : { kind: "review", ids: dueQueue.map((r) => r.questionId) }
+    );
+  };
+
   /* ======================================================
      LOAD QUOTA (ONLY AFTER AUTH CHECK)
      ====================================================== */
   useEffect(() => {
     if (!authChecked) return;
     fetchQuota();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [authChecked]);
 
+  // Years with questions under the current topic/status (server-side counts)
   const years = useMemo(() => {
-    const ys = Array.from(
-      new Set(allQuestions.map((q) => q.year).filter((x): x is number => !!x))
-    ).sort((a, b) => b - a);
-    return ys;
-  }, [allQuestions]);
-
-  const subjects = useMemo(() => {
-    const ss = Array.from(
-      new Set(
-        allQuestions
-          .map((q) => q.subject?.trim())
-          .filter((x): x is string => !!x && x.length > 0)
-      )
-    ).sort((a, b) => a.localeCompare(b));
-    return ss;
-  }, [allQuestions]);
+    const ys = new Set(Object.keys(browse.counts?.byYear ?? {}).map(Number));
+    if (yearFilter !== "All") ys.add(Number(yearFilter));
+    return Array.from(ys)
+      .filter((y) => Number.isFinite(y) && y > 0)
+      .sort((a, b) => b - a);
+  }, [browse.counts, yearFilter]);
+
+  const topicTree = useMemo(() => buildTopicTree(topics), [topics]);
+  const topicsById = useMemo(() => new Map(topics.map((t) => [t.id, t])), [topics]);
+
+  // Question counts per node for the current year/status (so the tree never offers an empty branch)
+  const topicCounts = useMemo(
+    () =>
+      rollUp(
+        Object.entries(browse.counts?.byTopic ?? {}).map(([id, count]) => ({
+          topicId: id === UNTAGGED ? null : id,
+          count,
+        }))
+      ),
+    [browse.counts]
+  );
+
+  const topicFilterLabel =
+    topicFilter === "All"
+      ? "All topics"
+      : topicFilter === UNTAGGED
+        ? "Untagged"
+        : topicPath(topicsById, topicFilter);
 
   const filteredQuestions = useMemo(() => {
-    return allQuestions.filter((q) => {
+    const matches = (q: QuestionRow) => {
       const yearOk = yearFilter === "All" ? true : String(q.year ?? "") === yearFilter;
-      const subjectOk =
-        subjectFilter === "All" ? true : (q.subject ?? "").trim() === subjectFilter;
-      return yearOk && subjectOk;
-    });
-  }, [allQuestions, yearFilter, subjectFilter]);
+      const topicOk = topicFilter === "All" ? true : isWithin(q.topic_id, topicFilter);
+      return yearOk && topicOk;
+    };
+
+    // Sessions keep their own order (most overdue / weakest first)
+    if (session) {
+      const byId = new Map(sessionRows.map((q) => [q.id, q]));
+      return session.ids
+        .map((id) => byId.get(id))
+        .filter((q): q is QuestionRow => !!q && matches(q));
+    }
+
+    // Browsing: already filtered server-side, pages appended as you go
+    return browse.items;
+  }, [browse.items, sessionRows, yearFilter, topicFilter, session]);
+
+  const loadingList = session ? loadingSession : loadingQuestion;
+  const listTotal = session ? filteredQuestions.length : (browse.counts?.total ?? filteredQuestions.length);
+
+  // Built from the current year/topic filter, so "weak areas within Polity" works too
+  const startWeakSession = async () => {
+    try {
+      const token = await accessToken();
+      if (!token) return;
+
+      const pool = (
+        await requestQuestionMeta(token, {
+          year: yearFilter === "All" ? null : Number(yearFilter),
+          topic: topicFilter === "All" ? null : topicFilter,
+        })
+      ).filter((q) => isGradable(answerKeyOf(q)));
+
+      const built = buildWeakAreaSession(pool, attemptHistory);
+      setSession({ kind: "weak", ids: built.questionIds, focus: built.focus });
+    } catch (e) {
+      console.error("Failed to build weak-area set:", e);
+      setError("Failed to build a weak-area set.");
+    }
+  };
+
+  const toggleWeak = () => {
+    if (session?.kind === "weak") setSession(null);
+    else void startWeakSession();
+  };
+
+  useEffect(() => {
+    if (!autoStartWeak.current || !historyLoaded) return;
+    autoStartWeak.current = false;
+    void startWeakSession();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [historyLoaded]);
+
+  const focusLabel = (a: WeakArea) => {
+    if (a.kind === "difficulty") return `${a.key[0].toUpperCase()}${a.key.slice(1)} questions`;
+    if (a.key === UNTAGGED) return "Untagged";
+    if (a.key.startsWith("subject:")) return a.key.slice("subject:".length);
+    return topicsById.get(a.key)?.name ?? a.key;
+  };
+
+  /* ======================================================
+     SEARCH (lib/search.ts) — results open as a ranked set
+     ====================================================== */
+  const describeHit = (h: SearchHit) =>
+    [
+      h.topicId && topicsById.has(h.topicId) ? topicPath(topicsById, h.topicId) : h.subject,
+      h.year,
+      h.questionNumber ? `Q${h.questionNumber}` : null,
+    ]
+      .filter(Boolean)
+      .join(" • ");
+
+  const openSearchHit = (hit: SearchHit, hits: SearchHit[], query: string) => {
+    // Year/topic filters would hide results the search just found
+    setYearFilter("All");
+    setTopicFilter("All");
+    jumpToQuestionRef.current = hit.questionId;
+    setSession({ kind: "search", ids: hits.map((h) => h.questionId), query });
+  };
 
   const resetAttemptState = () => {
     setSelected(null);
+    setConfidence(null);
     setIsCorrect(null);
     setAnalysis(null);
+    setAnalysisHidden(false);
+    setStreamingAnalysis(null);
     setError(null);
     setFeedback({
       open: false,
@@ -458,18 +894,21 @@ export default function PracticePage() {
   useEffect(() => {
     setQuestionIndex(0);
     resetAttemptState();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [yearFilter, subjectFilter]);
+  }, [yearFilter, topicFilter, statusFilter, session]);
 
   const question = filteredQuestions[questionIndex] ?? null;
 
   useEffect(() => {
     if (!authChecked || !question) return;
 
+    // Time-to-answer runs from here
+    questionShownAtRef.current = Date.now();
+
     // Abort any in-flight analysis when switching question
     analysisAbortRef.current?.abort();
     analysisAbortRef.current = null;
     setLoadingAnalysis(false);
+    setStreamingAnalysis(null);
 
     const loadLast = async () => {
       try {
@@ -477,32 +916,60 @@ export default function PracticePage() {
         const user = u.user;
         if (!user) return;
 
-        const [{ data: a }, { data: qa }] = await Promise.all([
+        const [{ data: a }, { data: unlock }, nb, inCollections] = await Promise.all([
           supabaseClient
             .from("question_attempts")
             .select("selected_option,is_correct")
             .eq("user_id", user.id)
             .eq("question_id", question.id)
+            .order("created_at", { ascending: false })
+            .limit(1)
             .maybeSingle(),
           supabaseClient
-            .from("question_analysis")
-            .select("analysis,updated_at")
+            .from("analysis_unlocks")
+            .select("question_id")
             .eq("user_id", user.id)
             .eq("question_id", question.id)
             .maybeSingle(),
+          loadQuestionNotebook(supabaseClient, user.id, question.id).catch((e) => {
+            console.error("Failed to load notes:", e);
+            return { note: null, highlights: [] };
+          }),
+          collectionsContaining(supabaseClient, user.id, question.id).catch((e) => {
+            console.error("Failed to load collections for question:", e);
+            return [] as string[];
+          }),
         ]);
 
-        setSelected(a?.selected_option ?? null);
-        setIsCorrect(a?.is_correct ?? null);
+        setNotebook({ questionId: question.id, ...nb });
+        setMembership({ questionId: question.id, ids: new Set(inCollections) });
+
+        // Analyses are shared per question; readable once this user has unlocked it
+        const { data: qa } = unlock
+          ? await supabaseClient
+              .from("question_analysis_versions")
+              .select("analysis,created_at")
+              .eq("question_id", question.id)
+              .is("invalidated_at", null)
+              .order("version", { ascending: false })
+              .limit(1)
+              .maybeSingle()
+          : { data: null };
+
+        // A due question is a fresh recall test: no previous answer, no explanation yet
+        const reviewing = session?.kind === "review";
+        setSelected(reviewing ? null : (a?.selected_option ?? null));
+        setIsCorrect(reviewing ? null : (a?.is_correct ?? null));
+        setAnalysisHidden(reviewing);
         setAnalysis(qa?.analysis ? normalizeQuestionAnalysisV1(qa.analysis) : null);
-        setAnalysisUpdatedAt(qa?.updated_at ?? null);
+        setAnalysisUpdatedAt(qa?.created_at ?? null);
       } catch (e) {
         console.error("Failed to load last attempt/analysis:", e);
       }
     };
 
     loadLast();
-  }, [authChecked, question?.id]);
+  }, [authChecked, question?.id, session?.kind]);
 
   const currentOptions =
     question != null
@@ -514,7 +981,67 @@ export default function PracticePage() {
         ].filter((opt) => opt.label.trim().length > 0)
       : [];
 
-  const correctKey = question?.correct_option?.trim().toUpperCase() ?? null;
+  const answerKey = useMemo(() => (question ? answerKeyOf(question) : null), [question]);
+  // "B", "A/C" or "DROPPED"; null when the question has no usable key
+  const correctKey = answerKey && answerLabel(answerKey) ? answerLabel(answerKey) : null;
+
+  const currentNotebook = notebook && question && notebook.questionId === question.id ? notebook : null;
+  const currentMembership = membership && question && membership.questionId === question.id ? membership.ids : null;
+
+  const bookmarksId = collections.find((c) => c.kind === "bookmarks")?.id ?? null;
+  const isBookmarked = !!bookmarksId && !!currentMembership?.has(bookmarksId);
+
+  // Own collections come from the list (fresh counts / sharing); shared ones from the session
+  const activeCollection =
+    session?.kind === "collection"
+      ? (collections.find((c) => c.id === session.collection.id) ?? session.collection)
+      : null;
+
+  const highlightedFacts = useMemo(
+    () => new Set((currentNotebook?.highlights ?? []).map((h) => highlightKey(h.statement_id, h.fact))),
+    [currentNotebook]
+  );
+
+  const saveNote = async (body: string, tags: string[]) => {
+    if (!question) return;
+    const { data: u } = await supabaseClient.auth.getUser();
+    if (!u.user) throw new Error("Not logged in.");
+
+    const note = await saveQuestionNote(supabaseClient, {
+      userId: u.user.id,
+      questionId: question.id,
+      body,
+      tags,
+    });
+    setNotebook((nb) => (nb && nb.questionId === question.id ? { ...nb, note } : nb));
+  };
+
+  const toggleHighlight = async (statementId: number, fact: Fact) => {
+    if (!question || !currentNotebook) return;
+    try {
+      const { data: u } = await supabaseClient.auth.getUser();
+      if (!u.user) return;
+
+      const key = highlightKey(statementId, fact.fact);
+      const existing =
+        currentNotebook.highlights.find((h) => highlightKey(h.statement_id, h.fact) === key) ?? null;
+      const saved = await toggleFactHighlight(supabaseClient, {
+        userId: u.user.id,
+        questionId: question.id,
+        statementId,
+        fact,
+        existing,
+      });
+
+      setNotebook((nb) => {
+        if (!nb || nb.questionId !== question.id) return nb;
+        const rest = nb.highlights.filter((h) => highlightKey(h.statement_id, h.fact) !== key);
+        return { ...nb, highlights: saved ? [...rest, saved] : rest };
+      });
+    } catch (e) {
+      console.error("Failed to toggle highlight:", e);
+    }
+  };
 
   const handlePrev = () => {
     if (questionIndex <= 0) return;
@@ -523,6 +1050,7 @@ export default function PracticePage() {
   };
 
   const handleNext = () => {
+    if (!session && questionIndex + 1 >= browse.items.length - PREFETCH_AHEAD) void loadMore();
     if (questionIndex >= filteredQuestions.length - 1) return;
     setQuestionIndex((i) => i + 1);
     resetAttemptState();
@@ -530,7 +1058,7 @@ export default function PracticePage() {
 
   const handleLogout = async () => {
     await supabaseClient.auth.signOut();
-    router.replace("/login?redirect=/practice");
+    router.replace(withRedirect("/login", "/practice"));
   };
 
   const openFeedback = (context: "analysis" | "error") => {
@@ -612,12 +1140,12 @@ export default function PracticePage() {
       setError("Please choose an option first.");
       return;
     }
-    if (!correctKey) {
+    if (!answerKey || !correctKey) {
       setError("Correct option is not set for this question.");
       return;
     }
 
-    const correct = selected === correctKey;
+    const correct = gradeToIsCorrect(gradeAnswer(answerKey, selected));
 
     // Only analysis clicks should increment this
     const reqId = ++analysisReqIdRef.current;
@@ -635,9 +1163,13 @@ export default function PracticePage() {
       questionId: question.id,
       selectedOption: selected,
       isCorrect: correct,
+      timeSpentMs: questionShownAtRef.current ? Date.now() - questionShownAtRef.current : null,
+      confidence,
+      analysisOpenedFirst: !isNewQuestionForUser && !analysisHidden,
     }).catch((e) => console.error("recordAttempt failed:", e));
 
     setIsCorrect(correct);
+    setAnalysisHidden(false);
 
     setFeedback((f) => ({
       ...f,
@@ -656,7 +1188,7 @@ export default function PracticePage() {
 
       if (!token) {
         setError("Session expired. Please login again.");
-        router.replace("/login?redirect=/practice");
+        router.replace(withRedirect("/login", currentPath()));
         return;
       }
 
@@ -665,8 +1197,9 @@ export default function PracticePage() {
       const controller = new AbortController();
       analysisAbortRef.current = controller;
 
-      const refresh = 1;
-      const url = `/api/analysis?questionId=${question.id}&refresh=${refresh}`;
+      // Serve the shared cached analysis; refresh=1 would create a new version
+      const refresh = 0;
+      const url = `/api/analysis?questionId=${question.id}&refresh=${refresh}&stream=1`;
 
       const res = await fetch(url, {
         method: "GET",
@@ -675,7 +1208,18 @@ export default function PracticePage() {
         headers: { Authorization: `Bearer ${token}` },
       });
 
-      if (res.status === 402 || res.status === 429) {
+      // Rate limited (429): say when to retry; buying Pro wouldn't lift it
+      if (res.status === 429) {
+        const body = await res.json().catch(() => null);
+        const wait = Number(res.headers.get("retry-after"));
+        setError(
+          body?.message ||
+            (wait > 0 ? `Too many requests. Try again in ${wait}s.` : "Too many requests. Please try again shortly.")
+        );
+        return;
+      }
+
+      if (res.status === 402) {
         const msg = (await res.json().catch(() => null))?.error;
         setError(msg || "AI analysis limit reached for today.");
         setPayOpen(true);
@@ -696,20 +1240,46 @@ export default function PracticePage() {
         throw new Error(msg);
       }
 
-      const payload = await res.json();
+      // Fresh generation streams NDJSON sections; cache hits come back as plain JSON
+      const isStream = (res.headers.get("content-type") ?? "").includes("ndjson");
+
+      let payload: {
+        analysis?: unknown;
+        analysisUpdatedAt?: string | null;
+        quotaSpent?: boolean;
+      } | null = null;
+      if (isStream) {
+        setAnalysis(null);
+        setStreamingAnalysis(emptyPartialAnalysis(correctKey));
+
+        await readAnalysisStream(res, (ev) => {
+          if (reqId !== analysisReqIdRef.current) return;
+          if (ev.type === "error") throw new Error(ev.details || ev.error);
+          if (ev.type === "done") {
+            payload = ev;
+            return;
+          }
+          setStreamingAnalysis((p) => (p ? applyAnalysisEvent(p, ev) : p));
+        });
+
+        if (reqId !== analysisReqIdRef.current) return;
+        setStreamingAnalysis(null);
+      } else {
+        payload = await res.json();
+      }
+
+      if (!payload) throw new Error("Analysis stream ended early. Please try again.");
       console.log("analysis payload:", payload);
 
       const normalized = normalizeQuestionAnalysisV1(payload.analysis ?? payload);
       setAnalysis(normalized);
-      setAnalysisUpdatedAt(new Date().toISOString());
-
-      void recordAnalysis({ questionId: question.id, analysis: normalized });
+      setAnalysisUpdatedAt(payload.analysisUpdatedAt ?? new Date().toISOString());
 
-      // If you later re-enable quota deduction logic, do it here.
-      // if (payload?.quotaSpent) void fetchQuota(true);
+      if (payload?.quotaSpent) void fetchQuota(true);
     } catch (err: any) {
       if (err?.name !== "AbortError") {
         console.error("Failed to fetch AI analysis:", err);
+        setStreamingAnalysis(null);
         setError(
           err instanceof Error
             ? err.message
@@ -733,6 +1303,21 @@ export default function PracticePage() {
     );
   }
 
+  if (mode === "mock") {
+    return (
+      <main className="min-h-screen bg-slate-950 text-slate-50 px-6 py-10">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <MockTest
+            onExit={() => {
+              setMode("practice");
+              void loadAttemptHistory();
+            }}
+          />
+        </div>
+      </main>
+    );
+  }
+
   return (
     <main className="min-h-screen bg-slate-950 text-slate-50 px-6 py-10">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -745,7 +1330,7 @@ export default function PracticePage() {
           <div className="flex items-center gap-2">
             <button
               onClick={handleCheckAndAnalyse}
-              disabled={loadingAnalysis || loadingQuestion || !question || !selected}
+              disabled={loadingAnalysis || loadingList || !question || !selected}
               className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
             >
               {loadingAnalysis ? "Generating..." : "Check & Generate Analysis"}
@@ -755,8 +1340,15 @@ export default function PracticePage() {
               <div className="text-xs text-slate-300">Quota…</div>
             ) : quota ? (
               quota.isPro ? (
-                <div className="text-xs font-semibold rounded-md border border-emerald-600 bg-emerald-500/10 px-2 py-1 text-emerald-200">
-                  PRO
+                <div
+                  className="text-xs font-semibold rounded-md border border-emerald-600 bg-emerald-500/10 px-2 py-1 text-emerald-200"
+                  title={
+                    quota.proUntil
+                      ? `Until ${new Date(quota.proUntil).toLocaleDateString()}`
+                      : undefined
+                  }
+                >
+                  PRO{quota.planId ? ` · ${getPlan(quota.planId)?.label ?? ""}` : ""}
                 </div>
               ) : (
                 <div className="text-xs text-slate-300">
@@ -778,6 +1370,15 @@ export default function PracticePage() {
               </button>
             )}
 
+            <button
+              type="button"
+              onClick={() => setMode("mock")}
+              disabled={loadingQuestion}
+              className="rounded-md bg-slate-900 border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+            >
+              Mock Test
+            </button>
+
             <Link
               href="/profile"
               className="rounded-md bg-slate-900 border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
@@ -785,6 +1386,13 @@ export default function PracticePage() {
               My Profile
             </Link>
 
+            <Link
+              href="/notes"
+              className="rounded-md bg-slate-900 border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
+            >
+              Notes
+            </Link>
+
             <button
               onClick={handleLogout}
               className="rounded-md bg-slate-900 border border-slate-700 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
@@ -797,6 +1405,10 @@ export default function PracticePage() {
 
         {/* Filters row */}
         <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="basis-full">
+            <SearchBox describe={describeHit} onOpen={openSearchHit} />
+          </div>
+
           <div className="flex flex-wrap items-center gap-3">
             <div className="flex items-center gap-2">
               <span className="text-xs uppercase tracking-wide text-slate-400">Year</span>
@@ -815,34 +1427,163 @@ export default function PracticePage() {
             </div>
 
             <div className="flex items-center gap-2">
-              <span className="text-xs uppercase tracking-wide text-slate-400">Subject</span>
+              <span className="text-xs uppercase tracking-wide text-slate-400">Topic</span>
+              <TopicFilter
+                tree={topicTree}
+                counts={topicCounts}
+                value={topicFilter}
+                label={topicFilterLabel}
+                onChange={setTopicFilter}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-xs uppercase tracking-wide text-slate-400">Status</span>
               <select
-                value={subjectFilter}
-                onChange={(e) => setSubjectFilter(e.target.value)}
-                className="bg-slate-950/60 border border-slate-700 rounded-md px-3 py-2 text-sm"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as QuestionStatus)}
+                disabled={!!session}
+                title={session ? "Status applies when browsing, not inside a set" : undefined}
+                className="bg-slate-950/60 border border-slate-700 rounded-md px-3 py-2 text-sm disabled:opacity-50"
               >
-                <option value="All">All</option>
-                {subjects.map((s) => (
+                {QUESTION_STATUSES.map((s) => (
                   <option key={s} value={s}>
-                    {s}
+                    {STATUS_LABELS[s]}
+                    {browse.counts ? ` (${browse.counts.byStatus[s]})` : ""}
                   </option>
                 ))}
               </select>
             </div>
+
+            <button
+              type="button"
+              onClick={toggleReview}
+              disabled={session?.kind !== "review" && dueQueue.length === 0}
+              className={`rounded-md border px-3 py-2 text-sm disabled:opacity-50 ${
+                session?.kind === "review"
+                  ? "border-amber-500 bg-amber-500/15 text-amber-100"
+                  : "border-slate-700 bg-slate-950/60 text-slate-200 hover:bg-slate-800"
+              }`}
+            >
+              {session?.kind === "review" ? "Exit review" : `Due today (${dueQueue.length})`}
+            </button>
+
+            <button
+              type="button"
+              onClick={toggleWeak}
+              disabled={!historyLoaded}
+              className={`rounded-md border px-3 py-2 text-sm disabled:opacity-50 ${
+                session?.kind === "weak"
+                  ? "border-rose-500 bg-rose-500/15 text-rose-100"
+                  : "border-slate-700 bg-slate-950/60 text-slate-200 hover:bg-slate-800"
+              }`}
+            >
+              {session?.kind === "weak" ? "Exit weak-area set" : "Practice my weak areas"}
+            </button>
+
+            {collections.length ? (
+              <div className="flex items-center gap-2">
+                <span className="text-xs uppercase tracking-wide text-slate-400">Collection</span>
+                <select
+                  value={session?.kind === "collection" ? session.collection.id : ""}
+                  onChange={(e) => (e.target.value ? void openCollection(e.target.value) : setSession(null))}
+                  className="bg-slate-950/60 border border-slate-700 rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="">—</option>
+                  {session?.kind === "collection" && session.readOnly ? (
+                    <option value={session.collection.id}>{session.collection.name} (shared)</option>
+                  ) : null}
+                  {collections.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.kind === "bookmarks" ? "★ " : ""}
+                      {c.name} ({c.itemCount})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
           </div>
 
           <div className="text-xs text-slate-400">
-            Showing{" "}
-            <span className="text-slate-200 font-semibold">{filteredQuestions.length}</span> of{" "}
-            <span className="text-slate-200 font-semibold">{allQuestions.length}</span> questions
+            <span className="text-slate-200 font-semibold">{listTotal}</span>{" "}
+            {listTotal === 1 ? "question" : "questions"}
+            {session ? " in this set" : ""}
           </div>
+
+          {session?.kind === "weak" && session.focus.length ? (
+            <div className="basis-full text-xs text-slate-400">
+              Leaning on:{" "}
+              {session.focus.map((a, i) => (
+                <span key={`${a.kind}:${a.key}`}>
+                  {i ? " · " : ""}
+                  <span className="text-rose-200">{focusLabel(a)}</span> {a.accuracyPct}%
+                </span>
+              ))}
+              <span className="text-slate-500"> — previously wrong and unseen questions first.</span>
+            </div>
+          ) : null}
+
+          {session?.kind === "search" ? (
+            <div className="basis-full flex items-center gap-3 text-xs text-slate-400">
+              <span>
+                Search results for <span className="text-emerald-200">“{session.query}”</span>, best match first
+              </span>
+              <button type="button" onClick={() => setSession(null)} className="ml-auto hover:text-slate-200">
+                Clear search
+              </button>
+            </div>
+          ) : null}
+
+          {session?.kind === "collection" && activeCollection ? (
+            <div className="basis-full flex flex-wrap items-center gap-3 text-xs text-slate-400">
+              <span>
+                Practising <span className="text-emerald-200">{activeCollection.name}</span>
+                {session.readOnly ? " — shared with you (read-only)" : ""}
+              </span>
+
+              {!session.readOnly ? (
+                <>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={activeCollection.is_shared}
+                      onChange={(e) => shareActiveCollection(e.target.checked)}
+                    />
+                    Shared by link
+                  </label>
+                  {activeCollection.is_shared ? (
+                    <button
+                      type="button"
+                      onClick={() => shareActiveCollection(true)}
+                      className="text-emerald-300 hover:underline"
+                    >
+                      {shareCopied ? "Link copied" : "Copy link"}
+                    </button>
+                  ) : null}
+                  {activeCollection.kind === "custom" ? (
+                    <button
+                      type="button"
+                      onClick={deleteActiveCollection}
+                      className="text-rose-300 hover:underline"
+                    >
+                      Delete collection
+                    </button>
+                  ) : null}
+                </>
+              ) : null}
+
+              <button type="button" onClick={() => setSession(null)} className="ml-auto hover:text-slate-200">
+                Exit collection
+              </button>
+            </div>
+          ) : null}
         </section>
 
         {/* Navigation */}
         <div className="flex items-center justify-between gap-4">
           <button
             onClick={handlePrev}
-            disabled={loadingQuestion || questionIndex <= 0}
+            disabled={loadingList || questionIndex <= 0}
             className="rounded-md bg-slate-900 border border-slate-700 px-3 py-1 text-xs md:text-sm disabled:opacity-40"
           >
             ← Previous
@@ -850,31 +1591,63 @@ export default function PracticePage() {
 
           <p className="text-xs text-slate-400">
             {filteredQuestions.length > 0
-              ? `Question ${questionIndex + 1} of ${filteredQuestions.length}`
+              ? `Question ${questionIndex + 1} of ${listTotal}`
               : "No questions in this filter"}
           </p>
 
           <button
             onClick={handleNext}
-            disabled={loadingQuestion || questionIndex >= filteredQuestions.length - 1}
+            disabled={
+              loadingList ||
+              (questionIndex >= filteredQuestions.length - 1 && (!!session || !browse.nextCursor))
+            }
             className="rounded-md bg-slate-900 border border-slate-700 px-3 py-1 text-xs md:text-sm disabled:opacity-40"
           >
-            Next →
+            {loadingMore && questionIndex >= filteredQuestions.length - 1 ? "Loading…" : "Next →"}
           </button>
         </div>
 
         {/* Question card */}
         <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
-          {loadingQuestion && (
+          {loadingList && (
             <p className="text-sm text-slate-400">Loading questions from Supabase…</p>
           )}
 
-          {!loadingQuestion && question && (
+          {!loadingList && question && (
             <>
-              <div className="text-xs font-semibold uppercase tracking-wide text-emerald-400 flex flex-wrap gap-2">
-                {question.subject && <span>{question.subject}</span>}
-                {question.year && <span>• {question.year}</span>}
-                {question.question_number && <span>• Q{question.question_number}</span>}
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="text-xs font-semibold uppercase tracking-wide text-emerald-400 flex flex-wrap gap-2">
+                  {question.topic_id && topicsById.has(question.topic_id) ? (
+                    <span>{topicPath(topicsById, question.topic_id)}</span>
+                  ) : (
+                    question.subject && <span>{question.subject}</span>
+                  )}
+                  {question.year && <span>• {question.year}</span>}
+                  {question.question_number && <span>• Q{question.question_number}</span>}
+                </div>
+
+                {currentMembership && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={toggleBookmark}
+                      title={isBookmarked ? "Remove bookmark" : "Bookmark this question"}
+                      className={`rounded-md border px-3 py-1.5 text-xs ${
+                        isBookmarked
+                          ? "border-amber-500 bg-amber-500/15 text-amber-100"
+                          : "border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+                      }`}
+                    >
+                      {isBookmarked ? "★ Bookmarked" : "☆ Bookmark"}
+                    </button>
+                    <CollectionMenu
+                      collections={collections}
+                      memberOf={currentMembership}
+                      onToggle={setQuestionInCollection}
+                      onCreate={createAndAdd}
+                    />
+                  </div>
+                )}
               </div>
 
               <pre className="whitespace-pre-wrap text-sm leading-relaxed text-slate-100">
@@ -903,7 +1676,26 @@ export default function PracticePage() {
                 ))}
               </div>
 
-              {isCorrect !== null && correctKey && (
+              {/* Self-rated confidence, recorded with the attempt */}
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="uppercase tracking-wide text-slate-400">How sure?</span>
+                {CONFIDENCE_LEVELS.map((c) => (
+                  <button
+                    key={c}
+                    type="button"
+                    onClick={() => setConfidence((cur) => (cur === c ? null : c))}
+                    className={`rounded-full border px-3 py-1 ${
+                      confidence === c
+                        ? "border-emerald-400 bg-emerald-500/15 text-emerald-100"
+                        : "border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500"
+                    }`}
+                  >
+                    {CONFIDENCE_LABELS[c]}
+                  </button>
+                ))}
+              </div>
+
+              {isCorrect !== null && answerKey && (
                 <div
                   className={`mt-3 rounded-lg px-3 py-2 text-sm ${
                     isCorrect
@@ -912,11 +1704,26 @@ export default function PracticePage() {
                   }`}
                 >
                   {isCorrect
-                    ? `✅ Correct! The right option is ${correctKey}.`
-                    : `❌ Not quite. The correct option is ${correctKey}.`}
+                    ? `✅ Correct! The right option is ${describeKey(answerKey)}.`
+                    : `❌ Not quite. The correct option is ${describeKey(answerKey)}.`}
                 </div>
               )}
 
+              {answerKey?.status === "dropped" && selected && (loadingAnalysis || (analysis && !analysisHidden)) && (
+                <div className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+                  UPSC dropped this question from the final key — it is not scored.
+                </div>
+              )}
+
+              {currentNotebook && (
+                <NotesPanel
+                  key={`${currentNotebook.questionId}:${currentNotebook.note?.id ?? "new"}`}
+                  note={currentNotebook.note}
+                  highlightCount={currentNotebook.highlights.length}
+                  onSave={saveNote}
+                />
+              )}
+
               {error && <p className="mt-2 text-sm text-rose-400">{error}</p>}
 
               <div className="pt-2">
@@ -931,15 +1738,27 @@ export default function PracticePage() {
             </>
           )}
 
-          {!loadingQuestion && !question && !error && (
+          {!loadingList && !question && !error && (
             <p className="text-sm text-rose-400">No question found for this filter.</p>
           )}
         </section>
 
-        {/* AI analysis */}
-        {analysis && (
+        {/* AI analysis (streamed sections render while the rest generates) */}
+        {!analysis && streamingAnalysis && (
+          <section className="space-y-3">
+            <AnalysisTabs analysis={streamingAnalysis} streaming difficulty={question?.difficulty ?? undefined} />
+          </section>
+        )}
+
+        {analysis && !analysisHidden && (
           <section className="space-y-3">
-            <AnalysisTabs analysis={analysis} analysisUpdatedAt={analysisUpdatedAt} difficulty={question?.difficulty ?? undefined} />
+            <AnalysisTabs
+              analysis={analysis}
+              analysisUpdatedAt={analysisUpdatedAt}
+              difficulty={question?.difficulty ?? undefined}
+              highlighted={currentNotebook ? highlightedFacts : undefined}
+              onToggleHighlight={currentNotebook ? toggleHighlight : undefined}
+            />
             <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4 flex items-center justify-between gap-3">
               <div>
                 <div className="text-sm font-semibold text-slate-100">
@@ -973,7 +1792,7 @@ export default function PracticePage() {
                 <div>
                   <div className="text-lg font-semibold text-slate-100">Upgrade</div>
                   <div className="text-xs text-slate-400 mt-1">
-                    Lifetime access ₹399 — unlimited analysis.
+                    Pick a plan — unlimited analysis while it is active.
                   </div>
                 </div>
                 <button
@@ -985,6 +1804,52 @@ export default function PracticePage() {
                 </button>
               </div>
 
+              <div className="mt-4 space-y-2">
+                {plans.map((p) => {
+                  const active = p.id === payPlanId;
+                  return (
+                    <button
+                      key={p.id}
+                      type="button"
+                      onClick={() => setPayPlanId(p.id)}
+                      disabled={payLoading}
+                      className={[
+                        "w-full rounded-xl border px-4 py-3 text-left",
+                        active
+                          ? "border-emerald-500 bg-emerald-500/10"
+                          : "border-slate-800 bg-slate-900/40 hover:bg-slate-800/60",
+                      ].join(" ")}
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-sm font-semibold text-slate-100">{p.label}</div>
+                        <div className="text-sm font-semibold text-slate-100">{formatPrice(p)}</div>
+                      </div>
+                      <div className="mt-1 text-xs text-slate-400">{p.blurb}</div>
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="mt-4">
+                <input
+                  value={payCode}
+                  onChange={(e) => {
+                    setPayCode(e.target.value.toUpperCase());
+                    setPayError(null);
+                  }}
+                  disabled={payLoading}
+                  placeholder="Coupon or referral code (optional)"
+                  className="w-full rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500"
+                />
+                {payError ? (
+                  <div className="mt-1 text-xs text-rose-300">{payError}</div>
+                ) : payCode.trim() ? (
+                  <div className="mt-1 text-xs text-slate-500">
+                    Discount is applied to the amount shown at checkout.
+                  </div>
+                ) : null}
+              </div>
+
               <div className="mt-4 flex items-center justify-end gap-2">
                 <button
                   type="button"
@@ -1000,7 +1865,9 @@ export default function PracticePage() {
                   className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-medium text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
                   disabled={payLoading}
                 >
-                  {payLoading ? "Opening..." : "Pay ₹399"}
+                  {payLoading
+                    ? "Opening..."
+                    : `Pay ${formatPrice(getPlan(payPlanId) ?? plans[0])}`}
                 </button>
               </div>
             </div>
@@ -1106,7 +1973,14 @@ export default function PracticePage() {
    Analysis Tabs
    ====================================================== */
 
-function AnalysisTabs({ analysis, analysisUpdatedAt, difficulty }: AnalysisTabsProps) {
+function AnalysisTabs({
+  analysis,
+  streaming,
+  analysisUpdatedAt,
+  difficulty,
+  highlighted,
+  onToggleHighlight,
+}: AnalysisTabsProps) {
   const [activeTab, setActiveTab] = useState<"solution" | "strategy">("solution");
 
   const tabBase = "px-4 py-2 text-sm rounded-md border transition-colors";
@@ -1121,6 +1995,7 @@ function AnalysisTabs({ analysis, analysisUpdatedAt, difficulty }: AnalysisTabsP
 
   const topicTitle = analysis?.topic_brief?.title ?? "Topic Brief";
   const topicBullets = analysis?.topic_brief?.bullets ?? [];
+  const topicPending = streaming && !analysis.topic_brief;
 
   return (
     <section className="space-y-4">
@@ -1153,7 +2028,11 @@ function AnalysisTabs({ analysis, analysisUpdatedAt, difficulty }: AnalysisTabsP
             <div className="font-semibold uppercase tracking-wide text-emerald-300 text-xs">
               Correct Answer
             </div>
-            <div className="mt-1 text-lg font-bold">Option {analysis.correct_answer}</div>
+            <div className="mt-1 text-lg font-bold">
+              {analysis.correct_answer === "DROPPED"
+                ? "Dropped by UPSC (no option scored)"
+                : `Option ${analysis.correct_answer.split("/").join(" or ")}`}
+            </div>
           </div>
 
           <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 space-y-2">
@@ -1168,7 +2047,10 @@ function AnalysisTabs({ analysis, analysisUpdatedAt, difficulty }: AnalysisTabsP
                   {t}
                 </li>
               ))}
-              {topicBullets.length === 0 && (
+              {topicPending && (
+                <li className="text-sm text-slate-400 animate-pulse">Generating topic brief…</li>
+              )}
+              {!topicPending && topicBullets.length === 0 && (
                 <li className="text-sm text-slate-400">Topic brief not available for this question.</li>
               )}
             </ul>
@@ -1194,24 +2076,45 @@ function AnalysisTabs({ analysis, analysisUpdatedAt, difficulty }: AnalysisTabsP
                 </div>
 
                 <ul className="mt-2 space-y-2">
-                  {s.facts.map((f, j) => (
-                    <li
-                      key={j}
-                      className="rounded-md border border-slate-700 bg-slate-900/40 p-3"
-                    >
-                      <div className="text-sm text-slate-100">{f.fact}</div>
-
-                      {f.example && f.example.trim().length > 0 && (
-                        <div className="mt-1 text-xs text-slate-300">
-                          <span className="font-semibold text-slate-200">Example:</span> {f.example}
+                  {s.facts.map((f, j) => {
+                    const isHighlighted = !!highlighted?.has(highlightKey(s.id, f.fact));
+                    return (
+                      <li
+                        key={j}
+                        className={`rounded-md border p-3 ${
+                          isHighlighted
+                            ? "border-amber-500/70 bg-amber-500/10"
+                            : "border-slate-700 bg-slate-900/40"
+                        }`}
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="text-sm text-slate-100">{f.fact}</div>
+                          {onToggleHighlight && (
+                            <button
+                              type="button"
+                              onClick={() => onToggleHighlight(s.id, f)}
+                              title={isHighlighted ? "Remove highlight" : "Highlight for revision"}
+                              className={`shrink-0 text-sm ${
+                                isHighlighted ? "text-amber-300" : "text-slate-500 hover:text-amber-200"
+                              }`}
+                            >
+                              {isHighlighted ? "★" : "☆"}
+                            </button>
+                          )}
                         </div>
-                      )}
 
-                      <div className="mt-2">
-                        <SourceLine source={f.source} />
-                      </div>
-                    </li>
-                  ))}
+                        {f.example && f.example.trim().length > 0 && (
+                          <div className="mt-1 text-xs text-slate-300">
+                            <span className="font-semibold text-slate-200">Example:</span> {f.example}
+                          </div>
+                        )}
+
+                        <div className="mt-2">
+                          <SourceLine source={f.source} />
+                        </div>
+                      </li>
+                    );
+                  })}
 
                   {s.facts.length === 0 && (
                     <li className="text-xs text-slate-400">No facts returned for this statement.</li>
@@ -1220,13 +2123,25 @@ function AnalysisTabs({ analysis, analysisUpdatedAt, difficulty }: AnalysisTabsP
               </div>
             ))}
 
-            {analysis.statements.length === 0 && (
+            {streaming && !analysis.strategy && (
+              <div className="text-xs text-slate-400 animate-pulse">
+                {analysis.statements.length === 0 ? "Analysing statements…" : "Analysing next statement…"}
+              </div>
+            )}
+
+            {!streaming && analysis.statements.length === 0 && (
               <div className="text-xs text-slate-400">No statement analysis returned for this question.</div>
             )}
           </div>
         </div>
       ) : (
-        <StrategyTabV1 analysis={analysis} difficulty={difficulty} />
+        analysis.strategy ? (
+          <StrategyTabV1 strategy={analysis.strategy} difficulty={difficulty} />
+        ) : (
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 text-sm text-slate-400 animate-pulse">
+            Generating exam strategy…
+          </div>
+        )
       )}
     </section>
   );
@@ -1267,8 +2182,8 @@ function SourceLine({ source }: { source: SourceRef }) {
 
  
 
-function StrategyTabV1({ analysis, difficulty,}: { analysis: QuestionAnalysisV1, difficulty?: string | null; }) {
-  const s = analysis.strategy;
+function StrategyTabV1({ strategy, difficulty,}: { strategy: StrategyV1, difficulty?: string | null; }) {
+  const s = strategy;
   const dbDifficulty = (difficulty ?? "Hard").toLowerCase();
   const badge =
     dbDifficulty === "easy"
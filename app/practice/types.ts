@@ -0,0 +1,24 @@
+// app/practice/types.ts
+
+/* ---------- Question row from Supabase ---------- */
+export type QuestionRow = {
+  id: number;
+  year: number | null;
+  subject: string | null;
+  question_number: number | null;
+  question_text: string;
+
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_option: string | null;
+  difficulty: string | null;
+
+  // lib/taxonomy.ts (most specific node the question is tagged with)
+  topic_id?: string | null;
+
+  // lib/answerKey.ts
+  key_status?: string | null;
+  accepted_options?: string[] | null;
+};
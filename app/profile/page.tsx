@@ -4,6 +4,23 @@ import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { supabaseClient } from "@/lib/supabaseClient";
+import { withRedirect } from "@/lib/authRedirect";
+import { entitlementFromProfile, getPlan, isEntitled } from "@/lib/plans";
+import { REFERRAL_BONUS_ANALYSES, REFERRAL_DISCOUNT_PCT } from "@/lib/coupons";
+import { accuracyByConfidence, CONFIDENCE_LABELS, fetchUserAttempts, type ConfidenceStat } from "@/lib/attemptEvents";
+import { areaOf } from "@/lib/adaptivePractice";
+import { buildRiskReport, type BlindAttempt, type RiskReport } from "@/lib/riskCalibration";
+import {
+  accuracyPct as tallyPct,
+  ancestorIds,
+  buildTopicTree,
+  fetchTopics,
+  flattenTree,
+  rollUp,
+  TOPIC_LEVELS,
+  UNTAGGED,
+  type TopicLevel,
+} from "@/lib/taxonomy";
 
 type Tab = "general" | "performance";
 
@@ -14,10 +31,16 @@ type ProfileRow = {
   phone: string | null;
   state_of_preparation: string | null;
   upsc_attempts: number | null;
+  plan_id: string | null;
+  pro_until: string | null;
+  referral_code: string | null;
 };
 
-type SubjectStat = {
-  subject: string;
+type TopicStat = {
+  id: string; // topic id or UNTAGGED
+  name: string;
+  level: TopicLevel | null;
+  depth: number;
   attempts: number;
   correct: number;
   accuracyPct: number; // 0..100
@@ -79,6 +102,13 @@ function StatCard({
   );
 }
 
+function formatMarks(n: number) {
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}`;
+}
+
+// Question ids per .in() filter when fetching verdicts
+const VERDICT_CHUNK = 200;
+
 function formatDateTime(iso: string) {
   const d = new Date(iso);
   return d.toLocaleString(undefined, {
@@ -90,43 +120,44 @@ function formatDateTime(iso: string) {
   });
 }
 
+// Keyed by topic id; a node without its own entry uses its nearest ancestor's
 const SUBJECT_PLAYBOOK: Record<string, string[]> = {
-  "ECONOMICS": [
+  "gs1.economy": [
     "Revise NCERT XI–XII basics + 1-page notes for key terms (inflation, GDP, BoP, fiscal deficit).",
     "Make a “committees + indices + schemes” cheat sheet (FRBM, MPC, CPI/WPI, GDP deflator).",
     "Solve 20 PYQs + reattempt wrong ones after 48 hours (error-log).",
   ],
-  "CURRENT EVENTS": [
+  "gs1.current-affairs": [
     "Maintain monthly CA sheets: Polity/Gov, Economy, S&T, Env, IR (1 page each).",
     "For every wrong Q: write the static anchor (Act/Article, index, place, institution).",
     "Re-solve last 2 years PYQs of this subject weekly.",
   ],
-  "POLITY": [
+  "gs1.polity": [
     "Articles + schedules + bodies: flashcards + weekly revision.",
     "SC doctrines/landmark cases: 1-liner each.",
     "PYQ drill: statement-based elimination practice.",
   ],
-  "ENVIRONMENT": [
+  "gs1.environment": [
     "Maps + protected areas + species lists (IUCN/CITES) quick revision.",
     "Conventions/protocols: 1 page (COPs, UNFCCC, CBD, Ramsar).",
     "20 PYQs + focus on tricky statements.",
   ],
-  "SCIENCE & TECH": [
+  "gs1.science-tech": [
     "Make 1-pagers for biotech/space/IT/defence terms.",
     "Maintain error-log: why your option was wrong (UPSC traps).",
     "Reattempt wrong PYQs after 48 hours.",
   ],
-  "ANCIENT & MEDIEVAL": [
+  "gs1.history.ancient-medieval": [
     "Timeline + themes (art/culture, admin, economy) 1-pagers.",
     "Source-based facts (inscriptions/texts) flashcards.",
     "PYQ set + reattempt wrong ones.",
   ],
-  "MODERN HISTORY": [
+  "gs1.history.modern": [
     "Timeline (1857→1947) + personalities/acts 1-pagers.",
     "Movements: causes-methods-outcomes (3-liner each).",
     "PYQ drill + reattempt wrong ones.",
   ],
-  "GEOGRAPHY": [
+  "gs1.geography": [
     "Maps practice + physical processes basics.",
     "Climatic phenomena + Indian regions revision.",
     "PYQ statement elimination + diagram memory.",
@@ -157,9 +188,20 @@ export default function ProfilePage() {
   const [correctAttempts, setCorrectAttempts] = useState<number>(0);
   const [lastAttemptAt, setLastAttemptAt] = useState<string | null>(null);
 
-  // Subject-wise stats
+  // Topic-wise stats (rolled up paper → subject → topic → subtopic)
   const [subjectLoading, setSubjectLoading] = useState(false);
-  const [subjectStats, setSubjectStats] = useState<SubjectStat[]>([]);
+  const [topicStats, setTopicStats] = useState<TopicStat[]>([]);
+  const [rollupLevel, setRollupLevel] = useState<TopicLevel>("topic");
+
+  // Accuracy by self-rated confidence (lib/attemptEvents.ts)
+  const [confidenceStats, setConfidenceStats] = useState<ConfidenceStat[]>([]);
+
+  // Negative-marking risk report (lib/riskCalibration.ts)
+  const [riskReport, setRiskReport] = useState<RiskReport | null>(null);
+
+  const entitlement = useMemo(() => entitlementFromProfile(profile), [profile]);
+  const planActive = isEntitled(entitlement);
+  const planLabel = getPlan(entitlement.planId)?.label ?? null;
 
   const accuracyPct = useMemo(() => {
     if (!totalAttempts) return 0;
@@ -167,14 +209,25 @@ export default function ProfilePage() {
   }, [totalAttempts, correctAttempts]);
 
   // ✅ Weak-subject suggestions (Step 1–7 rolled in)
+  // Subjects and topics compete; a topic is skipped when its subject is already listed.
   const weakSubjects = useMemo(() => {
-    const weak = subjectStats
-      .filter((s) => s.attempts > 0 && s.accuracyPct < T)
-      .sort((a, b) => a.accuracyPct - b.accuracyPct)
-      .slice(0, N);
+    const candidates = topicStats
+      .filter((s) => (s.level === "subject" || s.level === "topic") && s.accuracyPct < T)
+      .sort((a, b) => a.accuracyPct - b.accuracyPct);
+
+    const picked: TopicStat[] = [];
+    for (const s of candidates) {
+      if (picked.length >= N) break;
+      if (picked.some((p) => s.id.startsWith(`${p.id}.`) || p.id.startsWith(`${s.id}.`))) continue;
+      picked.push(s);
+    }
+    return picked;
+  }, [topicStats, N, T]);
 
-    return weak;
-  }, [subjectStats, N, T]);
+  const visibleTopicStats = useMemo(() => {
+    const maxDepth = TOPIC_LEVELS.indexOf(rollupLevel);
+    return topicStats.filter((s) => s.id === UNTAGGED || s.depth <= maxDepth);
+  }, [topicStats, rollupLevel]);
 
   // Boot: ensure session + load profile
   useEffect(() => {
@@ -193,13 +246,13 @@ export default function ProfilePage() {
 
       const user = data.user;
       if (!user) {
-        router.replace("/login?redirect=/profile");
+        router.replace(withRedirect("/login", "/profile"));
         return;
       }
 
       const { data: prof, error: profErr } = await supabaseClient
         .from("profiles")
-        .select("id,email,full_name,phone,state_of_preparation,upsc_attempts")
+        .select("id,email,full_name,phone,state_of_preparation,upsc_attempts,plan_id,pro_until,referral_code")
         .eq("id", user.id)
         .maybeSingle();
 
@@ -233,29 +286,36 @@ export default function ProfilePage() {
       const userId = u.user?.id;
 
       if (!userId) {
-        router.replace("/login?redirect=/profile");
+        router.replace(withRedirect("/login", "/profile"));
         return;
       }
 
       try {
-        // Pull attempts with joined question subject
-        const { data: attempts, error: aErr } = await supabaseClient
-          .from("question_attempts")
-          .select("is_correct, created_at, questions(subject)")
-          .eq("user_id", userId);
-
-        if (aErr) throw aErr;
-
+        type AttemptQuestion = { topic_id: string | null; subject: string | null };
         type AttemptRow = {
+          question_id: number;
+          selected_option: string | null;
           is_correct: boolean | null;
           created_at: string;
-          questions:
-            | { subject: string | null }
-            | { subject: string | null }[]
-            | null;
+          confidence: string | null;
+          time_spent_ms: number | null;
+          analysis_opened_first: boolean | null;
+          questions: AttemptQuestion | AttemptQuestion[] | null;
         };
 
-        const rows = (attempts ?? []) as AttemptRow[];
+        // Pull attempts with joined question subject (paged past the 1000-row cap)
+        const [attempts, topics] = await Promise.all([
+          fetchUserAttempts<AttemptRow>(
+            supabaseClient,
+            userId,
+            "question_id, selected_option, is_correct, created_at, confidence, time_spent_ms, analysis_opened_first, questions(topic_id, subject)"
+          ),
+          fetchTopics(supabaseClient),
+        ]);
+
+        // is_correct follows today's key (re-graded in the database on a key change);
+        // null = not scored, e.g. the question was dropped
+        const rows = attempts.filter((r) => r.is_correct !== null);
 
         const total = rows.length;
         const correct = rows.filter((r) => r.is_correct === true).length;
@@ -267,35 +327,89 @@ export default function ProfilePage() {
           }
         }
 
-        // Build subject stats
-        const map = new Map<string, { attempts: number; correct: number }>();
-        for (const r of rows) {
-          const subject = 
-            (
-              (Array.isArray(r.questions)
-                ? (r.questions[0]?.subject ?? null)
-                : r.questions?.subject) ?? "Unknown"
-            ).trim();
-          const cur = map.get(subject) || { attempts: 0, correct: 0 };
-          cur.attempts += 1;
-          if (r.is_correct === true) cur.correct += 1;
-          map.set(subject, cur);
+        // Roll every attempt up its topic path
+        const tally = rollUp(
+          rows.map((r) => {
+            const q = Array.isArray(r.questions) ? r.questions[0] : r.questions;
+            return { topicId: q?.topic_id ?? null, correct: r.is_correct };
+          })
+        );
+
+        const toStat = (
+          id: string,
+          name: string,
+          level: TopicLevel | null,
+          depth: number
+        ): TopicStat => {
+          const t = tally.get(id);
+          return {
+            id,
+            name,
+            level,
+            depth,
+            attempts: t?.total ?? 0,
+            correct: t?.correct ?? 0,
+            accuracyPct: tallyPct(t),
+          };
+        };
+
+        const list: TopicStat[] = flattenTree(buildTopicTree(topics))
+          .filter((n) => tally.has(n.id))
+          .map((n) => toStat(n.id, n.name, n.level, n.depth));
+        if (tally.has(UNTAGGED)) list.push(toStat(UNTAGGED, "Untagged", null, 0));
+
+        // AI verdicts for attempted questions (RLS returns only unlocked analyses)
+        const questionIds = Array.from(new Set(rows.map((r) => r.question_id)));
+        const verdicts = new Map<number, { version: number; verdict: BlindAttempt["verdict"] }>();
+
+        for (let i = 0; i < questionIds.length; i += VERDICT_CHUNK) {
+          const { data: vs, error: vErr } = await supabaseClient
+            .from("question_analysis_versions")
+            .select("question_id, version, verdict:analysis->strategy->ai_verdict")
+            .in("question_id", questionIds.slice(i, i + VERDICT_CHUNK))
+            .is("invalidated_at", null);
+
+          if (vErr) throw vErr;
+          for (const v of vs ?? []) {
+            const raw = v.verdict as { recommendation?: string; confidence?: number } | null;
+            const prev = verdicts.get(v.question_id as number);
+            if (!raw || (prev && prev.version > (v.version as number))) continue;
+            verdicts.set(v.question_id as number, {
+              version: v.version as number,
+              verdict: {
+                recommendation: raw.recommendation === "skip" ? "skip" : "attempt",
+                confidence: Number.isFinite(Number(raw.confidence)) ? Number(raw.confidence) : 60,
+              },
+            });
+          }
         }
 
-        const list: SubjectStat[] = Array.from(map.entries())
-          .map(([subject, v]) => ({
-            subject,
-            attempts: v.attempts,
-            correct: v.correct,
-            accuracyPct: v.attempts ? Math.round((v.correct / v.attempts) * 100) : 0,
-          }))
-          .sort((a, b) => b.attempts - a.attempts);
+        const topicNames = new Map(topics.map((t) => [t.id, t.name]));
+        const report = buildRiskReport(
+          rows.map((r) => {
+            const q = Array.isArray(r.questions) ? r.questions[0] : r.questions;
+            const area = areaOf({ id: r.question_id, topic_id: q?.topic_id, subject: q?.subject });
+            return {
+              questionId: r.question_id,
+              createdAt: r.created_at,
+              isCorrect: r.is_correct,
+              analysisOpenedFirst: !!r.analysis_opened_first,
+              confidence: r.confidence,
+              area:
+                topicNames.get(area) ??
+                (area.startsWith("subject:") ? area.slice("subject:".length) : "Untagged"),
+              verdict: verdicts.get(r.question_id)?.verdict ?? null,
+            };
+          })
+        );
 
         if (!cancelled) {
           setTotalAttempts(total);
           setCorrectAttempts(correct);
           setLastAttemptAt(last);
-          setSubjectStats(list);
+          setTopicStats(list);
+          setConfidenceStats(accuracyByConfidence(rows));
+          setRiskReport(report);
         }
       } catch (e: any) {
         if (!cancelled) setErr(e?.message ?? "Failed to load performance.");
@@ -315,7 +429,7 @@ export default function ProfilePage() {
 
   const onLogout = async () => {
     await supabaseClient.auth.signOut();
-    router.replace("/login?redirect=/practice");
+    router.replace(withRedirect("/login", "/practice"));
   };
 
   if (loading) {
@@ -415,6 +529,48 @@ export default function ProfilePage() {
             </div>
 
             <p className="mt-4 text-xs text-slate-500">Edit flow will be added later.</p>
+
+            <h2 className="mt-8 text-base font-semibold">Plan</h2>
+
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-4">
+                <FieldRow
+                  label="Current plan"
+                  value={planLabel ? `${planLabel}${planActive ? "" : " (expired)"}` : "Free"}
+                />
+              </div>
+
+              <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-4">
+                <FieldRow
+                  label={planActive ? "Renew by" : "Expired on"}
+                  value={
+                    entitlement.planId === "lifetime"
+                      ? "Never expires"
+                      : entitlement.proUntil
+                        ? formatDateTime(entitlement.proUntil)
+                        : null
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/30 p-4">
+              <FieldRow label="Your referral code" value={profile?.referral_code} />
+              <p className="mt-2 text-xs text-slate-500">
+                Friends get {REFERRAL_DISCOUNT_PCT}% off any plan; you get {REFERRAL_BONUS_ANALYSES} extra
+                free analyses for each friend who upgrades.
+              </p>
+            </div>
+
+            {!planActive && (
+              <p className="mt-4 text-xs text-slate-500">
+                Upgrade from the{" "}
+                <Link href="/practice" className="text-emerald-300 hover:underline">
+                  practice page
+                </Link>
+                .
+              </p>
+            )}
           </section>
         ) : (
           <section className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
@@ -447,6 +603,155 @@ export default function ProfilePage() {
                   />
                 </div>
 
+                {/* Accuracy by confidence */}
+                {confidenceStats.some((c) => c.level !== "unrated") ? (
+                  <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-950/30 p-5">
+                    <div className="text-sm font-semibold text-slate-100">
+                      Accuracy by confidence
+                    </div>
+                    <div className="mt-1 text-xs text-slate-400">
+                      Marks per attempt at +2 / −0.66. Below zero, skipping those questions would have
+                      scored more.
+                    </div>
+
+                    <div className="mt-4 overflow-hidden rounded-xl border border-slate-800">
+                      <div className="grid grid-cols-12 bg-slate-900/60 px-4 py-2 text-xs uppercase tracking-wide text-slate-400">
+                        <div className="col-span-4">Confidence</div>
+                        <div className="col-span-2 text-right">Attempts</div>
+                        <div className="col-span-2 text-right">Accuracy</div>
+                        <div className="col-span-2 text-right">Marks / Q</div>
+                        <div className="col-span-2 text-right">Avg time</div>
+                      </div>
+
+                      {confidenceStats.map((c) => (
+                        <div
+                          key={c.level}
+                          className="grid grid-cols-12 px-4 py-3 text-sm border-t border-slate-800/70"
+                        >
+                          <div className="col-span-4 text-slate-100">
+                            {c.level === "unrated" ? "Not rated" : CONFIDENCE_LABELS[c.level]}
+                          </div>
+                          <div className="col-span-2 text-right text-slate-200">{c.attempts}</div>
+                          <div className="col-span-2 text-right text-slate-200">{c.accuracyPct}%</div>
+                          <div
+                            className={[
+                              "col-span-2 text-right font-medium",
+                              c.marksPerAttempt < 0 ? "text-rose-300" : "text-emerald-300",
+                            ].join(" ")}
+                          >
+                            {c.marksPerAttempt > 0 ? "+" : ""}
+                            {c.marksPerAttempt}
+                          </div>
+                          <div className="col-span-2 text-right text-slate-200">
+                            {c.avgTimeSec != null ? `${c.avgTimeSec}s` : "—"}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {/* Negative-marking risk vs the AI verdict */}
+                {riskReport && riskReport.blindAttempts > 0 ? (
+                  <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-950/30 p-5">
+                    <div className="text-sm font-semibold text-slate-100">Negative-marking risk</div>
+                    <div className="mt-1 text-xs text-slate-400">
+                      Your first attempt at each question, made before opening its analysis (
+                      {riskReport.blindAttempts}). Scored at +2 / −0.66; a skip scores 0.
+                      Attempted questions only: questions you left unanswered are not recorded, so
+                      your own skips are not in these numbers.
+                    </div>
+
+                    <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+                      <StatCard
+                        label="Your net marks"
+                        value={formatMarks(riskReport.netMarks)}
+                        sub={`${riskReport.noVerdict} without an AI verdict yet`}
+                      />
+                      <StatCard
+                        label="AI said attempt"
+                        value={formatMarks(riskReport.aiAttempt.netMarks)}
+                        sub={`${riskReport.aiAttempt.attempts} Qs · AI expected ${formatMarks(
+                          riskReport.aiAttempt.expectedNetMarks
+                        )}`}
+                      />
+                      <StatCard
+                        label="AI said skip"
+                        value={formatMarks(riskReport.aiSkip.netMarks)}
+                        sub={`${riskReport.aiSkip.attempts} Qs · following the AI: ${formatMarks(
+                          riskReport.followingAiDelta
+                        )}`}
+                      />
+                    </div>
+
+                    {riskReport.calibration.length ? (
+                      <div className="mt-4 overflow-hidden rounded-xl border border-slate-800">
+                        <div className="grid grid-cols-12 bg-slate-900/60 px-4 py-2 text-xs uppercase tracking-wide text-slate-400">
+                          <div className="col-span-6">AI confidence (attempt)</div>
+                          <div className="col-span-2 text-right">Qs</div>
+                          <div className="col-span-2 text-right">AI said</div>
+                          <div className="col-span-2 text-right">You got</div>
+                        </div>
+                        {riskReport.calibration.map((b) => (
+                          <div
+                            key={b.label}
+                            className="grid grid-cols-12 px-4 py-3 text-sm border-t border-slate-800/70"
+                          >
+                            <div className="col-span-6 text-slate-100">{b.label}</div>
+                            <div className="col-span-2 text-right text-slate-200">{b.attempts}</div>
+                            <div className="col-span-2 text-right text-slate-200">{b.avgStatedPct}%</div>
+                            <div className="col-span-2 text-right text-slate-200">{b.actualPct}%</div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+
+                    {riskReport.guessing.length ? (
+                      <>
+                        <div className="mt-5 text-xs text-slate-400">
+                          Guessing habits (answers rated Guess or 50-50): overall{" "}
+                          <span
+                            className={
+                              riskReport.guessingNet < 0 ? "text-rose-300" : "text-emerald-300"
+                            }
+                          >
+                            {formatMarks(riskReport.guessingNet)}
+                          </span>{" "}
+                          marks.
+                        </div>
+                        <div className="mt-2 overflow-hidden rounded-xl border border-slate-800">
+                          <div className="grid grid-cols-12 bg-slate-900/60 px-4 py-2 text-xs uppercase tracking-wide text-slate-400">
+                            <div className="col-span-6">Subject</div>
+                            <div className="col-span-2 text-right">Guesses</div>
+                            <div className="col-span-2 text-right">Net</div>
+                            <div className="col-span-2 text-right">Per guess</div>
+                          </div>
+                          {riskReport.guessing.map((g) => (
+                            <div
+                              key={g.area}
+                              className="grid grid-cols-12 px-4 py-3 text-sm border-t border-slate-800/70"
+                            >
+                              <div className="col-span-6 text-slate-100">{g.area}</div>
+                              <div className="col-span-2 text-right text-slate-200">{g.guesses}</div>
+                              <div
+                                className={[
+                                  "col-span-2 text-right font-medium",
+                                  g.netMarks < 0 ? "text-rose-300" : "text-emerald-300",
+                                ].join(" ")}
+                              >
+                                {formatMarks(g.netMarks)}
+                              </div>
+                              <div className="col-span-2 text-right text-slate-200">
+                                {formatMarks(g.perGuess)}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    ) : null}
+                  </div>
+                ) : null}
+
                 {/* ✅ Weak-subject suggestions */}
                 <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-950/30 p-5">
                   <div className="flex items-start justify-between gap-4">
@@ -455,27 +760,32 @@ export default function ProfilePage() {
                         Weak-subject suggestions
                       </div>
                       <div className="mt-1 text-xs text-slate-400">
-                        Picks up to {N} subjects with accuracy below {T}% (sorted worst-first).
+                        Picks up to {N} subjects or topics with accuracy below {T}% (sorted worst-first).
                       </div>
                     </div>
+                    <Link
+                      href="/practice?mode=weak"
+                      className="shrink-0 rounded-md bg-emerald-500 px-3 py-2 text-xs font-semibold text-slate-950 hover:bg-emerald-400"
+                    >
+                      Practice my weak areas
+                    </Link>
                   </div>
 
                     {weakSubjects.map((s) => {
-                      const subjectKey = (s.subject ?? "")
-                        .toUpperCase()
-                        .trim()
-                        .replace(/\s+/g, " ");
+                      const playbookKey = ancestorIds(s.id)
+                        .reverse()
+                        .find((id) => SUBJECT_PLAYBOOK[id]);
 
-                      const tips = SUBJECT_PLAYBOOK[subjectKey] ?? SUBJECT_PLAYBOOK["__default"];
+                      const tips = SUBJECT_PLAYBOOK[playbookKey ?? "__default"];
 
                       return (
                         <div
-                          key={s.subject}
+                          key={s.id}
                           className="rounded-xl border border-slate-800 bg-slate-900/30 p-4"
                         >
                           <div className="flex items-start justify-between gap-4">
                             <div className="text-sm font-semibold text-slate-100">
-                              {s.subject || "Unknown"}
+                              {s.name}
                             </div>
 
                             <div className="text-xs text-slate-400">
@@ -498,37 +808,54 @@ export default function ProfilePage() {
 
                 {/* Subject-wise table */}
                 <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-950/30 p-5">
-                  <div className="text-sm font-semibold text-slate-100">
-                    Subject-wise attempts
-                  </div>
-                  <div className="mt-1 text-xs text-slate-400">
-                    Sorted by attempts (desc).
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <div className="text-sm font-semibold text-slate-100">
+                        Syllabus-wise attempts
+                      </div>
+                      <div className="mt-1 text-xs text-slate-400">
+                        Each level includes everything below it.
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {TOPIC_LEVELS.map((l) => (
+                        <Pill key={l} active={rollupLevel === l} onClick={() => setRollupLevel(l)}>
+                          {l[0].toUpperCase() + l.slice(1)}
+                        </Pill>
+                      ))}
+                    </div>
                   </div>
 
                   {subjectLoading ? (
                     <div className="mt-4 text-sm text-slate-300">
                       Loading subject stats…
                     </div>
-                  ) : subjectStats.length === 0 ? (
+                  ) : topicStats.length === 0 ? (
                     <div className="mt-4 text-sm text-slate-300">
                       No subject stats yet.
                     </div>
                   ) : (
                     <div className="mt-4 overflow-hidden rounded-xl border border-slate-800">
                       <div className="grid grid-cols-12 bg-slate-900/60 px-4 py-2 text-xs uppercase tracking-wide text-slate-400">
-                        <div className="col-span-6">Subject</div>
+                        <div className="col-span-6">Topic</div>
                         <div className="col-span-2 text-right">Attempts</div>
                         <div className="col-span-2 text-right">Correct</div>
                         <div className="col-span-2 text-right">Accuracy</div>
                       </div>
 
-                      {subjectStats.map((s) => (
+                      {visibleTopicStats.map((s) => (
                         <div
-                          key={s.subject}
+                          key={s.id}
                           className="grid grid-cols-12 px-4 py-3 text-sm border-t border-slate-800/70"
                         >
-                          <div className="col-span-6 text-slate-100">
-                            {s.subject}
+                          <div
+                            className={[
+                              "col-span-6",
+                              s.depth === 0 ? "font-semibold text-slate-50" : "text-slate-100",
+                            ].join(" ")}
+                            style={{ paddingLeft: `${s.depth * 16}px` }}
+                          >
+                            {s.name}
                           </div>
                           <div className="col-span-2 text-right text-slate-200">
                             {s.attempts}
@@ -0,0 +1,163 @@
+// lib/adaptivePractice.ts
+// "Practice my weak areas": builds a session from the user's question_attempts.
+//
+// Each question gets a weight from
+//   - how weak its subject is (accuracy, smoothed so 1 lucky answer isn't "strong")
+//   - how weak its difficulty band is
+//   - its own history: last answered wrong > never attempted > last answered right
+// then a weighted random draw picks the session, so repeated sessions differ but
+// still lean on the weakest material. Questions seen in the last few days are held
+// back unless there aren't enough others.
+import type { AttemptEvent } from "@/lib/spacedRepetition";
+import { ancestorIds, UNTAGGED } from "@/lib/taxonomy";
+
+export type AdaptiveQuestion = {
+  id: number;
+  topic_id?: string | null;
+  subject?: string | null;
+  difficulty?: string | null;
+};
+
+export type WeakArea = {
+  kind: "subject" | "difficulty";
+  key: string; // topic id (subject level), "subject:<NAME>", UNTAGGED or a difficulty
+  attempts: number;
+  accuracyPct: number;
+};
+
+export type AdaptiveSession = {
+  questionIds: number[];
+  /** weakest areas first (what the session leans on) */
+  focus: WeakArea[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEAK_SESSION_SIZE = 20;
+const RECENT_DAYS = 3;
+const MAX_AREA_SHARE = 0.4; // no single subject takes more than 40% of a session
+
+// own-history multipliers
+const LAST_WRONG = 3;
+const UNATTEMPTED = 1.5;
+const LAST_RIGHT = 0.3;
+
+const AREA_WEIGHT = 0.65; // rest goes to difficulty
+
+/**
+ * Subject-level bucket for a question: the taxonomy subject when tagged,
+ * else the raw subject string.
+ */
+export function areaOf(q: AdaptiveQuestion): string {
+  if (q.topic_id) {
+    const path = ancestorIds(q.topic_id);
+    return path[Math.min(1, path.length - 1)];
+  }
+  const s = (q.subject ?? "").trim().toUpperCase();
+  return s ? `subject:${s}` : UNTAGGED;
+}
+
+function difficultyOf(q: AdaptiveQuestion) {
+  return (q.difficulty ?? "").trim().toLowerCase() || "unknown";
+}
+
+type Tally = { attempts: number; correct: number };
+
+// Laplace-smoothed: an untried area sits at 50%, not 0% or 100%
+const smoothedAccuracy = (t: Tally | undefined) => ((t?.correct ?? 0) + 1) / ((t?.attempts ?? 0) + 2);
+
+export function buildWeakAreaSession(
+  questions: AdaptiveQuestion[],
+  attempts: AttemptEvent[],
+  opts: { size?: number; now?: Date; random?: () => number } = {}
+): AdaptiveSession {
+  const size = opts.size ?? WEAK_SESSION_SIZE;
+  const now = (opts.now ?? new Date()).getTime();
+  const random = opts.random ?? Math.random;
+
+  const byId = new Map(questions.map((q) => [q.id, q]));
+
+  // Latest attempt per question + accuracy per area / difficulty
+  const last = new Map<number, { at: number; correct: boolean }>();
+  const areas = new Map<string, Tally>();
+  const difficulties = new Map<string, Tally>();
+
+  for (const a of attempts) {
+    if (a.is_correct === null) continue; // voided (dropped question)
+    const q = byId.get(a.question_id);
+    if (!q) continue;
+
+    const at = new Date(a.created_at).getTime();
+    const prev = last.get(q.id);
+    if (!prev || at >= prev.at) last.set(q.id, { at, correct: a.is_correct });
+
+    for (const [map, key] of [
+      [areas, areaOf(q)],
+      [difficulties, difficultyOf(q)],
+    ] as const) {
+      const t = map.get(key) ?? { attempts: 0, correct: 0 };
+      t.attempts += 1;
+      if (a.is_correct) t.correct += 1;
+      map.set(key, t);
+    }
+  }
+
+  const weight = (q: AdaptiveQuestion) => {
+    const areaWeak = 1 - smoothedAccuracy(areas.get(areaOf(q)));
+    const diffWeak = 1 - smoothedAccuracy(difficulties.get(difficultyOf(q)));
+    const h = last.get(q.id);
+    const own = !h ? UNATTEMPTED : h.correct ? LAST_RIGHT : LAST_WRONG;
+    // floor keeps strong areas reachable once the weak pool runs dry
+    return Math.max(0.01, AREA_WEIGHT * areaWeak + (1 - AREA_WEIGHT) * diffWeak) * own;
+  };
+
+  const recentCutoff = now - RECENT_DAYS * DAY_MS;
+  const isRecent = (q: AdaptiveQuestion) => (last.get(q.id)?.at ?? 0) >= recentCutoff;
+
+  // Weighted sampling without replacement (Efraimidis–Spirakis keys)
+  const draw = (pool: AdaptiveQuestion[]) =>
+    pool
+      .map((q) => ({ q, key: Math.pow(random(), 1 / weight(q)) }))
+      .sort((a, b) => b.key - a.key)
+      .map((x) => x.q);
+
+  const ordered = [
+    ...draw(questions.filter((q) => !isRecent(q))),
+    ...draw(questions.filter(isRecent)),
+  ];
+
+  const cap = Math.max(1, Math.ceil(size * MAX_AREA_SHARE));
+  const perArea = new Map<string, number>();
+  const picked: number[] = [];
+  const overflow: number[] = [];
+
+  for (const q of ordered) {
+    if (picked.length >= size) break;
+    const area = areaOf(q);
+    const n = perArea.get(area) ?? 0;
+    if (n >= cap) {
+      overflow.push(q.id);
+      continue;
+    }
+    perArea.set(area, n + 1);
+    picked.push(q.id);
+  }
+
+  // Few subjects in the bank: fill up past the cap rather than serve a short set
+  while (picked.length < size && overflow.length) picked.push(overflow.shift() as number);
+
+  const focus = (kind: WeakArea["kind"], map: Map<string, Tally>): WeakArea[] =>
+    Array.from(map.entries()).map(([key, t]) => ({
+      kind,
+      key,
+      attempts: t.attempts,
+      accuracyPct: Math.round((t.correct / t.attempts) * 100),
+    }));
+
+  return {
+    questionIds: picked,
+    focus: [...focus("subject", areas), ...focus("difficulty", difficulties)]
+      .sort((a, b) => a.accuracyPct - b.accuracyPct || b.attempts - a.attempts)
+      .slice(0, 4),
+  };
+}
@@ -0,0 +1,37 @@
+// lib/adminAuth.ts
+// Bearer-token auth for /api/admin/* routes: the caller must have profiles.role = 'admin'.
+// The role is only writable by the service role (see supabase/migrations).
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServerClient } from "@/lib/supabaseServer";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type AdminAuth =
+  | { ok: true; user: User; token: string }
+  | { ok: false; response: NextResponse };
+
+export async function requireAdmin(request: Request): Promise<AdminAuth> {
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+  if (!token) {
+    return { ok: false, response: NextResponse.json({ error: "Missing auth token" }, { status: 401 }) };
+  }
+
+  const { data: u, error: uErr } = await supabaseServerClient.auth.getUser(token);
+  if (uErr || !u.user) {
+    return { ok: false, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const { data: prof, error } = await getSupabaseAdmin()
+    .from("profiles")
+    .select("role")
+    .eq("id", u.user.id)
+    .maybeSingle();
+
+  if (error || prof?.role !== "admin") {
+    return { ok: false, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { ok: true, user: u.user, token };
+}
@@ -0,0 +1,399 @@
+// lib/adminQuestions.ts
+// Server-side logic behind the /admin console (service-role client only):
+// question search + edit, the answer-key change log, analysis invalidation /
+// regeneration, and the negative-feedback leaderboard.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeOption } from "@/lib/scoring";
+import { generateQuestionAnalysis, type GenerateOptions } from "@/lib/generateQuestionAnalysis";
+import { invalidateAnalyses, saveAnalysisVersion, type AnalysisVersion } from "@/lib/analysisStore";
+import {
+  answerKeyOf,
+  answerLabel,
+  isGradable,
+  KEY_STATUSES,
+  type KeyedRow,
+  type KeyStatus,
+} from "@/lib/answerKey";
+
+export const ADMIN_QUESTION_COLUMNS =
+  "id, year, subject, question_number, question_text, option_a, option_b, option_c, option_d, correct_option, difficulty, key_status, accepted_options, topic_id";
+
+export type AdminQuestion = {
+  id: number;
+  year: number | null;
+  subject: string | null;
+  question_number: number | null;
+  question_text: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_option: string | null;
+  difficulty: string | null;
+  key_status: KeyStatus | null;
+  accepted_options: string[] | null;
+  topic_id: string | null;
+};
+
+export type QuestionPatch = Partial<Omit<AdminQuestion, "id">>;
+
+const EDITABLE: (keyof QuestionPatch)[] = [
+  "year",
+  "subject",
+  "question_number",
+  "question_text",
+  "option_a",
+  "option_b",
+  "option_c",
+  "option_d",
+  "correct_option",
+  "difficulty",
+  "key_status",
+  "accepted_options",
+  "topic_id",
+];
+
+export type AnswerKeyChange = {
+  id: number;
+  question_id: number;
+  old_option: string | null;
+  new_option: string | null;
+  old_status: KeyStatus | null;
+  new_status: KeyStatus | null;
+  reason: string | null;
+  changed_by: string | null;
+  created_at: string;
+};
+
+/* -------------------------------------------------------
+   Search
+------------------------------------------------------- */
+
+/** Numeric query → exact id; otherwise case-insensitive match on the question text. */
+export async function searchQuestions(
+  admin: SupabaseClient,
+  p: { q?: string; year?: number | null; subject?: string | null; limit?: number }
+): Promise<AdminQuestion[]> {
+  let query = admin
+    .from("questions")
+    .select(ADMIN_QUESTION_COLUMNS)
+    .order("year", { ascending: false })
+    .order("question_number", { ascending: true })
+    .limit(Math.min(p.limit ?? 50, 200));
+
+  const q = (p.q ?? "").trim();
+  if (/^\d+$/.test(q)) query = query.eq("id", Number(q));
+  else if (q) query = query.ilike("question_text", `%${q.replace(/[%_]/g, "\\$&")}%`);
+
+  if (p.year) query = query.eq("year", p.year);
+  if (p.subject) query = query.eq("subject", p.subject);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as AdminQuestion[];
+}
+
+/* -------------------------------------------------------
+   Edit (+ answer-key log)
+------------------------------------------------------- */
+
+export function sanitizePatch(raw: Record<string, unknown>): { patch: QuestionPatch; error?: string } {
+  const patch: Record<string, unknown> = {};
+
+  for (const key of EDITABLE) {
+    if (!(key in raw)) continue;
+    const v = raw[key];
+
+    if (key === "year" || key === "question_number") {
+      const n = v === null || v === "" ? null : Number(v);
+      if (n !== null && (!Number.isInteger(n) || n < 1)) return { patch: {}, error: `${key} must be a positive integer` };
+      patch[key] = n;
+    } else if (key === "correct_option") {
+      // empty is allowed for dropped questions
+      const opt = v === null || v === "" ? null : normalizeOption(v);
+      if (opt === null && v !== null && v !== "") {
+        return { patch: {}, error: "correct_option must be A, B, C or D" };
+      }
+      patch[key] = opt;
+    } else if (key === "key_status") {
+      const s = String(v ?? "").trim();
+      if (!(KEY_STATUSES as string[]).includes(s)) {
+        return { patch: {}, error: `key_status must be one of ${KEY_STATUSES.join(", ")}` };
+      }
+      patch[key] = s;
+    } else if (key === "accepted_options") {
+      const list = Array.isArray(v) ? v : String(v ?? "").split(/[,/\s]+/);
+      const opts = list.filter((x) => String(x).trim() !== "").map((x) => normalizeOption(x));
+      if (opts.some((o) => o === null)) {
+        return { patch: {}, error: "accepted_options must only contain A, B, C or D" };
+      }
+      patch[key] = opts.length ? Array.from(new Set(opts)).sort() : null;
+    } else if (key === "question_text") {
+      const s = String(v ?? "").trim();
+      if (!s) return { patch: {}, error: "question_text can't be empty" };
+      patch[key] = s;
+    } else {
+      const s = String(v ?? "").trim();
+      patch[key] = s || null;
+    }
+  }
+
+  return { patch: patch as QuestionPatch };
+}
+
+/**
+ * Why the key on a (merged) row can't grade answers, or null. Same rules as the
+ * importer: a single-answer key needs correct_option, multiple_correct needs two options.
+ */
+export function keyProblem(row: KeyedRow): string | null {
+  const key = answerKeyOf(row);
+  if (key.status === "dropped") return null;
+  if (key.status === "multiple_correct") {
+    return key.accepted.length < 2 ? "multiple_correct needs at least two accepted options" : null;
+  }
+  return normalizeOption(row.correct_option) ? null : `a ${key.status} key needs correct_option`;
+}
+
+/**
+ * Applies an edit. The patch is checked against the stored row first (keyProblem), so
+ * an edit can't leave the question ungradable. A changed key (option(s) or key_status)
+ * is written to answer_key_changes and re-grades the stored attempts (the
+ * questions_regrade_attempts trigger, same transaction); if the scoring options changed,
+ * the question's analyses are invalidated (they argue for the old key).
+ */
+export async function updateQuestion(
+  admin: SupabaseClient,
+  p: { questionId: number; patch: QuestionPatch; adminId: string; reason?: string | null }
+): Promise<{ question: AdminQuestion; keyChanged: boolean; invalidated: number } | { error: string }> {
+  const { data: before, error: readErr } = await admin
+    .from("questions")
+    .select(ADMIN_QUESTION_COLUMNS)
+    .eq("id", p.questionId)
+    .maybeSingle();
+
+  if (readErr) throw readErr;
+  if (!before) throw new Error("Question not found");
+
+  const problem = keyProblem({ ...(before as AdminQuestion), ...p.patch });
+  if (problem) return { error: problem };
+
+  const { data: after, error } = await admin
+    .from("questions")
+    .update(p.patch)
+    .eq("id", p.questionId)
+    .select(ADMIN_QUESTION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  const oldKey = answerKeyOf(before);
+  const newKey = answerKeyOf(after);
+  const oldLabel = answerLabel(oldKey) || null;
+  const newLabel = answerLabel(newKey) || null;
+
+  const optionsChanged = oldLabel !== newLabel;
+  const keyChanged = optionsChanged || oldKey.status !== newKey.status;
+  let invalidated = 0;
+
+  if (keyChanged) {
+    const { error: logErr } = await admin.from("answer_key_changes").insert({
+      question_id: p.questionId,
+      old_option: oldLabel,
+      new_option: newLabel,
+      old_status: oldKey.status,
+      new_status: newKey.status,
+      reason: p.reason?.trim() || null,
+      changed_by: p.adminId,
+    });
+    if (logErr) throw logErr;
+  }
+
+  if (optionsChanged) {
+    invalidated = await invalidateAnalyses(
+      admin,
+      p.questionId,
+      `answer key ${oldLabel ?? "—"} → ${newLabel ?? "—"}`
+    );
+  }
+
+  return { question: after as AdminQuestion, keyChanged, invalidated };
+}
+
+export async function getAnswerKeyLog(
+  admin: SupabaseClient,
+  questionId?: number,
+  limit = 50
+): Promise<AnswerKeyChange[]> {
+  let q = admin
+    .from("answer_key_changes")
+    .select("id, question_id, old_option, new_option, old_status, new_status, reason, changed_by, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (questionId) q = q.eq("question_id", questionId);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as AnswerKeyChange[];
+}
+
+/* -------------------------------------------------------
+   Analyses
+------------------------------------------------------- */
+
+export type VersionSummary = {
+  version: number;
+  official_answer: string | null;
+  created_at: string;
+  invalidated_at: string | null;
+  invalidated_reason: string | null;
+};
+
+export async function listAnalysisVersions(
+  admin: SupabaseClient,
+  questionId: number
+): Promise<VersionSummary[]> {
+  const { data, error } = await admin
+    .from("question_analysis_versions")
+    .select("version, official_answer, created_at, invalidated_at, invalidated_reason")
+    .eq("question_id", questionId)
+    .order("version", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as VersionSummary[];
+}
+
+/** Invalidates the current analysis and generates a fresh version against today's key. */
+export async function regenerateAnalysis(
+  admin: SupabaseClient,
+  questionId: number,
+  adminId: string,
+  opts: Pick<GenerateOptions, "onLlmCall"> = {}
+): Promise<AnalysisVersion> {
+  const { data: q, error } = await admin
+    .from("questions")
+    .select(ADMIN_QUESTION_COLUMNS)
+    .eq("id", questionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!q) throw new Error("Question not found");
+
+  const answerKey = answerKeyOf(q);
+  if (!isGradable(answerKey) && answerKey.status !== "dropped") {
+    throw new Error("Question has no valid correct_option");
+  }
+
+  const analysis = await generateQuestionAnalysis(
+    {
+      questionText: q.question_text ?? "",
+      options: {
+        A: q.option_a ?? "",
+        B: q.option_b ?? "",
+        C: q.option_c ?? "",
+        D: q.option_d ?? "",
+      },
+      answerKey,
+    },
+    opts
+  );
+
+  // Only retire the old version once the new one is in hand
+  await invalidateAnalyses(admin, questionId, "regenerated by admin");
+
+  return saveAnalysisVersion(admin, {
+    questionId,
+    analysis,
+    officialAnswer: answerLabel(answerKey),
+    createdBy: adminId,
+  });
+}
+
+/* -------------------------------------------------------
+   Feedback
+------------------------------------------------------- */
+
+export type FeedbackSummary = {
+  question_id: number;
+  negative: number; // rating ≤ 2 or an error report
+  total: number;
+  avg_rating: number | null;
+  last_at: string;
+  recent_comments: string[];
+  question?: Pick<AdminQuestion, "id" | "year" | "question_number" | "subject" | "question_text">;
+};
+
+// recent window is enough to surface what's hurting users now
+const FEEDBACK_SCAN = 5000;
+
+export async function negativeFeedbackSummary(
+  admin: SupabaseClient,
+  limit = 30
+): Promise<FeedbackSummary[]> {
+  const { data, error } = await admin
+    .from("ai_feedback")
+    .select("question_id, rating, comment, context, created_at")
+    .order("created_at", { ascending: false })
+    .limit(FEEDBACK_SCAN);
+
+  if (error) throw error;
+
+  const map = new Map<number, FeedbackSummary & { ratingSum: number; ratingCount: number }>();
+
+  for (const f of data ?? []) {
+    const qid = f.question_id as number;
+    if (!qid) continue;
+
+    const cur =
+      map.get(qid) ??
+      {
+        question_id: qid,
+        negative: 0,
+        total: 0,
+        avg_rating: null,
+        last_at: f.created_at as string,
+        recent_comments: [],
+        ratingSum: 0,
+        ratingCount: 0,
+      };
+
+    const rating = typeof f.rating === "number" ? f.rating : null;
+    const isNegative = f.context === "error" || (rating !== null && rating <= 2);
+
+    cur.total += 1;
+    if (rating !== null) {
+      cur.ratingSum += rating;
+      cur.ratingCount += 1;
+    }
+    if (isNegative) {
+      cur.negative += 1;
+      if (f.comment && cur.recent_comments.length < 3) cur.recent_comments.push(String(f.comment));
+    }
+
+    map.set(qid, cur);
+  }
+
+  const top = Array.from(map.values())
+    .filter((s) => s.negative > 0)
+    .sort((a, b) => b.negative - a.negative || b.last_at.localeCompare(a.last_at))
+    .slice(0, limit)
+    .map(({ ratingSum, ratingCount, ...s }) => ({
+      ...s,
+      avg_rating: ratingCount ? Math.round((ratingSum / ratingCount) * 10) / 10 : null,
+    }));
+
+  if (!top.length) return [];
+
+  const { data: qs, error: qErr } = await admin
+    .from("questions")
+    .select("id, year, question_number, subject, question_text")
+    .in(
+      "id",
+      top.map((t) => t.question_id)
+    );
+
+  if (qErr) throw qErr;
+  const byId = new Map((qs ?? []).map((q) => [q.id as number, q]));
+
+  return top.map((t) => ({ ...t, question: byId.get(t.question_id) }));
+}
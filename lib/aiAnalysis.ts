@@ -1,5 +1,5 @@
 // lib/aiAnalysis.ts
-// Types + normalizer for the analysis payload returned by /test-ai
+// Types + normalizer for the analysis payload returned by /api/analysis
 
 export type StatementVerdict = "correct" | "incorrect" | "unknown";
 
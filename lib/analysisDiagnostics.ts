@@ -0,0 +1,99 @@
+// lib/analysisDiagnostics.ts
+// Admin prompt-debugging: run the analysis prompt for one question against one or more
+// provider/model variants and return the outputs side by side with time, tokens and
+// cost (GET /api/admin/diagnostics). Nothing is saved or unlocked; every call is logged
+// with its cost, since each one is billed.
+import type { QuestionAnalysisV1 } from "@/lib/aiAnalysis";
+import type { AnswerKey } from "@/lib/answerKey";
+import type { LlmCall } from "@/lib/generateQuestionAnalysis";
+import { generateQuestionAnalysis } from "@/lib/generateQuestionAnalysis";
+import type { ProviderKind } from "@/lib/llmProvider";
+import { createLlmProvider, getLlmConfig, llmConfigProblem } from "@/lib/llmProvider";
+import { estimateCostUsd, formatUsd } from "@/lib/llmCost";
+
+export const PROVIDER_KINDS: ProviderKind[] = ["openai", "openai-compatible", "fixture"];
+export const MAX_VARIANTS = 3;
+
+export type Variant = { provider: ProviderKind; model: string | null }; // null → env model
+
+export type DiagnosticsCall = LlmCall & { costUsd: number | null };
+
+export type VariantResult = {
+  label: string; // "openai / gpt-4.1-mini"
+  provider: ProviderKind;
+  model: string;
+  ms: number;
+  calls: DiagnosticsCall[];
+  costUsd: number | null; // null when any call's price is unknown
+  analysis: QuestionAnalysisV1 | null;
+  error: string | null;
+};
+
+const MODEL_RE = /^[\w.:/-]{1,80}$/;
+
+/** "openai:gpt-4o" / "fixture" → Variant; null when malformed. */
+export function parseVariant(raw: string): Variant | null {
+  const [providerRaw, ...rest] = raw.trim().split(":");
+  const provider = providerRaw.trim().toLowerCase() as ProviderKind;
+  if (!PROVIDER_KINDS.includes(provider)) return null;
+
+  const model = rest.join(":").trim();
+  if (model && !MODEL_RE.test(model)) return null;
+  return { provider, model: model || null };
+}
+
+export function variantParam(v: Variant) {
+  return v.model ? `${v.provider}:${v.model}` : v.provider;
+}
+
+export async function runVariant(
+  variant: Variant,
+  input: { questionText: string; options: { A?: string; B?: string; C?: string; D?: string }; answerKey: AnswerKey },
+  log: (line: string) => void,
+  onLlmCall?: (call: LlmCall) => void // persisted accounting (lib/llmUsage.ts)
+): Promise<VariantResult> {
+  const config = getLlmConfig(process.env, {
+    provider: variant.provider,
+    ...(variant.model ? { model: variant.model } : {}),
+  });
+  const model = variant.provider === "fixture" ? "fixture" : config.model;
+  const label = `${variant.provider} / ${model}`;
+  const calls: DiagnosticsCall[] = [];
+  const startedAt = Date.now();
+
+  const result = (analysis: QuestionAnalysisV1 | null, error: string | null): VariantResult => ({
+    label,
+    provider: variant.provider,
+    model,
+    ms: Date.now() - startedAt,
+    calls,
+    costUsd: calls.some((c) => c.costUsd === null)
+      ? null
+      : calls.reduce((sum, c) => sum + (c.costUsd ?? 0), 0),
+    analysis,
+    error,
+  });
+
+  // A broken config is reported as the result for this variant, not thrown
+  const problem = llmConfigProblem(config);
+  if (problem) return result(null, problem);
+
+  try {
+    const analysis = await generateQuestionAnalysis(input, {
+      provider: createLlmProvider(config),
+      onLlmCall: (call) => {
+        const costUsd = estimateCostUsd(call.model, call.usage);
+        calls.push({ ...call, costUsd });
+        onLlmCall?.(call);
+        const tokens = call.usage ? `${call.usage.promptTokens}+${call.usage.completionTokens}` : "?";
+        log(
+          `${label} attempt=${call.attempt} model=${call.model} tokens=${tokens} cost=${formatUsd(costUsd)} ` +
+            `${call.ms}ms${call.weak ? " weak" : ""}`
+        );
+      },
+    });
+    return result(analysis, null);
+  } catch (e) {
+    return result(null, e instanceof Error ? e.message : "Generation failed");
+  }
+}
@@ -0,0 +1,198 @@
+// lib/analysisEval.ts
+// Rule-based scoring for the offline analysis eval (npm run eval:analysis). Each pinned
+// case is generated once and checked for: the model keeping the official answer, one
+// statement block per numbered statement, sourced facts, generic filler, and a sane
+// confidence. Pure, so the report is the same on every machine for the same outputs.
+import { createHash } from "crypto";
+import type { QuestionAnalysisV1 } from "@/lib/aiAnalysis";
+import type { KeyedRow } from "@/lib/answerKey";
+import { answerKeyOf, answerLabel } from "@/lib/answerKey";
+import { buildPrompt, GENERIC_FACT_PHRASES, GENERIC_TOPIC_PHRASES } from "@/lib/generateQuestionAnalysis";
+
+export type EvalCase = KeyedRow & {
+  id: string; // stable slug; recordings and report lines are keyed by it
+  question_text: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  expected_statements?: number | null; // overrides countStatements; null = not a statement question
+  confidence?: [number, number]; // acceptable ai_verdict.confidence range
+  note?: string;
+};
+
+export const CHECKS = [
+  "answer_respected",
+  "statement_count",
+  "source_coverage",
+  "generic_phrases",
+  "confidence_range",
+] as const;
+export type CheckName = (typeof CHECKS)[number];
+
+export type CheckResult = {
+  check: CheckName;
+  status: "pass" | "fail" | "n/a";
+  detail: string;
+};
+
+// Below 40 the verdict should have been a skip; 100 on a recall question is overclaiming
+export const DEFAULT_CONFIDENCE: [number, number] = [40, 95];
+// Share of facts that must name a specific source (not "Other" or "Standard book")
+export const MIN_SOURCE_COVERAGE = 0.6;
+
+/** Numbered statements in the question ("1. …", "2) …"), or null when there are fewer than two. */
+export function countStatements(questionText: string): number | null {
+  let n = 0;
+  while (new RegExp(`(^|\\s)${n + 1}[.)]\\s`).test(questionText)) n++;
+  return n >= 2 ? n : null;
+}
+
+function rawField(raw: unknown, path: string[]): unknown {
+  let cur = raw;
+  for (const key of path) {
+    if (!cur || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[key];
+  }
+  return cur;
+}
+
+/**
+ * `analysis` is the final (post-processed) output; `raw` is the parsed model JSON it
+ * came from. The answer and confidence checks read `raw`, since post-processing
+ * overwrites correct_answer with the key and clamps confidence.
+ */
+export function scoreAnalysis(c: EvalCase, analysis: QuestionAnalysisV1, raw: unknown): CheckResult[] {
+  const key = answerKeyOf(c);
+  const label = answerLabel(key);
+  const results: CheckResult[] = [];
+
+  // Answer: the model's own correct_answer, and a skip for dropped questions
+  const rawAnswer = String(rawField(raw, ["correct_answer"]) ?? "").trim().toUpperCase();
+  const recommendation = analysis.strategy.ai_verdict.recommendation;
+  const answerOk = rawAnswer === label && (key.status !== "dropped" || recommendation === "skip");
+  results.push({
+    check: "answer_respected",
+    status: answerOk ? "pass" : "fail",
+    detail: `model ${rawAnswer || "—"}, key ${label}${key.status === "dropped" ? `, verdict ${recommendation}` : ""}`,
+  });
+
+  const expected =
+    c.expected_statements !== undefined ? c.expected_statements : countStatements(c.question_text);
+  const got = analysis.statements.length;
+  results.push(
+    expected === null
+      ? { check: "statement_count", status: "n/a", detail: `${got} blocks, not a statement question` }
+      : { check: "statement_count", status: got === expected ? "pass" : "fail", detail: `${got} of ${expected}` }
+  );
+
+  const facts = analysis.statements.flatMap((s) => s.facts);
+  const specific = facts.filter((f) => f.source.name !== "Other" && f.source.name !== "Standard book");
+  const coverage = facts.length ? specific.length / facts.length : 0;
+  results.push({
+    check: "source_coverage",
+    status: facts.length && coverage >= MIN_SOURCE_COVERAGE ? "pass" : "fail",
+    detail: `${specific.length}/${facts.length} facts with a specific source`,
+  });
+
+  const text = [
+    ...analysis.topic_brief.bullets,
+    ...facts.map((f) => f.fact),
+  ].map((t) => t.toLowerCase());
+  const phrases = [...new Set([...GENERIC_TOPIC_PHRASES, ...GENERIC_FACT_PHRASES])];
+  const hits = phrases.filter((p) => text.some((t) => t.includes(p)));
+  results.push({
+    check: "generic_phrases",
+    status: hits.length ? "fail" : "pass",
+    detail: hits.length ? hits.map((h) => `"${h}"`).join(", ") : "none",
+  });
+
+  const [min, max] = c.confidence ?? DEFAULT_CONFIDENCE;
+  const rawConfidence = Number(rawField(raw, ["strategy", "ai_verdict", "confidence"]));
+  results.push({
+    check: "confidence_range",
+    status: Number.isFinite(rawConfidence) && rawConfidence >= min && rawConfidence <= max ? "pass" : "fail",
+    detail: `${Number.isFinite(rawConfidence) ? rawConfidence : "missing"} (want ${min}–${max})`,
+  });
+
+  return results;
+}
+
+// Fixed input, so the hash moves only when the template does
+const PROMPT_PROBE: EvalCase = {
+  id: "probe",
+  question_text: "Consider the following statements: 1. Probe one. 2. Probe two.",
+  option_a: "1 only",
+  option_b: "2 only",
+  option_c: "Both 1 and 2",
+  option_d: "Neither 1 nor 2",
+  correct_option: "C",
+};
+
+export function generateInput(c: EvalCase) {
+  return {
+    questionText: c.question_text,
+    options: { A: c.option_a, B: c.option_b, C: c.option_c, D: c.option_d },
+    answerKey: answerKeyOf(c),
+  };
+}
+
+export function hashText(text: string) {
+  return createHash("sha256").update(text).digest("hex").slice(0, 12);
+}
+
+export function promptVersion() {
+  return hashText(buildPrompt(generateInput(PROMPT_PROBE)));
+}
+
+/* -------------------------------------------------------
+   Report (stable key order, no timestamps: meant to be diffed)
+------------------------------------------------------- */
+
+export type CaseReport = {
+  id: string;
+  calls: number; // 2 = the weak-output retry fired
+  weak: boolean[]; // per call
+  fallback: boolean; // every call was weak → canned fallback analysis
+  error: string | null;
+  score: string; // "4/5" (n/a checks excluded)
+  checks: CheckResult[];
+};
+
+export type EvalReport = {
+  llm: string; // "fixture" | "replay" | "live:<model>"
+  prompt: string; // promptVersion(): changes whenever buildPrompt does
+  cases: CaseReport[];
+  totals: Record<CheckName, string>; // passed/applicable per check
+};
+
+export function caseScore(checks: CheckResult[]) {
+  const applicable = checks.filter((c) => c.status !== "n/a");
+  return `${applicable.filter((c) => c.status === "pass").length}/${applicable.length}`;
+}
+
+export function checkTotals(cases: CaseReport[]): Record<CheckName, string> {
+  const totals = {} as Record<CheckName, string>;
+  for (const name of CHECKS) {
+    const results = cases.flatMap((c) => c.checks.filter((r) => r.check === name && r.status !== "n/a"));
+    totals[name] = `${results.filter((r) => r.status === "pass").length}/${results.length}`;
+  }
+  return totals;
+}
+
+export function formatReport(report: EvalReport): string {
+  const lines = [`llm=${report.llm} prompt=${report.prompt} cases=${report.cases.length}`, ""];
+  const width = Math.max(...report.cases.map((c) => c.id.length), 4);
+
+  for (const c of report.cases) {
+    const retry = c.fallback ? " fallback" : c.calls > 1 ? " retried" : "";
+    lines.push(`${c.id.padEnd(width)}  ${c.score}${retry}${c.error ? `  ERROR ${c.error}` : ""}`);
+    for (const r of c.checks) {
+      lines.push(`  ${r.status.padEnd(4)}  ${r.check.padEnd(16)}  ${r.detail}`);
+    }
+  }
+
+  lines.push("", "totals");
+  for (const name of CHECKS) lines.push(`  ${name.padEnd(16)}  ${report.totals[name]}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,170 @@
+// lib/analysisStore.ts
+// Canonical, versioned analyses shared by all users + per-user unlock records.
+//
+// question_analysis_versions: one row per (question_id, version); the highest version that
+//                             hasn't been invalidated (e.g. after an answer-key fix) is current.
+// analysis_unlocks:           one row per (user_id, question_id); drives the free quota.
+//
+// Writes go through the service-role client; users can only read versions of
+// questions they have unlocked (see supabase/migrations).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { QuestionAnalysisV1 } from "@/lib/aiAnalysis";
+import { normalizeQuestionAnalysisV1 } from "@/lib/aiAnalysis";
+
+export type AnalysisVersion = {
+  questionId: number;
+  version: number;
+  analysis: QuestionAnalysisV1;
+  createdAt: string | null;
+};
+
+type VersionRow = {
+  question_id: number;
+  version: number;
+  analysis: unknown;
+  created_at: string | null;
+};
+
+function toVersion(row: VersionRow): AnalysisVersion {
+  return {
+    questionId: row.question_id,
+    version: row.version,
+    analysis: normalizeQuestionAnalysisV1(row.analysis),
+    createdAt: row.created_at ?? null,
+  };
+}
+
+export async function getLatestAnalysis(
+  db: SupabaseClient,
+  questionId: number
+): Promise<AnalysisVersion | null> {
+  const { data, error } = await db
+    .from("question_analysis_versions")
+    .select("question_id, version, analysis, created_at")
+    .eq("question_id", questionId)
+    .is("invalidated_at", null)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toVersion(data as VersionRow) : null;
+}
+
+/** Highest version number ever used, including invalidated ones. */
+async function maxVersion(db: SupabaseClient, questionId: number): Promise<number> {
+  const { data, error } = await db
+    .from("question_analysis_versions")
+    .select("version")
+    .eq("question_id", questionId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.version as number | undefined) ?? 0;
+}
+
+/**
+ * Retires every current version of a question (next request regenerates) and drops the
+ * legacy per-user question_analysis rows. Unlocks are kept, so nobody pays twice.
+ */
+export async function invalidateAnalyses(
+  admin: SupabaseClient,
+  questionId: number,
+  reason: string
+): Promise<number> {
+  const { data, error } = await admin
+    .from("question_analysis_versions")
+    .update({ invalidated_at: new Date().toISOString(), invalidated_reason: reason })
+    .eq("question_id", questionId)
+    .is("invalidated_at", null)
+    .select("version");
+
+  if (error) throw error;
+
+  const { error: legacyErr } = await admin
+    .from("question_analysis")
+    .delete()
+    .eq("question_id", questionId);
+
+  if (legacyErr) throw legacyErr;
+  return data?.length ?? 0;
+}
+
+/**
+ * Stores `analysis` as the next version for the question.
+ * If another request created the same version first, that row wins and is returned.
+ */
+export async function saveAnalysisVersion(
+  admin: SupabaseClient,
+  params: {
+    questionId: number;
+    analysis: QuestionAnalysisV1;
+    officialAnswer: string;
+    createdBy: string | null;
+  }
+): Promise<AnalysisVersion> {
+  const version = (await maxVersion(admin, params.questionId)) + 1;
+
+  const { data, error } = await admin
+    .from("question_analysis_versions")
+    .insert({
+      question_id: params.questionId,
+      version,
+      analysis: params.analysis,
+      official_answer: params.officialAnswer,
+      created_by: params.createdBy,
+    })
+    .select("question_id, version, analysis, created_at")
+    .single();
+
+  if (error) {
+    // 23505 = unique_violation: a concurrent request saved this version already
+    if (error.code === "23505") {
+      const winner = await getLatestAnalysis(admin, params.questionId);
+      if (winner) return winner;
+    }
+    throw error;
+  }
+
+  return toVersion(data as VersionRow);
+}
+
+export async function hasUnlocked(
+  db: SupabaseClient,
+  userId: string,
+  questionId: number
+): Promise<boolean> {
+  const { data, error } = await db
+    .from("analysis_unlocks")
+    .select("question_id")
+    .eq("user_id", userId)
+    .eq("question_id", questionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+export async function countUnlocks(db: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await db
+    .from("analysis_unlocks")
+    .select("*", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** Idempotent: unlocking an already-unlocked question is a no-op. */
+export async function recordUnlock(admin: SupabaseClient, userId: string, questionId: number) {
+  const { error } = await admin
+    .from("analysis_unlocks")
+    .upsert(
+      { user_id: userId, question_id: questionId },
+      { onConflict: "user_id,question_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
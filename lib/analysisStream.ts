@@ -0,0 +1,211 @@
+// lib/analysisStream.ts
+// Progressive delivery of QuestionAnalysisV1 over NDJSON (one JSON event per line).
+//
+// Server: generateQuestionAnalysis({ onSection }) emits sections as soon as each one
+//         is complete in the model's JSON stream; /api/analysis?stream=1 forwards them.
+// Client: readAnalysisStream() + applyAnalysisEvent() build a PartialAnalysis that
+//         AnalysisTabs can render while the rest is still generating.
+import type {
+  QuestionAnalysisV1,
+  StatementBlock,
+  StrategyV1,
+  TopicBrief,
+} from "@/lib/aiAnalysis";
+
+export type AnalysisSection =
+  | { type: "topic_brief"; topic_brief: TopicBrief }
+  | { type: "statement"; statement: StatementBlock }
+  | { type: "strategy"; strategy: StrategyV1 }
+  // discard everything streamed so far (weak output → retry, or fallback analysis)
+  | { type: "reset" };
+
+export type AnalysisStreamEvent =
+  | AnalysisSection
+  | {
+      type: "done";
+      cached: boolean;
+      quotaSpent?: boolean;
+      analysis: QuestionAnalysisV1;
+      analysisVersion?: number;
+      analysisUpdatedAt?: string | null;
+      warning?: string;
+    }
+  | { type: "error"; error: string; details?: string };
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+export function encodeAnalysisEvent(ev: AnalysisStreamEvent): string {
+  return JSON.stringify(ev) + "\n";
+}
+
+/* -------------------------------------------------------
+   Incremental section parser (server side)
+------------------------------------------------------- */
+
+export type RawSection =
+  | { key: "topic_brief"; value: unknown }
+  | { key: "statement"; value: unknown }
+  | { key: "strategy"; value: unknown };
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Scans a streamed JSON object and returns each top-level section the moment its
+ * closing bracket arrives: `topic_brief`, every element of `statements`, `strategy`.
+ * Other keys (e.g. correct_answer) are skipped — the server overrides them anyway.
+ */
+export function createSectionParser() {
+  let buf = "";
+  let i = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = "";
+  let key: string | null = null;
+  let awaitingValue = false;
+  let valueStart = -1;
+  let elemStart = -1;
+
+  return {
+    push(chunk: string): RawSection[] {
+      buf += chunk;
+      const out: RawSection[] = [];
+
+      for (; i < buf.length; i++) {
+        const c = buf[i];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (c === "\\") escaped = true;
+          else if (c === '"') {
+            inString = false;
+            if (depth === 1) lastString = String(tryParse(buf.slice(stringStart, i + 1)) ?? "");
+          }
+          continue;
+        }
+
+        if (c === '"') {
+          inString = true;
+          stringStart = i;
+          if (depth === 1 && awaitingValue) awaitingValue = false; // primitive value
+          continue;
+        }
+
+        if (c === ":" && depth === 1) {
+          key = lastString;
+          awaitingValue = true;
+          continue;
+        }
+
+        if (c === "{" || c === "[") {
+          if (depth === 1 && awaitingValue) {
+            awaitingValue = false;
+            valueStart = i;
+          }
+          depth++;
+          if (depth === 3 && key === "statements" && c === "{") elemStart = i;
+          continue;
+        }
+
+        if (c === "}" || c === "]") {
+          depth--;
+
+          if (depth === 2 && key === "statements" && c === "}" && elemStart >= 0) {
+            const value = tryParse(buf.slice(elemStart, i + 1));
+            if (value !== undefined) out.push({ key: "statement", value });
+            elemStart = -1;
+          }
+
+          if (depth === 1 && valueStart >= 0) {
+            if (key === "topic_brief" || key === "strategy") {
+              const value = tryParse(buf.slice(valueStart, i + 1));
+              if (value !== undefined) out.push({ key, value });
+            }
+            valueStart = -1;
+          }
+          continue;
+        }
+
+        if (c === "," && depth === 1) {
+          key = null;
+          awaitingValue = false;
+          valueStart = -1;
+          continue;
+        }
+
+        if (awaitingValue && depth === 1 && !/\s/.test(c)) awaitingValue = false; // number/bool
+      }
+
+      return out;
+    },
+  };
+}
+
+/* -------------------------------------------------------
+   Client side
+------------------------------------------------------- */
+
+/** What the UI can render mid-stream. A full QuestionAnalysisV1 is also a PartialAnalysis. */
+export type PartialAnalysis = {
+  correct_answer: string;
+  topic_brief: TopicBrief | null;
+  statements: StatementBlock[];
+  strategy: StrategyV1 | null;
+};
+
+export function emptyPartialAnalysis(correctAnswer: string): PartialAnalysis {
+  return { correct_answer: correctAnswer, topic_brief: null, statements: [], strategy: null };
+}
+
+export function applyAnalysisEvent(p: PartialAnalysis, ev: AnalysisStreamEvent): PartialAnalysis {
+  switch (ev.type) {
+    case "topic_brief":
+      return { ...p, topic_brief: ev.topic_brief };
+    case "statement":
+      return { ...p, statements: [...p.statements, ev.statement] };
+    case "strategy":
+      return { ...p, strategy: ev.strategy };
+    case "reset":
+      return emptyPartialAnalysis(p.correct_answer);
+    default:
+      return p;
+  }
+}
+
+/** Reads an NDJSON body line by line. Rejects with AbortError if the fetch is aborted. */
+export async function readAnalysisStream(
+  res: Response,
+  onEvent: (ev: AnalysisStreamEvent) => void
+): Promise<void> {
+  if (!res.body) throw new Error("Empty analysis stream");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  const flush = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const ev = tryParse(trimmed) as AnalysisStreamEvent | undefined;
+    if (ev && typeof ev === "object" && "type" in ev) onEvent(ev);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    lines.forEach(flush);
+  }
+
+  flush(pending + decoder.decode());
+}
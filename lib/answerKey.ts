@@ -0,0 +1,85 @@
+// lib/answerKey.ts
+// Answer-key status per question. UPSC publishes a provisional key, then a final key in
+// which some questions are dropped (no marks for anyone) or accept more than one option.
+//
+//   questions.key_status        provisional | final (default) | dropped | multiple_correct
+//   questions.correct_option    the single official option (provisional / final)
+//   questions.accepted_options  every option awarded marks when multiple_correct
+import { normalizeOption } from "@/lib/scoring";
+
+export type KeyStatus = "provisional" | "final" | "dropped" | "multiple_correct";
+export type OptionKey = "A" | "B" | "C" | "D";
+
+export const KEY_STATUSES: KeyStatus[] = ["provisional", "final", "dropped", "multiple_correct"];
+
+export type AnswerKey = {
+  status: KeyStatus;
+  /** options that score; empty when dropped (or the key is missing) */
+  accepted: OptionKey[];
+};
+
+/** correct: scores; wrong: penalised; void: dropped / no key, neither */
+export type Grade = "correct" | "wrong" | "unattempted" | "void";
+
+export type KeyedRow = {
+  correct_option?: string | null;
+  key_status?: string | null;
+  accepted_options?: string[] | null;
+};
+
+export function normalizeKeyStatus(x: unknown): KeyStatus {
+  const s = String(x ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return (KEY_STATUSES as string[]).includes(s) ? (s as KeyStatus) : "final";
+}
+
+export function answerKeyOf(row: KeyedRow | null | undefined): AnswerKey {
+  const status = normalizeKeyStatus(row?.key_status);
+  if (status === "dropped") return { status, accepted: [] };
+
+  const accepted = new Set<OptionKey>();
+  const primary = normalizeOption(row?.correct_option);
+  if (primary) accepted.add(primary);
+
+  if (status === "multiple_correct") {
+    for (const o of row?.accepted_options ?? []) {
+      const n = normalizeOption(o);
+      if (n) accepted.add(n);
+    }
+  }
+
+  return { status, accepted: Array.from(accepted).sort() };
+}
+
+/** A key that can score an answer (dropped or missing keys can't). */
+export function isGradable(key: AnswerKey) {
+  return key.accepted.length > 0;
+}
+
+export function gradeAnswer(key: AnswerKey, selected: unknown): Grade {
+  const sel = normalizeOption(selected);
+  if (!sel) return "unattempted";
+  if (!isGradable(key)) return "void";
+  return key.accepted.includes(sel) ? "correct" : "wrong";
+}
+
+/** question_attempts.is_correct for a graded answer (null = not scored). */
+export function gradeToIsCorrect(g: Grade): boolean | null {
+  return g === "correct" ? true : g === "wrong" ? false : null;
+}
+
+/**
+ * Short form stored as analysis.correct_answer / official_answer:
+ * "B", "A/C" (multiple correct) or "DROPPED". Empty when there is no key.
+ */
+export function answerLabel(key: AnswerKey): string {
+  if (key.status === "dropped") return "DROPPED";
+  return key.accepted.join("/");
+}
+
+/** For people: "B", "A or C", "Dropped", "B (provisional)". */
+export function describeKey(key: AnswerKey): string {
+  if (key.status === "dropped") return "Dropped by UPSC";
+  if (!key.accepted.length) return "No key";
+  const opts = key.accepted.join(" or ");
+  return key.status === "provisional" ? `${opts} (provisional)` : opts;
+}
@@ -0,0 +1,125 @@
+// lib/attemptEvents.ts
+// One question_attempts row per answer (never overwritten), carrying how it was answered:
+//
+//   time_spent_ms          question shown → answer checked (mock: summed across visits)
+//   confidence             self-reported before checking: sure | fifty_fifty | guess
+//   analysis_opened_first  the analysis was already on screen when the answer was given
+//   session_id             one per practice page load / mock paper
+//
+// accuracyByConfidence is the "should I have attempted that?" view on the profile:
+// what each confidence level actually scores under UPSC negative marking.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { MARKS_CORRECT, MARKS_WRONG } from "@/lib/scoring";
+
+export type Confidence = "sure" | "fifty_fifty" | "guess";
+
+export const CONFIDENCE_LEVELS: Confidence[] = ["sure", "fifty_fifty", "guess"];
+
+export const CONFIDENCE_LABELS: Record<Confidence, string> = {
+  sure: "Sure",
+  fifty_fifty: "50-50",
+  guess: "Guess",
+};
+
+export type AttemptEventInsert = {
+  user_id: string;
+  question_id: number;
+  selected_option: string;
+  is_correct: boolean | null;
+  time_spent_ms: number | null;
+  confidence: Confidence | null;
+  analysis_opened_first: boolean;
+  session_id: string | null;
+};
+
+// anything longer is a tab left open, not thinking time
+const MAX_TIME_MS = 30 * 60 * 1000;
+
+export function clampTimeSpent(ms: number | null | undefined): number | null {
+  if (ms == null || !Number.isFinite(ms) || ms < 0) return null;
+  return Math.min(Math.round(ms), MAX_TIME_MS);
+}
+
+export function newSessionId(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+/* -------------------------------------------------------
+   Reading the log
+------------------------------------------------------- */
+
+// PostgREST returns at most this many rows per request (Supabase default max-rows)
+const ATTEMPT_PAGE_ROWS = 1000;
+
+/**
+ * Every attempt of one user, oldest first, fetched in pages so long histories aren't
+ * cut off at the row cap. question_id breaks ties: a mock paper saves its answers in
+ * one insert with the same created_at.
+ */
+export async function fetchUserAttempts<T>(db: SupabaseClient, userId: string, columns: string): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += ATTEMPT_PAGE_ROWS) {
+    const { data, error } = await db
+      .from("question_attempts")
+      .select(columns)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("question_id", { ascending: true })
+      .range(from, from + ATTEMPT_PAGE_ROWS - 1);
+
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < ATTEMPT_PAGE_ROWS) return rows;
+  }
+}
+
+/* -------------------------------------------------------
+   Accuracy by confidence
+------------------------------------------------------- */
+
+export type ConfidenceStat = {
+  level: Confidence | "unrated";
+  attempts: number;
+  correct: number;
+  accuracyPct: number;
+  /** net marks per attempt at +2 / −0.66; below 0 means skipping would have scored more */
+  marksPerAttempt: number;
+  avgTimeSec: number | null;
+};
+
+export function accuracyByConfidence(
+  rows: { is_correct: boolean | null; confidence?: string | null; time_spent_ms?: number | null }[]
+): ConfidenceStat[] {
+  const buckets = new Map<ConfidenceStat["level"], { n: number; ok: number; t: number; tn: number }>();
+
+  for (const r of rows) {
+    if (r.is_correct === null) continue; // voided
+    const level = (CONFIDENCE_LEVELS as string[]).includes(r.confidence ?? "")
+      ? (r.confidence as Confidence)
+      : "unrated";
+    const b = buckets.get(level) ?? { n: 0, ok: 0, t: 0, tn: 0 };
+    b.n += 1;
+    if (r.is_correct) b.ok += 1;
+    if (typeof r.time_spent_ms === "number") {
+      b.t += r.time_spent_ms;
+      b.tn += 1;
+    }
+    buckets.set(level, b);
+  }
+
+  return [...CONFIDENCE_LEVELS, "unrated" as const]
+    .filter((level) => buckets.has(level))
+    .map((level) => {
+      const b = buckets.get(level)!;
+      const net = b.ok * MARKS_CORRECT + (b.n - b.ok) * MARKS_WRONG;
+      return {
+        level,
+        attempts: b.n,
+        correct: b.ok,
+        accuracyPct: Math.round((b.ok / b.n) * 100),
+        marksPerAttempt: Math.round((net / b.n) * 100) / 100,
+        avgTimeSec: b.tn ? Math.round(b.t / b.tn / 1000) : null,
+      };
+    });
+}
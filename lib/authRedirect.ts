@@ -0,0 +1,28 @@
+// lib/authRedirect.ts
+// The one post-login redirect parameter: /login?redirect=/practice%3Fshared%3D…
+// (also used by /onboarding). Only same-origin paths are honoured, so a crafted link
+// can't bounce a fresh login to another site.
+export const REDIRECT_PARAM = "redirect";
+export const DEFAULT_AFTER_LOGIN = "/practice";
+
+// Never send someone back to a page that would just redirect again
+const NO_RETURN = ["/login", "/logout", "/onboarding"];
+
+export function safeRedirect(value: string | null | undefined, fallback = DEFAULT_AFTER_LOGIN) {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return fallback;
+  }
+  const path = value.split(/[?#]/)[0];
+  if (NO_RETURN.some((p) => path === p || path.startsWith(`${p}/`))) return fallback;
+  return value;
+}
+
+/** "/login?redirect=%2Fprofile" */
+export function withRedirect(page: "/login" | "/onboarding", next: string) {
+  return `${page}?${REDIRECT_PARAM}=${encodeURIComponent(safeRedirect(next))}`;
+}
+
+/** Current page (path + query) as a redirect target; client only. */
+export function currentPath() {
+  return `${window.location.pathname}${window.location.search}`;
+}
@@ -0,0 +1,51 @@
+// lib/authSession.ts
+// Server-side view of the cookie session for proxy.ts. Reading the user may refresh an
+// expiring access token; the new cookies have to go out on whatever response the
+// proxy returns (pass-through or redirect), so callers finish with `respond`.
+import { createServerClient } from "@supabase/ssr";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+export type ProxySession = {
+  supabase: SupabaseClient;
+  user: User | null;
+  /** Pass-through (no url) or redirect, carrying any refreshed auth cookies. */
+  respond: (redirectTo?: URL) => NextResponse;
+};
+
+export async function getProxySession(request: NextRequest): Promise<ProxySession> {
+  let response = NextResponse.next({ request });
+  let cacheHeaders: Record<string, string> = {};
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet, headers) {
+          // visible to the page being rendered in this request, and to the browser
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+          cacheHeaders = headers;
+        },
+      },
+    }
+  );
+
+  // getUser() checks the token with Supabase Auth; the cookie alone could be forged
+  const { data } = await supabase.auth.getUser();
+
+  const respond = (redirectTo?: URL) => {
+    const out = redirectTo ? NextResponse.redirect(redirectTo) : response;
+    if (redirectTo) response.cookies.getAll().forEach((c) => out.cookies.set(c));
+    Object.entries(cacheHeaders).forEach(([k, v]) => out.headers.set(k, v));
+    return out;
+  };
+
+  return { supabase, user: data.user ?? null, respond };
+}
@@ -0,0 +1,192 @@
+// lib/collections.ts
+// Bookmarks + named question collections ("Polity traps", "Revise before exam").
+//
+// Bookmarks are just the user's collection with kind = 'bookmarks' (created on first
+// use), so everything that works on a collection — practising from it, sharing it —
+// works on bookmarks too. A shared collection is readable (never writable) by any
+// signed-in user who has the link: /practice?shared=<share_token>. RLS keeps the tables
+// owner-only; link holders go through get_shared_collection(), which never returns the
+// owner and can't be used to list other people's collections.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type CollectionKind = "bookmarks" | "custom";
+
+export type Collection = {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: CollectionKind;
+  is_shared: boolean;
+  share_token: string;
+  created_at: string;
+};
+
+/** What a link holder sees of someone else's collection (no owner id, no token). */
+export type SharedCollection = Pick<Collection, "id" | "name" | "kind" | "is_shared">;
+
+export type CollectionSummary = Collection & { itemCount: number };
+
+const COLLECTION_COLUMNS = "id, user_id, name, kind, is_shared, share_token, created_at";
+
+export const BOOKMARKS_NAME = "Bookmarks";
+const MAX_NAME_LENGTH = 80;
+
+export function collectionShareUrl(origin: string, shareToken: string) {
+  return `${origin}/practice?shared=${encodeURIComponent(shareToken)}`;
+}
+
+/** Bookmarks first, then newest. */
+export async function listMyCollections(
+  client: SupabaseClient,
+  userId: string
+): Promise<CollectionSummary[]> {
+  const { data, error } = await client
+    .from("collections")
+    .select(`${COLLECTION_COLUMNS}, collection_items(count)`)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? [])
+    .map((row) => {
+      const { collection_items, ...c } = row as Collection & {
+        collection_items: { count: number }[] | null;
+      };
+      return { ...c, itemCount: collection_items?.[0]?.count ?? 0 };
+    })
+    .sort((a, b) => Number(b.kind === "bookmarks") - Number(a.kind === "bookmarks"));
+}
+
+/** One of the user's own collections with its question ids in the order they were added. */
+export async function getCollection(
+  client: SupabaseClient,
+  collectionId: string
+): Promise<{ collection: Collection; questionIds: number[] } | null> {
+  const { data: collection, error } = await client
+    .from("collections")
+    .select(COLLECTION_COLUMNS)
+    .eq("id", collectionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!collection) return null; // missing, or someone else's
+
+  const { data: items, error: iErr } = await client
+    .from("collection_items")
+    .select("question_id")
+    .eq("collection_id", collectionId)
+    .order("added_at", { ascending: true });
+
+  if (iErr) throw iErr;
+  return {
+    collection: collection as Collection,
+    questionIds: (items ?? []).map((i) => i.question_id as number),
+  };
+}
+
+/** A collection opened from a share link; null when the token is unknown or no longer shared. */
+export async function getSharedCollection(
+  client: SupabaseClient,
+  shareToken: string
+): Promise<{ collection: SharedCollection; questionIds: number[]; isOwner: boolean } | null> {
+  const { data, error } = await client.rpc("get_shared_collection", { p_token: shareToken });
+  if (error) throw error;
+
+  const row = ((data ?? []) as (SharedCollection & { is_owner: boolean; question_ids: number[] | null })[])[0];
+  if (!row) return null;
+
+  const { is_owner, question_ids, ...collection } = row;
+  return { collection, questionIds: (question_ids ?? []).map(Number), isOwner: is_owner };
+}
+
+export async function createCollection(
+  client: SupabaseClient,
+  p: { userId: string; name: string; kind?: CollectionKind }
+): Promise<Collection> {
+  const name = p.name.trim().slice(0, MAX_NAME_LENGTH);
+  if (!name) throw new Error("Collection name can't be empty.");
+
+  const { data, error } = await client
+    .from("collections")
+    .insert({ user_id: p.userId, name, kind: p.kind ?? "custom" })
+    .select(COLLECTION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as Collection;
+}
+
+export async function ensureBookmarks(client: SupabaseClient, userId: string): Promise<Collection> {
+  const { data, error } = await client
+    .from("collections")
+    .select(COLLECTION_COLUMNS)
+    .eq("user_id", userId)
+    .eq("kind", "bookmarks")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data as Collection;
+  return createCollection(client, { userId, name: BOOKMARKS_NAME, kind: "bookmarks" });
+}
+
+export async function updateCollection(
+  client: SupabaseClient,
+  collectionId: string,
+  patch: { name?: string; is_shared?: boolean }
+) {
+  const clean: { name?: string; is_shared?: boolean } = {};
+  if (patch.name !== undefined) {
+    clean.name = patch.name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!clean.name) throw new Error("Collection name can't be empty.");
+  }
+  if (patch.is_shared !== undefined) clean.is_shared = patch.is_shared;
+
+  const { error } = await client.from("collections").update(clean).eq("id", collectionId);
+  if (error) throw error;
+}
+
+export async function deleteCollection(client: SupabaseClient, collectionId: string) {
+  const { error } = await client.from("collections").delete().eq("id", collectionId);
+  if (error) throw error;
+}
+
+/* -------------------------------------------------------
+   Items
+------------------------------------------------------- */
+
+/** Ids of the user's collections that contain the question. */
+export async function collectionsContaining(
+  client: SupabaseClient,
+  userId: string,
+  questionId: number
+): Promise<string[]> {
+  const { data, error } = await client
+    .from("collection_items")
+    .select("collection_id, collections!inner(user_id)")
+    .eq("question_id", questionId)
+    .eq("collections.user_id", userId);
+
+  if (error) throw error;
+  return (data ?? []).map((r) => r.collection_id as string);
+}
+
+export async function setInCollection(
+  client: SupabaseClient,
+  p: { collectionId: string; questionId: number; include: boolean }
+) {
+  const { error } = p.include
+    ? await client
+        .from("collection_items")
+        .upsert(
+          { collection_id: p.collectionId, question_id: p.questionId },
+          { onConflict: "collection_id,question_id", ignoreDuplicates: true }
+        )
+    : await client
+        .from("collection_items")
+        .delete()
+        .eq("collection_id", p.collectionId)
+        .eq("question_id", p.questionId);
+
+  if (error) throw error;
+}
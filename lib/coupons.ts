@@ -0,0 +1,208 @@
+// lib/coupons.ts
+// Checkout codes: partner coupons (percent / flat off) and user referral codes.
+//
+// coupons:            campaign codes with expiry, total usage cap and per-user limit.
+// profiles.referral_code: every user's own code; a buyer using it gets REFERRAL_DISCOUNT_PCT
+//                     off and the referrer gets REFERRAL_BONUS_ANALYSES extra free analyses.
+// code_redemptions:   one row per paid order (written by /verify + webhook); reversed on a
+//                     full refund, which takes the referrer's bonus back.
+// code_reservations:  a hold taken when the order is created (reserveCheckoutCode) and
+//                     released if the payment fails; it lapses after CODE_HOLD_MINUTES.
+//                     The caps count paid redemptions + live holds, so one single-use code
+//                     can't sit on several unpaid orders at once. A payment that lands
+//                     after its hold lapsed is re-checked when it is redeemed.
+//
+// All reads/writes go through the service-role client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const REFERRAL_DISCOUNT_PCT = 10;
+export const REFERRAL_BONUS_ANALYSES = 10;
+export const CODE_HOLD_MINUTES = 30;
+
+// Razorpay rejects orders below ₹1
+export const MIN_ORDER_PAISE = 100;
+
+export type CouponKind = "percent" | "flat";
+
+export type Coupon = {
+  code: string;
+  kind: CouponKind;
+  /** percent: 1–100, flat: paise */
+  value: number;
+  expires_at: string | null;
+  max_uses: number | null;
+  per_user_limit: number;
+  active: boolean;
+};
+
+export type CheckoutCode = {
+  code: string;
+  kind: "coupon" | "referral";
+  discountPaise: number;
+  referrerId: string | null;
+};
+
+export type CheckoutCodeResult = { ok: true; applied: CheckoutCode } | { ok: false; error: string };
+
+export function normalizeCode(raw: unknown): string {
+  return String(raw ?? "").trim().toUpperCase();
+}
+
+/** Discount in paise, never taking the order below MIN_ORDER_PAISE. */
+export function discountFor(
+  amountPaise: number,
+  d: { kind: CouponKind; value: number }
+): number {
+  const raw =
+    d.kind === "percent"
+      ? Math.round((amountPaise * Math.min(100, Math.max(0, d.value))) / 100)
+      : Math.max(0, Math.round(d.value));
+
+  return Math.max(0, Math.min(raw, amountPaise - MIN_ORDER_PAISE));
+}
+
+/**
+ * Validates a code typed at checkout for this user + amount.
+ * Coupons are checked first; otherwise the code is looked up as a referral code.
+ * Usage caps are checked when the code is reserved (reserveCheckoutCode).
+ */
+export async function resolveCheckoutCode(
+  admin: SupabaseClient,
+  p: { code: string; userId: string; amountPaise: number; now?: Date }
+): Promise<CheckoutCodeResult> {
+  const code = normalizeCode(p.code);
+  const now = p.now ?? new Date();
+  if (!code) return { ok: false, error: "Enter a code" };
+
+  /* ---- coupon ---- */
+  const { data: coupon, error } = await admin
+    .from("coupons")
+    .select("code, kind, value, expires_at, max_uses, per_user_limit, active")
+    .eq("code", code)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (coupon) {
+    const c = coupon as Coupon;
+
+    if (!c.active) return { ok: false, error: "This code is no longer active" };
+    if (c.expires_at && new Date(c.expires_at).getTime() <= now.getTime()) {
+      return { ok: false, error: "This code has expired" };
+    }
+
+    return {
+      ok: true,
+      applied: {
+        code,
+        kind: "coupon",
+        discountPaise: discountFor(p.amountPaise, c),
+        referrerId: null,
+      },
+    };
+  }
+
+  /* ---- referral ---- */
+  const { data: referrer, error: refErr } = await admin
+    .from("profiles")
+    .select("id")
+    .eq("referral_code", code)
+    .maybeSingle();
+
+  if (refErr) throw refErr;
+  if (!referrer) return { ok: false, error: "Invalid code" };
+  if (referrer.id === p.userId) return { ok: false, error: "You can't use your own referral code" };
+
+  return {
+    ok: true,
+    applied: {
+      code,
+      kind: "referral",
+      discountPaise: discountFor(p.amountPaise, { kind: "percent", value: REFERRAL_DISCOUNT_PCT }),
+      referrerId: referrer.id as string,
+    },
+  };
+}
+
+/* -------------------------------------------------------
+   Holds (order created → paid / failed / lapsed)
+------------------------------------------------------- */
+
+export type CodeHoldResult = { ok: true; reservationId: string } | { ok: false; error: string };
+
+/**
+ * Checks the usage caps and holds one use of the code for this buyer, atomically (see
+ * reserve_checkout_code). Referral codes: one per buyer, whichever code it was.
+ */
+export async function reserveCheckoutCode(
+  admin: SupabaseClient,
+  p: { applied: CheckoutCode; userId: string }
+): Promise<CodeHoldResult> {
+  const { data, error } = await admin.rpc("reserve_checkout_code", {
+    p_code: p.applied.code,
+    p_kind: p.applied.kind,
+    p_user: p.userId,
+    p_hold_minutes: CODE_HOLD_MINUTES,
+  });
+  if (error) throw error;
+
+  const row = (Array.isArray(data) ? data[0] : data) as { reservation_id: string | null; error: string | null } | null;
+  if (!row?.reservation_id) return { ok: false, error: row?.error ?? "This code can't be used right now" };
+  return { ok: true, reservationId: row.reservation_id };
+}
+
+/** Ties the hold to the Razorpay order, so the payment outcome can settle it. */
+export async function attachCodeHold(admin: SupabaseClient, reservationId: string, orderId: string) {
+  const { error } = await admin.from("code_reservations").update({ order_id: orderId }).eq("id", reservationId);
+  if (error) throw error;
+}
+
+/** Gives the use back (order creation failed, or payment.failed for the order). */
+export async function releaseCodeHold(admin: SupabaseClient, by: { reservationId: string } | { orderId: string }) {
+  let q = admin
+    .from("code_reservations")
+    .update({ released_at: new Date().toISOString() })
+    .is("released_at", null);
+  q = "reservationId" in by ? q.eq("id", by.reservationId) : q.eq("order_id", by.orderId);
+
+  const { error } = await q;
+  if (error) throw error;
+}
+
+export type RedeemResult = "none" | "redeemed" | "over_cap";
+
+/**
+ * Marks the code on a paid order as used. Keyed by order_id, so /verify and the
+ * webhook can both call it and a captured order can only ever redeem once. A hold that
+ * lapsed before the payment is re-checked against the caps (redeem_checkout_code);
+ * "over_cap" means the slot went to someone else and the order was flagged instead.
+ */
+export async function redeemCheckoutCode(admin: SupabaseClient, orderId: string): Promise<RedeemResult> {
+  const { data, error } = await admin.rpc("redeem_checkout_code", { p_order_id: orderId });
+  if (error) throw error;
+  return (data as RedeemResult | null) ?? "none";
+}
+
+/** A fully refunded order no longer earns its referrer a bonus. */
+export async function reverseRedemption(admin: SupabaseClient, orderId: string) {
+  const { error } = await admin
+    .from("code_redemptions")
+    .update({ reversed_at: new Date().toISOString() })
+    .eq("order_id", orderId)
+    .is("reversed_at", null);
+
+  if (error) throw error;
+}
+
+/** Extra free analyses earned by referring paying users. */
+export async function getReferralBonus(admin: SupabaseClient, userId: string) {
+  const { count, error } = await admin
+    .from("code_redemptions")
+    .select("*", { count: "exact", head: true })
+    .eq("referrer_id", userId)
+    .eq("kind", "referral")
+    .is("reversed_at", null);
+
+  if (error) throw error;
+  return (count ?? 0) * REFERRAL_BONUS_ANALYSES;
+}
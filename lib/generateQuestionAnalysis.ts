@@ -1,5 +1,4 @@
 // lib/generateQuestionAnalysis.ts
-import OpenAI from "openai";
 import type {
   QuestionAnalysisV1,
   SourceRef,
@@ -7,15 +6,20 @@ import type {
   StatementVerdict,
 } from "@/lib/aiAnalysis";
 import { normalizeQuestionAnalysisV1 } from "@/lib/aiAnalysis";
+import type { LlmProvider, LlmRequest, LlmUsage } from "@/lib/llmProvider";
+import { getDefaultLlmProvider } from "@/lib/llmProvider";
+import type { AnalysisSection, RawSection } from "@/lib/analysisStream";
+import { createSectionParser } from "@/lib/analysisStream";
+import type { AnswerKey } from "@/lib/answerKey";
+import { answerLabel } from "@/lib/answerKey";
 
 export type GenerateInput = {
   questionText: string;
   options: { A?: string; B?: string; C?: string; D?: string };
-  officialAnswer: "A" | "B" | "C" | "D";
+  /** key status decides the prompt rules (final / provisional / multiple correct / dropped) */
+  answerKey: AnswerKey;
 };
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-
 function safeParseJSON(text: string): unknown {
   try {
     return JSON.parse(text);
@@ -167,31 +171,34 @@ function sanitizeSource(
    Quality checks (avoid template garbage)
 ------------------------------------------------------- */
 
+// Also scored by the offline eval (lib/analysisEval.ts)
+export const GENERIC_TOPIC_PHRASES = [
+  "core concept",
+  "key definition",
+  "where upsc hides confusion",
+  "what to recall vs what to deduce",
+  "general reference",
+];
+
+export const GENERIC_FACT_PHRASES = [
+  "matches the key concept",
+  "other options contradict",
+  "standard framing",
+  "general reference",
+  "directly matches the fact asked",
+];
+
 function looksGenericTopicBullets(bullets: string[]) {
   const joined = bullets.join(" | ").toLowerCase();
-  const badPhrases = [
-    "core concept",
-    "key definition",
-    "where upsc hides confusion",
-    "what to recall vs what to deduce",
-    "general reference",
-  ];
-  return badPhrases.some((p) => joined.includes(p));
+  return GENERIC_TOPIC_PHRASES.some((p) => joined.includes(p));
 }
 
 function looksGenericStatementFacts(facts: { fact: string }[]) {
   const joined = facts.map((f) => f.fact.toLowerCase()).join(" | ");
-  const bad = [
-    "matches the key concept",
-    "other options contradict",
-    "standard framing",
-    "general reference",
-    "directly matches the fact asked",
-  ];
-  return bad.some((p) => joined.includes(p));
+  return GENERIC_FACT_PHRASES.some((p) => joined.includes(p));
 }
 
-function analysisLooksWeak(a: QuestionAnalysisV1): boolean {
+export function analysisLooksWeak(a: QuestionAnalysisV1): boolean {
   const tb = a.topic_brief?.bullets ?? [];
   if (tb.length < 2) return true;
   if (looksGenericTopicBullets(tb)) return true;
@@ -222,16 +229,47 @@ function analysisLooksWeak(a: QuestionAnalysisV1): boolean {
    Prompt
 ------------------------------------------------------- */
 
-function buildPrompt(input: GenerateInput) {
-  const { questionText, options, officialAnswer } = input;
+function keyRules(key: AnswerKey) {
+  const label = answerLabel(key);
 
-  return `
-You are a UPSC Prelims (GS) expert.
+  if (key.status === "dropped") {
+    return `
+NON-NEGOTIABLE:
+- UPSC DROPPED this question from its final answer key: no option is awarded marks.
+- correct_answer MUST be "DROPPED". Do NOT pick an option as the answer.
+- Use the statement verdicts and logical_deduction to show what makes the question
+  ambiguous or flawed (e.g. two defensible options, outdated fact, faulty statement).
+- ai_verdict.recommendation MUST be "skip".`;
+  }
 
+  if (key.status === "multiple_correct") {
+    return `
 NON-NEGOTIABLE:
-- Official correct option is ${officialAnswer}.
-- correct_answer MUST be "${officialAnswer}".
-- Do NOT dispute the answer key.
+- UPSC accepted MORE THAN ONE option in the final key: ${key.accepted.join(" and ")}.
+- correct_answer MUST be "${label}".
+- Explain why each accepted option is defensible. Do NOT dispute the answer key.`;
+  }
+
+  const provisional =
+    key.status === "provisional"
+      ? `
+- This is the PROVISIONAL key; the final key may differ. Say so only if a statement is genuinely contested.`
+      : "";
+
+  return `
+NON-NEGOTIABLE:
+- Official correct option is ${label}.
+- correct_answer MUST be "${label}".
+- Do NOT dispute the answer key.${provisional}`;
+}
+
+// Exported for the offline eval, which hashes it to tell prompt versions apart
+export function buildPrompt(input: GenerateInput) {
+  const { questionText, options, answerKey } = input;
+
+  return `
+You are a UPSC Prelims (GS) expert.
+${keyRules(answerKey)}
 
 STYLE RULES (STRICT):
 - No generic filler lines.
@@ -244,7 +282,7 @@ STYLE RULES (STRICT):
 OUTPUT: Return ONLY JSON (no markdown, no extra text) in this schema:
 
 {
-  "correct_answer": "A|B|C|D",
+  "correct_answer": "A|B|C|D|A/C|DROPPED",
   "topic_brief": { "title": "string", "bullets": ["string"] },
   "statements": [
     {
@@ -291,7 +329,7 @@ D) ${options.D ?? ""}
 ------------------------------------------------------- */
 
 function postProcess(a: QuestionAnalysisV1, input: GenerateInput): QuestionAnalysisV1 {
-  a.correct_answer = input.officialAnswer;
+  a.correct_answer = answerLabel(input.answerKey);
 
   // Topic brief
   a.topic_brief = a.topic_brief ?? { title: "Topic Brief", bullets: [] };
@@ -370,33 +408,134 @@ function postProcess(a: QuestionAnalysisV1, input: GenerateInput): QuestionAnaly
   return a;
 }
 
+/* -------------------------------------------------------
+   Streaming: post-process one section at a time
+------------------------------------------------------- */
+
+// Runs a single section through the same normalize + postProcess path as the full
+// payload, so what is streamed matches what is finally saved.
+function processSection(
+  raw: RawSection,
+  index: number,
+  input: GenerateInput
+): AnalysisSection {
+  if (raw.key === "statement") {
+    const s = (raw.value ?? {}) as { id?: unknown };
+    const id = typeof s.id === "number" && s.id > 0 ? s.id : index + 1;
+    const a = postProcess(normalizeQuestionAnalysisV1({ statements: [{ ...s, id }] }), input);
+    return { type: "statement", statement: a.statements[0] };
+  }
+
+  const a = postProcess(normalizeQuestionAnalysisV1({ [raw.key]: raw.value }), input);
+  return raw.key === "topic_brief"
+    ? { type: "topic_brief", topic_brief: a.topic_brief }
+    : { type: "strategy", strategy: a.strategy };
+}
+
+function emitAll(a: QuestionAnalysisV1, onSection: (s: AnalysisSection) => void) {
+  onSection({ type: "topic_brief", topic_brief: a.topic_brief });
+  a.statements.forEach((statement) => onSection({ type: "statement", statement }));
+  onSection({ type: "strategy", strategy: a.strategy });
+}
+
+async function streamContent(
+  provider: LlmProvider,
+  req: LlmRequest,
+  input: GenerateInput,
+  onSection: (s: AnalysisSection) => void
+): Promise<string> {
+  const parser = createSectionParser();
+  let content = "";
+  let statements = 0;
+
+  for await (const delta of provider.stream(req)) {
+    content += delta;
+    for (const raw of parser.push(delta)) {
+      onSection(processSection(raw, raw.key === "statement" ? statements++ : 0, input));
+    }
+  }
+
+  return content;
+}
+
 /* -------------------------------------------------------
    Main
 ------------------------------------------------------- */
 
-export async function generateQuestionAnalysis(input: GenerateInput): Promise<QuestionAnalysisV1> {
+/** One provider call; a weak first output means a second call. */
+export type LlmCall = {
+  attempt: number;
+  model: string;
+  usage: LlmUsage | null; // null when the provider doesn't report it
+  ms: number;
+  weak: boolean; // analysisLooksWeak fired on this output (→ retry or fallback)
+  error: string | null; // the call itself failed (aborted, network, provider error)
+};
+
+export type GenerateOptions = {
+  provider?: LlmProvider; // defaults to the env-configured provider
+  signal?: AbortSignal;
+  /** When set, the model output is streamed and each finished section is emitted. */
+  onSection?: (section: AnalysisSection) => void;
+  /** Called after every provider call, failed ones included (cost accounting). */
+  onLlmCall?: (call: LlmCall) => void;
+};
+
+export async function generateQuestionAnalysis(
+  input: GenerateInput,
+  opts: GenerateOptions = {}
+): Promise<QuestionAnalysisV1> {
+  const provider = opts.provider ?? getDefaultLlmProvider();
+  const { onSection, signal } = opts;
+  const { temperature, retryTemperature, maxTokens } = provider.config;
   const prompt = buildPrompt(input);
 
   for (let attempt = 1; attempt <= 2; attempt++) {
-    const res = await openai.chat.completions.create({
-      model: "gpt-4.1-mini",
-      temperature: attempt === 1 ? 0.2 : 0.35,
-      max_tokens: 1200,
-      response_format: { type: "json_object" },
-      messages: [{ role: "user", content: prompt }],
-    });
-
-    const content = res.choices?.[0]?.message?.content ?? "{}";
+    const req: LlmRequest = {
+      prompt,
+      temperature: attempt === 1 ? temperature : retryTemperature,
+      maxTokens,
+      signal,
+    };
+
+    const startedAt = Date.now();
+    const call: LlmCall = { attempt, model: provider.config.model, usage: null, ms: 0, weak: false, error: null };
+
+    let content: string;
+    try {
+      if (onSection) {
+        const onUsage: LlmRequest["onUsage"] = (res) => {
+          call.model = res.model;
+          call.usage = res.usage;
+        };
+        content = await streamContent(provider, { ...req, onUsage }, input, onSection);
+      } else {
+        const res = await provider.complete(req);
+        content = res.content;
+        call.model = res.model;
+        call.usage = res.usage;
+      }
+    } catch (e) {
+      opts.onLlmCall?.({ ...call, ms: Date.now() - startedAt, error: e instanceof Error ? e.message : "LLM call failed" });
+      throw e;
+    }
+    call.ms = Date.now() - startedAt;
+
     const raw = safeParseJSON(content);
 
     let analysis = normalizeQuestionAnalysisV1(raw);
     analysis = postProcess(analysis, input);
 
-    if (!analysisLooksWeak(analysis)) return analysis;
+    call.weak = analysisLooksWeak(analysis);
+    opts.onLlmCall?.(call);
+    if (!call.weak) return analysis;
+
+    // Sections already shown came from a weak output; the client starts over.
+    onSection?.({ type: "reset" });
   }
 
   const fallback = normalizeQuestionAnalysisV1({
-    correct_answer: input.officialAnswer,
+    correct_answer: answerLabel(input.answerKey),
     topic_brief: {
       title: "Topic Brief",
       bullets: [
@@ -436,5 +575,7 @@ export async function generateQuestionAnalysis(input: GenerateInput): Promise<Qu
     },
   });
 
-  return postProcess(fallback, input);
+  const result = postProcess(fallback, input);
+  if (onSection) emitAll(result, onSection);
+  return result;
 }
@@ -0,0 +1,40 @@
+// lib/llmCost.ts
+// What an LLM call cost, from its token usage. Prices are USD per 1M tokens and
+// matched by model prefix, so dated snapshots ("gpt-4.1-mini-2025-04-14") resolve
+// to their family. Unknown models cost null rather than a guess.
+import type { LlmUsage } from "@/lib/llmProvider";
+
+export type ModelPrice = { inputPerM: number; outputPerM: number };
+
+// Longest prefix wins (gpt-4.1-mini before gpt-4.1)
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { inputPerM: 2.0, outputPerM: 8.0 },
+  "gpt-4.1-mini": { inputPerM: 0.4, outputPerM: 1.6 },
+  "gpt-4.1-nano": { inputPerM: 0.1, outputPerM: 0.4 },
+  "gpt-4o": { inputPerM: 2.5, outputPerM: 10.0 },
+  "gpt-4o-mini": { inputPerM: 0.15, outputPerM: 0.6 },
+  fixture: { inputPerM: 0, outputPerM: 0 },
+};
+
+export function priceFor(model: string): ModelPrice | null {
+  const m = model.trim().toLowerCase();
+  let best: string | null = null;
+  for (const prefix of Object.keys(MODEL_PRICES)) {
+    if ((m === prefix || m.startsWith(`${prefix}-`)) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best ? MODEL_PRICES[best] : null;
+}
+
+export function estimateCostUsd(model: string, usage: LlmUsage | null): number | null {
+  const price = priceFor(model);
+  if (!price || !usage) return null;
+  return (usage.promptTokens * price.inputPerM + usage.completionTokens * price.outputPerM) / 1_000_000;
+}
+
+/** "$0.0012" / "$1.25" / "—" */
+export function formatUsd(usd: number | null) {
+  if (usd === null) return "—";
+  return `$${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
+}
@@ -0,0 +1,240 @@
+// lib/llmProvider.ts
+// Provider layer for LLM calls. Model, temperature and token limits come from env
+// config instead of being hard-coded next to the prompt.
+//
+//   LLM_PROVIDER           openai (default) | openai-compatible | fixture
+//   LLM_MODEL              default "gpt-4.1-mini"
+//   LLM_BASE_URL           required for openai-compatible (e.g. http://localhost:11434/v1)
+//   LLM_API_KEY            falls back to OPENAI_API_KEY
+//   LLM_TEMPERATURE        first attempt, default 0.2
+//   LLM_RETRY_TEMPERATURE  retries after a weak output, default 0.35
+//   LLM_MAX_TOKENS         default 1200
+//   LLM_JSON_MODE          "0" disables response_format for endpoints that don't support it
+import OpenAI from "openai";
+
+export type ProviderKind = "openai" | "openai-compatible" | "fixture";
+
+export type LlmConfig = {
+  provider: ProviderKind;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  temperature: number;
+  retryTemperature: number;
+  maxTokens: number;
+  jsonMode: boolean;
+};
+
+export type LlmRequest = {
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+  /** Streamed calls only: token usage, once the stream has ended (when the endpoint reports it). */
+  onUsage?: (res: { model: string; usage: LlmUsage }) => void;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type LlmResponse = {
+  content: string;
+  model: string;
+  usage: LlmUsage | null;
+};
+
+export interface LlmProvider {
+  readonly kind: ProviderKind;
+  readonly config: LlmConfig;
+  complete(req: LlmRequest): Promise<LlmResponse>;
+  /** Same request, yielding content deltas as they arrive. */
+  stream(req: LlmRequest): AsyncIterable<string>;
+}
+
+/* -------------------------------------------------------
+   Config
+------------------------------------------------------- */
+
+const num = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return v !== undefined && v !== "" && Number.isFinite(n) ? n : fallback;
+};
+
+function toProviderKind(v: string | undefined): ProviderKind {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (s === "fixture") return "fixture";
+  if (s === "openai-compatible" || s === "local") return "openai-compatible";
+  return "openai";
+}
+
+export function getLlmConfig(
+  env: Record<string, string | undefined> = process.env,
+  overrides: Partial<LlmConfig> = {}
+): LlmConfig {
+  return {
+    provider: toProviderKind(env.LLM_PROVIDER),
+    model: env.LLM_MODEL || "gpt-4.1-mini",
+    baseURL: env.LLM_BASE_URL || undefined,
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+    temperature: num(env.LLM_TEMPERATURE, 0.2),
+    retryTemperature: num(env.LLM_RETRY_TEMPERATURE, 0.35),
+    maxTokens: num(env.LLM_MAX_TOKENS, 1200),
+    jsonMode: env.LLM_JSON_MODE !== "0",
+    ...overrides,
+  };
+}
+
+/** Human-readable reason the config can't be used, or null when it is usable. */
+export function llmConfigProblem(config: LlmConfig = getLlmConfig()): string | null {
+  if (config.provider === "openai" && !config.apiKey) return "OPENAI_API_KEY missing";
+  if (config.provider === "openai-compatible" && !config.baseURL) return "LLM_BASE_URL missing";
+  return null;
+}
+
+/* -------------------------------------------------------
+   OpenAI + OpenAI-compatible endpoints
+------------------------------------------------------- */
+
+function createOpenAIProvider(config: LlmConfig): LlmProvider {
+  const client = new OpenAI({
+    // local servers usually ignore the key, but the SDK requires one
+    apiKey: config.apiKey ?? "not-needed",
+    baseURL: config.provider === "openai-compatible" ? config.baseURL : undefined,
+  });
+
+  const params = (req: LlmRequest) => ({
+    model: config.model,
+    temperature: req.temperature,
+    max_tokens: req.maxTokens,
+    ...(config.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+    messages: [{ role: "user" as const, content: req.prompt }],
+  });
+
+  return {
+    kind: config.provider,
+    config,
+    async complete(req) {
+      const res = await client.chat.completions.create(params(req), { signal: req.signal });
+
+      return {
+        content: res.choices?.[0]?.message?.content ?? "{}",
+        model: res.model || config.model,
+        usage: res.usage
+          ? {
+              promptTokens: res.usage.prompt_tokens ?? 0,
+              completionTokens: res.usage.completion_tokens ?? 0,
+            }
+          : null,
+      };
+    },
+    async *stream(req) {
+      // Usage arrives in a final chunk with no choices; not every compatible server knows the option
+      const stream = await client.chat.completions.create(
+        {
+          ...params(req),
+          stream: true,
+          ...(config.provider === "openai" ? { stream_options: { include_usage: true } } : {}),
+        },
+        { signal: req.signal }
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+        if (chunk.usage) {
+          req.onUsage?.({
+            model: chunk.model || config.model,
+            usage: {
+              promptTokens: chunk.usage.prompt_tokens ?? 0,
+              completionTokens: chunk.usage.completion_tokens ?? 0,
+            },
+          });
+        }
+      }
+    },
+  };
+}
+
+/* -------------------------------------------------------
+   Fixture (deterministic, no network) — tests / keyless dev
+------------------------------------------------------- */
+
+export const FIXTURE_ANALYSIS = {
+  correct_answer: "A",
+  topic_brief: {
+    title: "Fixture topic",
+    bullets: [
+      "Fixture bullet one: anchor fact that would normally come from the model.",
+      "Fixture bullet two: a second, question-specific point.",
+      "Fixture bullet three: what the examiner is testing here.",
+    ],
+  },
+  statements: [
+    {
+      id: 1,
+      verdict: "correct",
+      facts: [
+        {
+          fact: "Fixture fact supporting statement 1.",
+          source: { name: "NCERT", pointer: "NCERT • Class 11 • Fixture chapter" },
+        },
+        {
+          fact: "Second fixture fact for statement 1.",
+          source: { name: "PIB", pointer: "PIB • Fixture release" },
+        },
+      ],
+    },
+  ],
+  strategy: {
+    difficulty: { level: "moderate", why: ["Fixture output: fixed difficulty rationale."] },
+    exam_strategy: ["Fixture strategy point one.", "Fixture strategy point two."],
+    logical_deduction: ["Fixture deduction step one.", "Fixture deduction step two."],
+    ai_verdict: {
+      recommendation: "attempt",
+      rationale: "Fixture output: deterministic verdict for tests.",
+      confidence: 70,
+    },
+  },
+};
+
+export function createFixtureProvider(
+  respond: string | ((req: LlmRequest) => string) = JSON.stringify(FIXTURE_ANALYSIS),
+  overrides: Partial<LlmConfig> = {}
+): LlmProvider {
+  const config = getLlmConfig({}, { provider: "fixture", model: "fixture", ...overrides });
+  const contentFor = (req: LlmRequest) => (typeof respond === "function" ? respond(req) : respond);
+
+  return {
+    kind: "fixture",
+    config,
+    async complete(req) {
+      return { content: contentFor(req), model: config.model, usage: null };
+    },
+    async *stream(req) {
+      // fixed-size chunks so streaming consumers see sections split across deltas
+      const content = contentFor(req);
+      for (let i = 0; i < content.length; i += 64) yield content.slice(i, i + 64);
+    },
+  };
+}
+
+/* -------------------------------------------------------
+   Factory
+------------------------------------------------------- */
+
+export function createLlmProvider(config: LlmConfig = getLlmConfig()): LlmProvider {
+  if (config.provider === "fixture") {
+    return createFixtureProvider(undefined, { ...config, model: "fixture" });
+  }
+  return createOpenAIProvider(config);
+}
+
+let defaultProvider: LlmProvider | null = null;
+
+/** Lazily built from env on first use (not at module load). */
+export function getDefaultLlmProvider(): LlmProvider {
+  if (!defaultProvider) defaultProvider = createLlmProvider();
+  return defaultProvider;
+}
@@ -0,0 +1,119 @@
+// lib/llmUsage.ts
+// Per-call LLM accounting. Every provider call made for a request (the first attempt and
+// any weak-output retry) is written to llm_calls with tokens, cost, latency and the weak
+// flag, so "what does an unlock cost" has an answer. The admin spend report reads the
+// daily totals back (GET /api/admin/spend).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmCall } from "@/lib/generateQuestionAnalysis";
+import type { ProviderKind } from "@/lib/llmProvider";
+import type { Entitlement } from "@/lib/plans";
+import { isEntitled } from "@/lib/plans";
+import { estimateCostUsd, formatUsd } from "@/lib/llmCost";
+
+export type LlmRoute = "analysis" | "analysis:refresh" | "admin:regenerate" | "admin:diagnostics";
+
+export type LlmCallContext = {
+  route: LlmRoute;
+  plan: string; // planLabel(), or "admin"
+  provider: ProviderKind;
+  userId: string | null;
+  questionId: number | null;
+};
+
+/** "free" or the paid plan id, as stored in llm_calls.plan. */
+export function planLabel(e: Entitlement) {
+  return isEntitled(e) ? (e.planId ?? "pro") : "free";
+}
+
+export type LlmCallLog = {
+  onLlmCall: (call: LlmCall) => void;
+  /** Writes the calls so far; logs instead of throwing so accounting never fails a request. */
+  flush: () => Promise<void>;
+};
+
+export function createLlmCallLog(db: SupabaseClient, ctx: LlmCallContext): LlmCallLog {
+  const requestId = crypto.randomUUID();
+  let pending: Record<string, unknown>[] = [];
+
+  return {
+    onLlmCall(call) {
+      const costUsd = estimateCostUsd(call.model, call.usage);
+      const tokens = call.usage ? `${call.usage.promptTokens}+${call.usage.completionTokens}` : "?";
+      console.info(
+        `[llm] ${ctx.route} q=${ctx.questionId ?? "-"} plan=${ctx.plan} attempt=${call.attempt} ` +
+          `model=${call.model} tokens=${tokens} cost=${formatUsd(costUsd)} ${call.ms}ms` +
+          `${call.weak ? " weak" : ""}${call.error ? " failed" : ""}`
+      );
+
+      pending.push({
+        request_id: requestId,
+        route: ctx.route,
+        plan: ctx.plan,
+        user_id: ctx.userId,
+        question_id: ctx.questionId,
+        provider: ctx.provider,
+        model: call.model,
+        attempt: call.attempt,
+        prompt_tokens: call.usage?.promptTokens ?? null,
+        completion_tokens: call.usage?.completionTokens ?? null,
+        cost_usd: costUsd,
+        latency_ms: call.ms,
+        weak: call.weak,
+        error: call.error,
+      });
+    },
+
+    async flush() {
+      if (!pending.length) return;
+      const rows = pending;
+      pending = [];
+
+      const { error } = await db.from("llm_calls").insert(rows);
+      if (error) console.error("[llm] failed to record calls", error);
+    },
+  };
+}
+
+/* -------------------------------------------------------
+   Spend report
+------------------------------------------------------- */
+
+export type SpendRow = {
+  day: string; // YYYY-MM-DD (UTC)
+  plan: string;
+  route: LlmRoute;
+  calls: number;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  weak_calls: number;
+  failed_calls: number;
+  unpriced_calls: number; // cost_usd above leaves these out
+};
+
+export const SPEND_DAYS = [7, 30, 90] as const;
+
+export async function fetchSpendReport(db: SupabaseClient, days: number): Promise<SpendRow[]> {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const { data, error } = await db.rpc("llm_spend_daily", { p_since: since.toISOString() });
+  if (error) throw error;
+
+  // numeric / int8 come back as strings
+  return ((data ?? []) as Record<string, unknown>[]).map((r) => ({
+    day: String(r.day),
+    plan: String(r.plan),
+    route: r.route as LlmRoute,
+    calls: Number(r.calls ?? 0),
+    requests: Number(r.requests ?? 0),
+    prompt_tokens: Number(r.prompt_tokens ?? 0),
+    completion_tokens: Number(r.completion_tokens ?? 0),
+    cost_usd: Number(r.cost_usd ?? 0),
+    weak_calls: Number(r.weak_calls ?? 0),
+    failed_calls: Number(r.failed_calls ?? 0),
+    unpriced_calls: Number(r.unpriced_calls ?? 0),
+  }));
+}
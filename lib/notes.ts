@@ -0,0 +1,165 @@
+// lib/notes.ts
+// The revision notebook: one private note per user + question (free text + tags) and
+// highlighted analysis facts. Both tables are RLS'd to their owner, so the browser
+// client reads and writes them directly.
+//
+// Highlights snapshot the fact text and source: analyses get regenerated
+// (lib/analysisStore.ts) and a notebook entry must not change under the user.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Fact } from "@/lib/aiAnalysis";
+
+export type QuestionNote = {
+  id: number;
+  question_id: number;
+  body: string;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type FactHighlight = {
+  id: number;
+  question_id: number;
+  statement_id: number;
+  fact: string;
+  source_pointer: string | null;
+  created_at: string;
+};
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+/** "Polity, #revise  art-culture" → ["polity", "revise", "art-culture"] */
+export function normalizeTags(input: string | string[]): string[] {
+  const parts = Array.isArray(input) ? input : input.split(/[,\s]+/);
+  const tags = parts
+    .map((t) => t.trim().replace(/^#+/, "").toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+/** Stable identity of a highlighted fact within a question (survives re-ordering). */
+export function highlightKey(statementId: number, fact: string) {
+  return `${statementId}:${fact.trim()}`;
+}
+
+/* -------------------------------------------------------
+   Whole notebook (notes page)
+------------------------------------------------------- */
+
+const NOTEBOOK_PAGE_ROWS = 1000;
+
+/** Every row the user has in a notebook table, paged past the 1000-row response cap. */
+export async function fetchNotebookRows<T>(
+  client: SupabaseClient,
+  table: "question_notes" | "fact_highlights",
+  userId: string,
+  columns: string,
+  orderBy: string[] = ["id"] // must end in a unique column so pages don't overlap
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += NOTEBOOK_PAGE_ROWS) {
+    let q = client.from(table).select(columns).eq("user_id", userId);
+    for (const col of orderBy) q = q.order(col, { ascending: true });
+
+    const { data, error } = await q.range(from, from + NOTEBOOK_PAGE_ROWS - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < NOTEBOOK_PAGE_ROWS) return rows;
+  }
+}
+
+/* -------------------------------------------------------
+   Per question (practice page)
+------------------------------------------------------- */
+
+export async function loadQuestionNotebook(
+  client: SupabaseClient,
+  userId: string,
+  questionId: number
+): Promise<{ note: QuestionNote | null; highlights: FactHighlight[] }> {
+  const [{ data: note, error: nErr }, { data: highlights, error: hErr }] = await Promise.all([
+    client
+      .from("question_notes")
+      .select("id, question_id, body, tags, created_at, updated_at")
+      .eq("user_id", userId)
+      .eq("question_id", questionId)
+      .maybeSingle(),
+    client
+      .from("fact_highlights")
+      .select("id, question_id, statement_id, fact, source_pointer, created_at")
+      .eq("user_id", userId)
+      .eq("question_id", questionId),
+  ]);
+
+  if (nErr) throw nErr;
+  if (hErr) throw hErr;
+  return { note: (note as QuestionNote) ?? null, highlights: (highlights ?? []) as FactHighlight[] };
+}
+
+/** Upserts the note; an empty body with no tags deletes it. */
+export async function saveQuestionNote(
+  client: SupabaseClient,
+  p: { userId: string; questionId: number; body: string; tags: string[] }
+): Promise<QuestionNote | null> {
+  const body = p.body.trim();
+  const tags = normalizeTags(p.tags);
+
+  if (!body && !tags.length) {
+    const { error } = await client
+      .from("question_notes")
+      .delete()
+      .eq("user_id", p.userId)
+      .eq("question_id", p.questionId);
+    if (error) throw error;
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("question_notes")
+    .upsert(
+      {
+        user_id: p.userId,
+        question_id: p.questionId,
+        body,
+        tags,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,question_id" }
+    )
+    .select("id, question_id, body, tags, created_at, updated_at")
+    .single();
+
+  if (error) throw error;
+  return data as QuestionNote;
+}
+
+/** Adds or removes the highlight; returns the highlight when it now exists. */
+export async function toggleFactHighlight(
+  client: SupabaseClient,
+  p: { userId: string; questionId: number; statementId: number; fact: Fact; existing?: FactHighlight | null }
+): Promise<FactHighlight | null> {
+  if (p.existing) {
+    const { error } = await client.from("fact_highlights").delete().eq("id", p.existing.id);
+    if (error) throw error;
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("fact_highlights")
+    .upsert(
+      {
+        user_id: p.userId,
+        question_id: p.questionId,
+        statement_id: p.statementId,
+        fact: p.fact.fact.trim(),
+        source_pointer: p.fact.source?.pointer || null,
+      },
+      { onConflict: "user_id,question_id,statement_id,fact" }
+    )
+    .select("id, question_id, statement_id, fact, source_pointer, created_at")
+    .single();
+
+  if (error) throw error;
+  return data as FactHighlight;
+}
@@ -0,0 +1,114 @@
+// lib/plans.ts
+// Plan catalogue + entitlement rules. Pure (no server deps) so the paywall modal,
+// the profile page and the API routes all read the same prices and durations.
+//
+// profiles.plan_id / profiles.pro_until are the source of truth:
+//   lifetime        → plan_id "lifetime", pro_until null
+//   everything else → Pro while pro_until > now
+// (profiles.is_pro is legacy and no longer read.)
+
+export type PlanId = "monthly" | "prelims" | "lifetime";
+
+export type Plan = {
+  id: PlanId;
+  label: string;
+  blurb: string;
+  pricePaise: number;
+  currency: "INR";
+  /** fixed length from the later of now / current expiry */
+  durationDays?: number;
+  /** fixed end date (till-Prelims); not sold once it has passed */
+  until?: string;
+};
+
+// Prelims 2027 (update once UPSC publishes the calendar)
+export const PRELIMS_END = "2027-05-31T23:59:59+05:30";
+
+export const PLANS: Plan[] = [
+  {
+    id: "monthly",
+    label: "Monthly",
+    blurb: "30 days of unlimited analysis.",
+    pricePaise: 149 * 100,
+    currency: "INR",
+    durationDays: 30,
+  },
+  {
+    id: "prelims",
+    label: "Till Prelims",
+    blurb: "Unlimited analysis until Prelims 2027.",
+    pricePaise: 399 * 100,
+    currency: "INR",
+    until: PRELIMS_END,
+  },
+  {
+    id: "lifetime",
+    label: "Lifetime",
+    blurb: "Unlimited analysis, never expires.",
+    pricePaise: 999 * 100,
+    currency: "INR",
+  },
+];
+
+// Orders created before plans existed were the ₹399 "Lifetime access" offer
+export const LEGACY_PLAN_ID: PlanId = "lifetime";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getPlan(id: string | null | undefined): Plan | null {
+  return PLANS.find((p) => p.id === id) ?? null;
+}
+
+/** Plans that can be bought right now. */
+export function availablePlans(now: Date = new Date()): Plan[] {
+  return PLANS.filter((p) => !p.until || new Date(p.until).getTime() > now.getTime());
+}
+
+export function formatPrice(plan: Plan) {
+  return `₹${(plan.pricePaise / 100).toLocaleString("en-IN")}`;
+}
+
+/* -------------------------------------------------------
+   Entitlement
+------------------------------------------------------- */
+
+export type Entitlement = {
+  planId: PlanId | null;
+  /** ISO; null for lifetime or never paid */
+  proUntil: string | null;
+};
+
+export const NO_ENTITLEMENT: Entitlement = { planId: null, proUntil: null };
+
+export function isEntitled(e: Entitlement, now: Date = new Date()) {
+  if (e.planId === "lifetime") return true;
+  return !!e.proUntil && new Date(e.proUntil).getTime() > now.getTime();
+}
+
+/** Reads plan_id / pro_until off a profiles row (missing row → not entitled). */
+export function entitlementFromProfile(
+  row: { plan_id?: string | null; pro_until?: string | null } | null | undefined
+): Entitlement {
+  if (!row) return NO_ENTITLEMENT;
+  return { planId: getPlan(row.plan_id)?.id ?? null, proUntil: row.pro_until ?? null };
+}
+
+/**
+ * Applies one payment for `plan` made at `paidAt`.
+ * Time-boxed plans extend from the later of paidAt / current expiry, so renewing
+ * early never loses days. Lifetime wins over everything.
+ */
+export function extendEntitlement(current: Entitlement, plan: Plan, paidAt: Date): Entitlement {
+  if (current.planId === "lifetime" || plan.id === "lifetime") {
+    return { planId: "lifetime", proUntil: null };
+  }
+
+  const currentEnd = current.proUntil ? new Date(current.proUntil).getTime() : 0;
+  const from = Math.max(paidAt.getTime(), currentEnd);
+
+  let end = from;
+  if (plan.durationDays) end = from + plan.durationDays * DAY_MS;
+  if (plan.until) end = Math.max(from, new Date(plan.until).getTime());
+
+  return { planId: plan.id, proUntil: new Date(end).toISOString() };
+}
@@ -0,0 +1,434 @@
+// lib/questionImport.ts
+// Bulk import of PYQs into `questions` from CSV or JSON.
+// Shared by the CLI (scripts/import-questions.ts) and POST /api/admin/questions/import.
+//
+// Rows use the QuestionRow shape (without id). Every row is validated, duplicates are
+// detected by (year, question_number) — within the file and against the table — and
+// a dry run reports exactly what would be inserted without writing anything.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeOption } from "@/lib/scoring";
+import { KEY_STATUSES, type KeyStatus, type OptionKey } from "@/lib/answerKey";
+
+export type ImportFormat = "csv" | "json";
+
+export type QuestionInput = {
+  year: number;
+  subject: string | null;
+  question_number: number;
+  question_text: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  correct_option: OptionKey | null;
+  difficulty: string | null;
+  key_status: KeyStatus;
+  accepted_options: OptionKey[] | null;
+  /** lib/taxonomy.ts id; when blank it is derived from subject via topic_subject_aliases */
+  topic_id: string | null;
+};
+
+export type RowError = {
+  /** 1-based data row (CSV: excluding the header; JSON: array index + 1) */
+  row: number;
+  field?: string;
+  message: string;
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  duplicates: number;
+  inserted: number;
+  errors: RowError[];
+};
+
+const REQUIRED_FIELDS = [
+  "year",
+  "question_number",
+  "question_text",
+  "option_a",
+  "option_b",
+  "option_c",
+  "option_d",
+] as const;
+
+// Column aliases seen in exported sheets
+const FIELD_ALIASES: Record<string, string> = {
+  text: "question_text",
+  question: "question_text",
+  q_no: "question_number",
+  qno: "question_number",
+  number: "question_number",
+  a: "option_a",
+  b: "option_b",
+  c: "option_c",
+  d: "option_d",
+  answer: "correct_option",
+  correct: "correct_option",
+  status: "key_status",
+  accepted: "accepted_options",
+  topic: "topic_id",
+};
+
+const DIFFICULTIES = new Set(["easy", "moderate", "hard"]);
+const INSERT_CHUNK = 500;
+const LOOKUP_PAGE = 1000;
+
+/* -------------------------------------------------------
+   Parsing
+------------------------------------------------------- */
+
+/** RFC 4180 CSV: quoted fields, "" escapes, newlines inside quotes. */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+
+  const src = text.replace(/^\uFEFF/, ""); // BOM from Excel exports
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+
+    if (inQuotes) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"') inQuotes = true;
+    else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else field += c;
+  }
+
+  if (field !== "" || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((v) => v.trim() !== ""));
+  if (!nonEmpty.length) return [];
+
+  const header = nonEmpty[0].map((h) => h.trim());
+  return nonEmpty.slice(1).map((r) => {
+    const obj: Record<string, string> = {};
+    header.forEach((h, idx) => {
+      obj[h] = r[idx] ?? "";
+    });
+    return obj;
+  });
+}
+
+export function detectFormat(text: string, hint?: string | null): ImportFormat {
+  const h = String(hint ?? "").toLowerCase();
+  if (h.includes("json")) return "json";
+  if (h.includes("csv")) return "csv";
+  const first = text.trimStart()[0];
+  return first === "[" || first === "{" ? "json" : "csv";
+}
+
+/** JSON may be an array of rows or { questions: [...] }. */
+export function parseImportText(text: string, format: ImportFormat): Record<string, unknown>[] {
+  if (format === "csv") return parseCsv(text);
+
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : data?.questions;
+  if (!Array.isArray(rows)) throw new Error("JSON must be an array of questions or { questions: [...] }");
+  return rows;
+}
+
+/* -------------------------------------------------------
+   Validation
+------------------------------------------------------- */
+
+function canonicalKeys(raw: Record<string, unknown>) {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(raw ?? {})) {
+    const key = k.trim().toLowerCase().replace(/\s+/g, "_");
+    out[FIELD_ALIASES[key] ?? key] = v;
+  }
+  return out;
+}
+
+const str = (v: unknown) => String(v ?? "").trim();
+
+function toInt(v: unknown): number | null {
+  const s = str(v);
+  if (!/^\d+$/.test(s)) return null;
+  return Number(s);
+}
+
+function toOption(v: unknown): OptionKey | null {
+  return normalizeOption(str(v).replace(/^option\s*|[()\s.]/gi, ""));
+}
+
+/** Validates one raw row; returns the clean row or the errors for it. */
+export function validateRow(
+  raw: Record<string, unknown>,
+  row: number
+): { ok: true; value: QuestionInput } | { ok: false; errors: RowError[] } {
+  const r = canonicalKeys(raw);
+  const errors: RowError[] = [];
+
+  for (const f of REQUIRED_FIELDS) {
+    if (!str(r[f])) errors.push({ row, field: f, message: `${f} is required` });
+  }
+
+  const year = toInt(r.year);
+  if (str(r.year) && (year === null || year < 1979 || year > 2100)) {
+    errors.push({ row, field: "year", message: `year "${str(r.year)}" is not a valid exam year` });
+  }
+
+  const qn = toInt(r.question_number);
+  if (str(r.question_number) && (qn === null || qn < 1)) {
+    errors.push({
+      row,
+      field: "question_number",
+      message: `question_number "${str(r.question_number)}" must be a positive integer`,
+    });
+  }
+
+  const rawStatus = str(r.key_status).toLowerCase().replace(/[\s-]+/g, "_");
+  const keyStatus = (rawStatus || "final") as KeyStatus;
+  if (!KEY_STATUSES.includes(keyStatus)) {
+    errors.push({
+      row,
+      field: "key_status",
+      message: `key_status "${str(r.key_status)}" must be one of ${KEY_STATUSES.join(", ")}`,
+    });
+  }
+
+  // dropped questions carry no key at all
+  if (keyStatus !== "dropped" && !str(r.correct_option)) {
+    errors.push({ row, field: "correct_option", message: "correct_option is required" });
+  }
+
+  // "(a)" / "a)" / "Option A" → A
+  const correct = toOption(r.correct_option);
+  if (str(r.correct_option) && !correct) {
+    errors.push({
+      row,
+      field: "correct_option",
+      message: `correct_option "${str(r.correct_option)}" must be one of A, B, C, D`,
+    });
+  }
+
+  // "A,C" / "A/C" / ["A","C"]
+  const rawAccepted = Array.isArray(r.accepted_options)
+    ? r.accepted_options.map(str)
+    : str(r.accepted_options).split(/[,/;|]+/).map((x) => x.trim());
+  const acceptedList = rawAccepted.filter(Boolean);
+  const accepted = acceptedList.map(toOption);
+  if (accepted.some((o) => o === null)) {
+    errors.push({
+      row,
+      field: "accepted_options",
+      message: `accepted_options "${acceptedList.join(",")}" must only contain A, B, C, D`,
+    });
+  }
+  const acceptedOptions = Array.from(
+    new Set([...(correct ? [correct] : []), ...accepted.filter((o): o is OptionKey => o !== null)])
+  ).sort();
+  if (keyStatus === "multiple_correct" && acceptedOptions.length < 2) {
+    errors.push({
+      row,
+      field: "accepted_options",
+      message: "multiple_correct needs at least two accepted options",
+    });
+  }
+
+  const difficulty = str(r.difficulty).toLowerCase() || null;
+  if (difficulty && !DIFFICULTIES.has(difficulty)) {
+    errors.push({
+      row,
+      field: "difficulty",
+      message: `difficulty "${difficulty}" must be easy, moderate or hard`,
+    });
+  }
+
+  if (errors.length || year === null || qn === null) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      year,
+      subject: str(r.subject) ? str(r.subject).toUpperCase() : null,
+      question_number: qn,
+      question_text: str(r.question_text),
+      option_a: str(r.option_a),
+      option_b: str(r.option_b),
+      option_c: str(r.option_c),
+      option_d: str(r.option_d),
+      correct_option: keyStatus === "dropped" ? null : correct,
+      difficulty,
+      key_status: keyStatus,
+      accepted_options: keyStatus === "multiple_correct" ? acceptedOptions : null,
+      topic_id: str(r.topic_id).toLowerCase() || null,
+    },
+  };
+}
+
+const dupKey = (year: number, qn: number) => `${year}#${qn}`;
+
+/**
+ * Checks explicit topic ids against `topics` and fills missing ones from the
+ * subject string. Rows with an unknown topic are moved from `valid` to `errors`.
+ */
+async function resolveTopics(
+  admin: SupabaseClient,
+  valid: { row: number; value: QuestionInput }[],
+  errors: RowError[]
+) {
+  if (!valid.length) return;
+
+  const [{ data: topics, error: tErr }, { data: aliases, error: aErr }] = await Promise.all([
+    admin.from("topics").select("id"),
+    admin.from("topic_subject_aliases").select("subject, topic_id"),
+  ]);
+  if (tErr) throw tErr;
+  if (aErr) throw aErr;
+
+  const known = new Set((topics ?? []).map((t) => t.id as string));
+  const bySubject = new Map((aliases ?? []).map((a) => [a.subject as string, a.topic_id as string]));
+
+  for (let i = valid.length - 1; i >= 0; i--) {
+    const { row, value } = valid[i];
+
+    if (value.topic_id && !known.has(value.topic_id)) {
+      errors.push({ row, field: "topic_id", message: `unknown topic "${value.topic_id}"` });
+      valid.splice(i, 1);
+      continue;
+    }
+
+    if (!value.topic_id && value.subject) {
+      value.topic_id = bySubject.get(value.subject.replace(/\s+/g, " ")) ?? null;
+    }
+  }
+}
+
+/* -------------------------------------------------------
+   Import
+------------------------------------------------------- */
+
+/**
+ * Validates `rawRows`, drops duplicates (in-file and already in `questions`) and,
+ * unless dryRun, inserts the rest. Duplicates are reported as row errors.
+ */
+export async function importQuestions(
+  admin: SupabaseClient,
+  rawRows: Record<string, unknown>[],
+  opts: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const dryRun = !!opts.dryRun;
+  const errors: RowError[] = [];
+  const valid: { row: number; value: QuestionInput }[] = [];
+  const seen = new Map<string, number>();
+  let duplicates = 0;
+
+  rawRows.forEach((raw, idx) => {
+    const row = idx + 1;
+    const res = validateRow(raw, row);
+    if (!res.ok) {
+      errors.push(...res.errors);
+      return;
+    }
+
+    const key = dupKey(res.value.year, res.value.question_number);
+    const first = seen.get(key);
+    if (first !== undefined) {
+      duplicates += 1;
+      errors.push({
+        row,
+        field: "question_number",
+        message: `duplicate of row ${first} (${res.value.year} Q${res.value.question_number})`,
+      });
+      return;
+    }
+
+    seen.set(key, row);
+    valid.push({ row, value: res.value });
+  });
+
+  await resolveTopics(admin, valid, errors);
+
+  // Against the table
+  const years = Array.from(new Set(valid.map((v) => v.value.year)));
+  const existing = new Map<string, number>();
+
+  // Paged: a few years of papers is already past the 1000-row response cap
+  for (let from = 0; years.length; from += LOOKUP_PAGE) {
+    const { data, error } = await admin
+      .from("questions")
+      .select("id, year, question_number")
+      .in("year", years)
+      .order("id", { ascending: true })
+      .range(from, from + LOOKUP_PAGE - 1);
+
+    if (error) throw error;
+    for (const q of data ?? []) {
+      if (q.year != null && q.question_number != null) {
+        existing.set(dupKey(q.year as number, q.question_number as number), q.id as number);
+      }
+    }
+    if (!data || data.length < LOOKUP_PAGE) break;
+  }
+
+  const toInsert = valid.filter(({ row, value }) => {
+    const id = existing.get(dupKey(value.year, value.question_number));
+    if (id === undefined) return true;
+
+    duplicates += 1;
+    errors.push({
+      row,
+      field: "question_number",
+      message: `${value.year} Q${value.question_number} already exists (question id ${id})`,
+    });
+    return false;
+  });
+
+  let inserted = 0;
+
+  if (!dryRun) {
+    for (let i = 0; i < toInsert.length; i += INSERT_CHUNK) {
+      const chunk = toInsert.slice(i, i + INSERT_CHUNK).map((v) => v.value);
+      const { error } = await admin.from("questions").insert(chunk);
+      if (error) {
+        errors.push({
+          row: toInsert[i].row,
+          message: `insert failed for rows ${toInsert[i].row}–${toInsert[Math.min(i + INSERT_CHUNK, toInsert.length) - 1].row}: ${error.message}`,
+        });
+        break;
+      }
+      inserted += chunk.length;
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+
+  return {
+    dryRun,
+    total: rawRows.length,
+    valid: toInsert.length,
+    duplicates,
+    inserted,
+    errors,
+  };
+}
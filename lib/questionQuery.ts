@@ -0,0 +1,268 @@
+// lib/questionQuery.ts
+// Paginated, filtered question loading for the practice page (GET /api/questions).
+//
+// Filtering (year, taxonomy node, subject, the user's own status) and the per-filter
+// counts run in Postgres (practice_questions_page / practice_question_counts, see
+// supabase/migrations); this file owns the URL format and the cursor. Pages are keyset
+// on id, so a cursor stays valid while questions are being imported.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { QuestionRow } from "@/app/practice/types";
+import { UNTAGGED } from "@/lib/taxonomy";
+
+export const QUESTION_STATUSES = ["all", "unattempted", "attempted", "wrong", "bookmarked"] as const;
+export type QuestionStatus = (typeof QUESTION_STATUSES)[number];
+
+export const STATUS_LABELS: Record<QuestionStatus, string> = {
+  all: "All",
+  unattempted: "Not attempted",
+  attempted: "Attempted",
+  wrong: "Last answer wrong",
+  bookmarked: "Bookmarked",
+};
+
+export type QuestionFilters = {
+  year: number | null;
+  topic: string | null; // taxonomy node (with descendants) or UNTAGGED
+  subject: string | null; // raw questions.subject, for untagged imports
+  status: QuestionStatus;
+};
+
+export const NO_FILTERS: QuestionFilters = { year: null, topic: null, subject: null, status: "all" };
+
+/** Each facet is counted with the *other* filters applied. */
+export type QuestionCounts = {
+  total: number;
+  byYear: Record<string, number>;
+  byTopic: Record<string, number>; // most specific topic id (or UNTAGGED) → questions
+  byStatus: Record<QuestionStatus, number>;
+};
+
+export type QuestionPage = {
+  items: QuestionRow[];
+  nextCursor: string | null;
+  counts: QuestionCounts | null; // only when asked for (first page of a filter)
+};
+
+export const PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+export const MAX_IDS_PER_REQUEST = 200;
+// Meta rows are small; the extra lookahead row keeps a page under the 1000-row cap
+export const META_PAGE_SIZE = 500;
+
+// Columns a session builder needs to pick questions without their text
+export type QuestionMeta = Pick<
+  QuestionRow,
+  "id" | "year" | "question_number" | "subject" | "topic_id" | "difficulty" | "correct_option" | "key_status" | "accepted_options"
+>;
+const META_COLUMNS =
+  "id, year, question_number, subject, topic_id, difficulty, correct_option, key_status, accepted_options";
+
+/* -------------------------------------------------------
+   URL format (shared by the route and the page)
+------------------------------------------------------- */
+
+export function filtersToParams(f: QuestionFilters) {
+  const params = new URLSearchParams();
+  if (f.year !== null) params.set("year", String(f.year));
+  if (f.topic) params.set("topic", f.topic);
+  if (f.subject) params.set("subject", f.subject);
+  if (f.status !== "all") params.set("status", f.status);
+  return params;
+}
+
+export function parseFilters(params: URLSearchParams): { filters: QuestionFilters } | { error: string } {
+  const yearRaw = params.get("year");
+  const year = yearRaw ? Number(yearRaw) : null;
+  if (year !== null && (!Number.isInteger(year) || year < 1900 || year > 2100)) {
+    return { error: "Invalid year" };
+  }
+
+  const status = (params.get("status") || "all") as QuestionStatus;
+  if (!QUESTION_STATUSES.includes(status)) return { error: "Invalid status" };
+
+  const topic = params.get("topic")?.trim() || null;
+  if (topic && topic !== UNTAGGED && !/^[a-z0-9_.-]+$/i.test(topic)) return { error: "Invalid topic" };
+
+  const subject = params.get("subject")?.trim() || null;
+  return { filters: { year, topic, subject, status } };
+}
+
+export function encodeCursor(lastId: number) {
+  return Buffer.from(`id:${lastId}`).toString("base64url");
+}
+
+/** null for a missing or malformed cursor. */
+export function decodeCursor(cursor: string | null): number | null {
+  if (!cursor) return null;
+  const m = /^id:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString("utf8"));
+  return m ? Number(m[1]) : null;
+}
+
+/* -------------------------------------------------------
+   Server side (service-role client, verified user id)
+------------------------------------------------------- */
+
+function rpcFilters(userId: string, f: QuestionFilters) {
+  return {
+    p_user: userId,
+    p_year: f.year,
+    p_topic: f.topic,
+    p_subject: f.subject,
+    p_status: f.status,
+  };
+}
+
+export async function fetchQuestionPage(
+  admin: SupabaseClient,
+  userId: string,
+  filters: QuestionFilters,
+  opts: { after: number | null; limit: number }
+): Promise<{ items: QuestionRow[]; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(1, opts.limit), MAX_PAGE_SIZE);
+
+  // One extra row tells us whether there is a next page
+  const { data, error } = await admin.rpc("practice_questions_page", {
+    ...rpcFilters(userId, filters),
+    p_after: opts.after,
+    p_limit: limit + 1,
+  });
+  if (error) throw error;
+
+  const rows = (data ?? []) as QuestionRow[];
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(items[items.length - 1].id) : null;
+  return { items, nextCursor };
+}
+
+export async function fetchQuestionCounts(
+  admin: SupabaseClient,
+  userId: string,
+  filters: QuestionFilters
+): Promise<QuestionCounts> {
+  const { data, error } = await admin.rpc("practice_question_counts", rpcFilters(userId, filters));
+  if (error) throw error;
+
+  const raw = (data ?? {}) as {
+    total?: number;
+    by_year?: Record<string, number>;
+    by_topic?: Record<string, number>;
+    by_status?: Partial<Record<QuestionStatus, number>>;
+  };
+
+  const byStatus = Object.fromEntries(
+    QUESTION_STATUSES.map((s) => [s, raw.by_status?.[s] ?? 0])
+  ) as Record<QuestionStatus, number>;
+
+  return {
+    total: raw.total ?? 0,
+    byYear: raw.by_year ?? {},
+    byTopic: raw.by_topic ?? {},
+    byStatus,
+  };
+}
+
+/** Rows for the given ids, in the given order (missing ids are skipped). */
+export async function fetchQuestionsByIds(db: SupabaseClient, ids: number[]): Promise<QuestionRow[]> {
+  const byId = new Map<number, QuestionRow>();
+
+  for (let i = 0; i < ids.length; i += MAX_IDS_PER_REQUEST) {
+    const chunk = ids.slice(i, i + MAX_IDS_PER_REQUEST);
+    const { data, error } = await db.from("questions").select("*").in("id", chunk);
+    if (error) throw error;
+    for (const q of (data ?? []) as QuestionRow[]) byId.set(q.id, q);
+  }
+
+  return ids.map((id) => byId.get(id)).filter((q): q is QuestionRow => !!q);
+}
+
+/**
+ * One keyset page of the questions under the year/topic filter, without text — the
+ * pool that weak-area sets and mock papers are drawn from (requestQuestionMeta pages
+ * through all of it). Full rows are fetched by id once picked.
+ */
+export async function fetchQuestionMetaPage(
+  admin: SupabaseClient,
+  filters: Pick<QuestionFilters, "year" | "topic">,
+  after: number | null
+): Promise<{ items: QuestionMeta[]; nextCursor: string | null }> {
+  let q = admin
+    .from("questions")
+    .select(META_COLUMNS)
+    .order("id", { ascending: true })
+    .limit(META_PAGE_SIZE + 1);
+
+  if (after !== null) q = q.gt("id", after);
+  if (filters.year !== null) q = q.eq("year", filters.year);
+  if (filters.topic === UNTAGGED) q = q.is("topic_id", null);
+  else if (filters.topic) q = q.or(`topic_id.eq.${filters.topic},topic_id.like.${filters.topic}.*`);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  const rows = (data ?? []) as QuestionMeta[];
+  const items = rows.slice(0, META_PAGE_SIZE);
+  const nextCursor = rows.length > META_PAGE_SIZE ? encodeCursor(items[items.length - 1].id) : null;
+  return { items, nextCursor };
+}
+
+/* -------------------------------------------------------
+   Client side (Bearer token from the browser session)
+------------------------------------------------------- */
+
+async function getJson<T>(url: string, token: string): Promise<T> {
+  const res = await fetch(url, {
+    method: "GET",
+    cache: "no-store",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error || `Request failed (${res.status})`);
+  return body as T;
+}
+
+export async function requestQuestionPage(
+  token: string,
+  filters: QuestionFilters,
+  opts: { cursor?: string | null; withCounts?: boolean; limit?: number } = {}
+): Promise<QuestionPage> {
+  const params = filtersToParams(filters);
+  if (opts.cursor) params.set("cursor", opts.cursor);
+  if (opts.withCounts) params.set("counts", "1");
+  if (opts.limit) params.set("limit", String(opts.limit));
+
+  const body = await getJson<QuestionPage>(`/api/questions?${params}`, token);
+  return { items: body.items ?? [], nextCursor: body.nextCursor ?? null, counts: body.counts ?? null };
+}
+
+/** Rows for a session's ids, in order; chunked to the route's per-request cap. */
+export async function requestQuestionsByIds(token: string, ids: number[]): Promise<QuestionRow[]> {
+  const rows: QuestionRow[] = [];
+  for (let i = 0; i < ids.length; i += MAX_IDS_PER_REQUEST) {
+    const chunk = ids.slice(i, i + MAX_IDS_PER_REQUEST);
+    const body = await getJson<{ items: QuestionRow[] }>(`/api/questions?ids=${chunk.join(",")}`, token);
+    rows.push(...(body.items ?? []));
+  }
+  return rows;
+}
+
+/** The whole year/topic pool for a session builder (all meta pages). */
+export async function requestQuestionMeta(
+  token: string,
+  filters: Pick<QuestionFilters, "year" | "topic">
+): Promise<QuestionMeta[]> {
+  const params = filtersToParams({ ...NO_FILTERS, ...filters });
+  params.set("meta", "1");
+
+  const rows: QuestionMeta[] = [];
+  let cursor: string | null = null;
+  do {
+    if (cursor) params.set("cursor", cursor);
+    const body: { items?: QuestionMeta[]; nextCursor?: string | null } = await getJson(
+      `/api/questions?${params}`,
+      token
+    );
+    rows.push(...(body.items ?? []));
+    cursor = body.nextCursor ?? null;
+  } while (cursor);
+  return rows;
+}
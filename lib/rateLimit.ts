@@ -0,0 +1,254 @@
+// lib/rateLimit.ts
+// Request rate limits for the API routes: token buckets per user and per IP, plus a
+// daily regeneration cap per plan. Anything that can reach the LLM is billed per call,
+// so those routes get a much tighter bucket than plain reads.
+//
+//   RATE_LIMIT_STORE     memory (default outside production) | database
+//   TRUSTED_PROXY_HOPS   proxies in front of the app that append to x-forwarded-for (default 1)
+//
+// memory keeps buckets in this process (fine for `next dev`, wrong once there is more
+// than one instance); database keeps them in rate_limit_buckets via the atomic
+// rate_limit_take function (see supabase/migrations).
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type LimitRule = {
+  name: string; // key prefix and what the 429 names, e.g. "generate:user"
+  capacity: number; // burst size
+  refillPerSec: number; // 0 = fixed daily window, full again at the next UTC midnight
+};
+
+export const LIMITS = {
+  // Any API request
+  apiIp: { name: "api:ip", capacity: 120, refillPerSec: 2 },
+  apiUser: { name: "api:user", capacity: 60, refillPerSec: 1 },
+  // Requests that call the LLM (cache miss or refresh=1): burst of 5, then 1/min
+  generateUser: { name: "generate:user", capacity: 5, refillPerSec: 1 / 60 },
+  generateIp: { name: "generate:ip", capacity: 10, refillPerSec: 1 / 30 },
+  // Creating a checkout order (Razorpay order + coupon hold): burst of 5, then 1/min
+  checkoutUser: { name: "checkout:user", capacity: 5, refillPerSec: 1 / 60 },
+  checkoutIp: { name: "checkout:ip", capacity: 10, refillPerSec: 1 / 30 },
+} satisfies Record<string, LimitRule>;
+
+// refresh=1 per UTC day; free users can only refresh questions they have unlocked
+export const DAILY_REGENERATIONS = { free: 3, pro: 30 };
+
+export function dailyRegenerationRule(isPro: boolean): LimitRule {
+  return {
+    name: "regenerate:day",
+    capacity: isPro ? DAILY_REGENERATIONS.pro : DAILY_REGENERATIONS.free,
+    refillPerSec: 0,
+  };
+}
+
+/* -------------------------------------------------------
+   Stores
+------------------------------------------------------- */
+
+export type TakeResult = { allowed: boolean; tokens: number };
+
+export interface RateLimitStore {
+  readonly kind: "memory" | "database";
+  /**
+   * Refills `key` for the time since its last take, then takes one token if there is
+   * one. Atomic per key. The bucket may be forgotten after `expiresAt` (it is full by then).
+   */
+  take(key: string, rule: LimitRule, now: Date, expiresAt: Date): Promise<TakeResult>;
+  /** Puts one token back (capped at capacity). A missing or expired bucket is full already. */
+  give(key: string, rule: LimitRule, now: Date): Promise<void>;
+}
+
+type MemoryBucket = { tokens: number; updatedAt: number; expiresAt: number };
+
+const MEMORY_PRUNE_AT = 10_000;
+
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, MemoryBucket>();
+
+  return {
+    kind: "memory",
+    async take(key, rule, now, expiresAt) {
+      const t = now.getTime();
+
+      if (buckets.size > MEMORY_PRUNE_AT) {
+        for (const [k, b] of buckets) if (b.expiresAt <= t) buckets.delete(k);
+      }
+
+      const prev = buckets.get(key);
+      let tokens = rule.capacity;
+      if (prev && prev.expiresAt > t) {
+        const refilled = ((t - prev.updatedAt) / 1000) * rule.refillPerSec;
+        tokens = Math.min(rule.capacity, prev.tokens + refilled);
+      }
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+      buckets.set(key, { tokens, updatedAt: t, expiresAt: expiresAt.getTime() });
+      return { allowed, tokens };
+    },
+    async give(key, rule, now) {
+      const b = buckets.get(key);
+      if (b && b.expiresAt > now.getTime()) b.tokens = Math.min(rule.capacity, b.tokens + 1);
+    },
+  };
+}
+
+export function createDatabaseStore(db: SupabaseClient): RateLimitStore {
+  return {
+    kind: "database",
+    async take(key, rule, now, expiresAt) {
+      const { data, error } = await db.rpc("rate_limit_take", {
+        p_key: key,
+        p_capacity: rule.capacity,
+        p_refill_per_sec: rule.refillPerSec,
+        p_expires_at: expiresAt.toISOString(),
+      });
+      if (error) throw error;
+
+      const row = (Array.isArray(data) ? data[0] : data) as { allowed?: boolean; tokens?: number } | null;
+      return { allowed: !!row?.allowed, tokens: Number(row?.tokens ?? 0) };
+    },
+    async give(key, rule) {
+      const { error } = await db.rpc("rate_limit_give", { p_key: key, p_capacity: rule.capacity });
+      if (error) throw error;
+    },
+  };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/** The env-selected store, created once per process (the memory store must be shared). */
+export function getRateLimitStore(env: Record<string, string | undefined> = process.env): RateLimitStore {
+  if (defaultStore) return defaultStore;
+
+  const kind = env.RATE_LIMIT_STORE || (env.NODE_ENV === "production" ? "database" : "memory");
+  if (kind !== "memory" && kind !== "database") {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${kind}" (expected memory | database)`);
+  }
+
+  defaultStore = kind === "database" ? createDatabaseStore(getSupabaseAdmin()) : createMemoryStore();
+  return defaultStore;
+}
+
+/* -------------------------------------------------------
+   Checks
+------------------------------------------------------- */
+
+export type RateCheck = { rule: LimitRule; id: string }; // id = user id or IP
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; rule: string; retryAfterSec: number; response: NextResponse };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function nextUtcMidnight(now: Date) {
+  return new Date(Math.floor(now.getTime() / DAY_MS) * DAY_MS + DAY_MS);
+}
+
+/** Window key + bucket expiry; daily buckets are keyed by the UTC date. */
+function bucketFor(check: RateCheck, now: Date) {
+  const { rule, id } = check;
+  if (rule.refillPerSec > 0) {
+    const fullAfterMs = (rule.capacity / rule.refillPerSec) * 1000;
+    return { key: `${rule.name}:${id}`, expiresAt: new Date(now.getTime() + fullAfterMs) };
+  }
+  const day = now.toISOString().slice(0, 10);
+  return { key: `${rule.name}:${id}:${day}`, expiresAt: nextUtcMidnight(now) };
+}
+
+function retryAfterSec(rule: LimitRule, tokens: number, now: Date) {
+  const ms =
+    rule.refillPerSec > 0
+      ? ((1 - tokens) / rule.refillPerSec) * 1000
+      : nextUtcMidnight(now).getTime() - now.getTime();
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+function formatWait(sec: number) {
+  if (sec < 60) return `${sec}s`;
+  if (sec < 3600) return `${Math.ceil(sec / 60)} min`;
+  return `${Math.ceil(sec / 3600)} h`;
+}
+
+export function rateLimitResponse(rule: LimitRule, retryAfter: number) {
+  const message =
+    rule.refillPerSec > 0
+      ? `Too many requests. Try again in ${formatWait(retryAfter)}.`
+      : `Daily limit of ${rule.capacity} regenerations reached. Try again in ${formatWait(retryAfter)}.`;
+
+  return NextResponse.json(
+    { error: "RATE_LIMITED", limit: rule.name, retryAfter, message },
+    { status: 429, headers: { "Retry-After": String(retryAfter), "Cache-Control": "no-store" } }
+  );
+}
+
+/**
+ * Takes one token from each bucket in order and stops at the first empty one (earlier
+ * buckets keep the token they gave). A store failure lets the request through: the
+ * limiter must not take the API down with it.
+ */
+export async function checkRateLimits(
+  checks: RateCheck[],
+  store: RateLimitStore = getRateLimitStore(),
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  for (const check of checks) {
+    const { key, expiresAt } = bucketFor(check, now);
+
+    let result: TakeResult;
+    try {
+      result = await store.take(key, check.rule, now, expiresAt);
+    } catch (e) {
+      console.error(`[rate-limit] ${store.kind} store failed, allowing`, e);
+      return { ok: true };
+    }
+
+    if (!result.allowed) {
+      const retryAfter = retryAfterSec(check.rule, result.tokens, now);
+      console.warn(`[rate-limit] ${key} limited, retry in ${retryAfter}s`);
+      return {
+        ok: false,
+        rule: check.rule.name,
+        retryAfterSec: retryAfter,
+        response: rateLimitResponse(check.rule, retryAfter),
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Returns the token a request took from `check` (same `now` as the take, so a daily
+ * bucket refunds the right day). For work that failed on our side, e.g. a regeneration
+ * the LLM never delivered. Never throws.
+ */
+export async function refundRateLimit(
+  check: RateCheck,
+  store: RateLimitStore = getRateLimitStore(),
+  now: Date = new Date()
+) {
+  const { key } = bucketFor(check, now);
+  try {
+    await store.give(key, check.rule, now);
+  } catch (e) {
+    console.error(`[rate-limit] ${store.kind} store failed to refund ${key}`, e);
+  }
+}
+
+/**
+ * The address our own proxy saw. Clients can send any x-forwarded-for, and proxies
+ * append to it, so only the last TRUSTED_PROXY_HOPS entries are ours: the client is
+ * the entry those proxies added, counted from the right. Else x-real-ip.
+ */
+export function clientIp(request: Request, env: Record<string, string | undefined> = process.env) {
+  const hops = Math.max(1, Math.floor(Number(env.TRUSTED_PROXY_HOPS) || 1));
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  const hop = forwarded.length >= hops ? forwarded[forwarded.length - hops] : forwarded[0];
+  return hop || request.headers.get("x-real-ip")?.trim() || "unknown";
+}
@@ -0,0 +1,238 @@
+// lib/razorpay.ts
+// Shared Razorpay helpers for the order / verify / webhook routes.
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  extendEntitlement,
+  getPlan,
+  LEGACY_PLAN_ID,
+  NO_ENTITLEMENT,
+  type Entitlement,
+  type PlanId,
+} from "@/lib/plans";
+import { redeemCheckoutCode, type CheckoutCode } from "@/lib/coupons";
+
+export type PaymentStatus = "failed" | "captured" | "refunded";
+
+// A payment only moves forward: failed → captured → refunded.
+// Replayed or out-of-order webhooks can't undo a later state.
+const STATUS_RANK: Record<PaymentStatus, number> = {
+  failed: 0,
+  captured: 1,
+  refunded: 2,
+};
+
+function hmacHex(secret: string, data: string) {
+  return crypto.createHmac("sha256", secret).update(data).digest("hex");
+}
+
+function safeEqualHex(expected: string, received: string) {
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(String(received ?? ""), "utf8");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Checkout handler signature: HMAC(order_id|payment_id) with the key secret. */
+export function verifyPaymentSignature(params: {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+  keySecret: string;
+}) {
+  const expected = hmacHex(params.keySecret, `${params.orderId}|${params.paymentId}`);
+  return safeEqualHex(expected, params.signature);
+}
+
+/** Webhook signature: HMAC of the raw request body with the webhook secret. */
+export function verifyWebhookSignature(params: {
+  rawBody: string;
+  signature: string;
+  webhookSecret: string;
+}) {
+  const expected = hmacHex(params.webhookSecret, params.rawBody);
+  return safeEqualHex(expected, params.signature);
+}
+
+/**
+ * Idempotent insert/update of a payments row keyed by payment_id.
+ * Never moves a payment backwards (see STATUS_RANK).
+ */
+export async function upsertPayment(
+  admin: SupabaseClient,
+  p: {
+    userId: string;
+    orderId: string;
+    paymentId: string;
+    amount: number;
+    currency: string;
+    status: PaymentStatus;
+    signature?: string | null;
+  }
+): Promise<{ status: PaymentStatus; changed: boolean }> {
+  const { data: existing, error: readErr } = await admin
+    .from("payments")
+    .select("status")
+    .eq("payment_id", p.paymentId)
+    .maybeSingle();
+
+  if (readErr) throw readErr;
+
+  const current = existing?.status as PaymentStatus | undefined;
+  if (current && STATUS_RANK[current] !== undefined && STATUS_RANK[current] >= STATUS_RANK[p.status]) {
+    return { status: current, changed: false };
+  }
+
+  const { error } = await admin.from("payments").upsert(
+    {
+      user_id: p.userId,
+      order_id: p.orderId,
+      payment_id: p.paymentId,
+      amount: p.amount,
+      currency: p.currency,
+      status: p.status,
+      ...(p.signature ? { signature: p.signature } : {}),
+    },
+    { onConflict: "payment_id" }
+  );
+
+  if (error) throw error;
+  return { status: p.status, changed: true };
+}
+
+/**
+ * Recomputes profiles.plan_id / pro_until from every captured payment, oldest first.
+ * Idempotent: /verify and the webhook can both call it for the same payment, and a
+ * refund (status → refunded) simply drops that payment from the fold.
+ */
+export async function syncEntitlement(
+  admin: SupabaseClient,
+  userId: string,
+  email?: string | null
+): Promise<Entitlement> {
+  const { data: pays, error } = await admin
+    .from("payments")
+    .select("order_id, created_at")
+    .eq("user_id", userId)
+    .eq("status", "captured")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const orderIds = (pays ?? []).map((p) => p.order_id as string);
+  const planByOrder = new Map<string, string | null>();
+
+  if (orderIds.length) {
+    const { data: orders, error: oErr } = await admin
+      .from("payment_orders")
+      .select("order_id, plan_id")
+      .in("order_id", orderIds);
+
+    if (oErr) throw oErr;
+    for (const o of orders ?? []) planByOrder.set(o.order_id as string, o.plan_id as string | null);
+  }
+
+  let ent: Entitlement = NO_ENTITLEMENT;
+  for (const p of pays ?? []) {
+    const plan = getPlan(planByOrder.get(p.order_id as string) ?? LEGACY_PLAN_ID);
+    if (plan) ent = extendEntitlement(ent, plan, new Date(p.created_at as string));
+  }
+
+  const { error: upErr } = await admin.from("profiles").upsert(
+    {
+      id: userId,
+      ...(email !== undefined ? { email } : {}),
+      plan_id: ent.planId,
+      pro_until: ent.proUntil,
+    },
+    { onConflict: "id" }
+  );
+
+  if (upErr) throw upErr;
+  return ent;
+}
+
+/* -------------------------------------------------------
+   payment_orders: server-side record of every order we create
+------------------------------------------------------- */
+
+export type PaymentOrder = {
+  order_id: string;
+  user_id: string;
+  amount: number;
+  currency: string;
+  plan_id: PlanId | null;
+  status: "created" | "paid";
+  /** coupon / referral applied at checkout */
+  code: string | null;
+  code_kind: CheckoutCode["kind"] | null;
+  discount: number;
+  referrer_id: string | null;
+};
+
+export async function savePaymentOrder(
+  admin: SupabaseClient,
+  o: {
+    orderId: string;
+    userId: string;
+    planId: PlanId;
+    amount: number;
+    listAmount: number;
+    currency: string;
+    receipt: string;
+    applied?: CheckoutCode | null;
+  }
+) {
+  const { error } = await admin.from("payment_orders").insert({
+    order_id: o.orderId,
+    user_id: o.userId,
+    plan_id: o.planId,
+    amount: o.amount,
+    list_amount: o.listAmount,
+    currency: o.currency,
+    receipt: o.receipt,
+    code: o.applied?.code ?? null,
+    code_kind: o.applied?.kind ?? null,
+    discount: o.applied?.discountPaise ?? 0,
+    referrer_id: o.applied?.referrerId ?? null,
+    status: "created",
+  });
+
+  if (error) throw error;
+}
+
+export async function getPaymentOrder(
+  admin: SupabaseClient,
+  orderId: string
+): Promise<PaymentOrder | null> {
+  const { data, error } = await admin
+    .from("payment_orders")
+    .select("order_id, user_id, plan_id, amount, currency, status, code, code_kind, discount, referrer_id")
+    .eq("order_id", orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as PaymentOrder | null) ?? null;
+}
+
+export async function markOrderPaid(admin: SupabaseClient, orderId: string) {
+  const { error } = await admin
+    .from("payment_orders")
+    .update({ status: "paid", paid_at: new Date().toISOString() })
+    .eq("order_id", orderId)
+    .eq("status", "created");
+
+  if (error) throw error;
+}
+
+/** Records the order's coupon / referral as used once the order is paid (idempotent). */
+export async function redeemOrderCode(admin: SupabaseClient, order: PaymentOrder) {
+  if (!order.code || !order.code_kind) return;
+
+  const result = await redeemCheckoutCode(admin, order.order_id);
+  if (result === "over_cap") {
+    console.warn("Checkout code over its cap after the hold lapsed; order flagged", {
+      orderId: order.order_id,
+      code: order.code,
+    });
+  }
+}
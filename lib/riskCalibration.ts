@@ -0,0 +1,162 @@
+// lib/riskCalibration.ts
+// Does attempting pay off under +2 / −0.66? Compares the user's blind attempts with
+// StrategyV1.ai_verdict (attempt/skip + 0–100 confidence) and with their own
+// self-rated confidence (lib/attemptEvents.ts).
+//
+// Only "blind" attempts count: the first attempt per question, made before the
+// analysis was on screen. Re-attempts after reading the explanation would flatter
+// everyone. Skipping always scores 0, so a skip-recommended question the user got
+// wrong is −0.66 the AI would have saved, and one they got right is +2 it would
+// have cost.
+//
+// Covers attempted questions only. The user's own skips are not recorded anywhere
+// (question_attempts holds answers), so the report cannot credit a skip they made.
+import { MARKS_CORRECT, MARKS_WRONG } from "@/lib/scoring";
+
+export type BlindAttempt = {
+  questionId: number;
+  createdAt: string;
+  isCorrect: boolean | null; // null = voided
+  analysisOpenedFirst: boolean;
+  confidence: string | null; // sure | fifty_fifty | guess
+  area: string; // subject bucket (topic id or label)
+  verdict: { recommendation: "attempt" | "skip"; confidence: number } | null;
+};
+
+export type VerdictBucket = {
+  attempts: number;
+  correct: number;
+  netMarks: number;
+  /** what the AI's own confidence implied (attempt recommendations only; a skip scores 0) */
+  expectedNetMarks: number;
+};
+
+export type CalibrationBin = {
+  label: string; // "70–85%"
+  attempts: number;
+  avgStatedPct: number;
+  actualPct: number;
+};
+
+export type GuessingBySubject = {
+  area: string;
+  guesses: number; // rated guess or 50-50
+  netMarks: number;
+  perGuess: number;
+};
+
+export type RiskReport = {
+  blindAttempts: number;
+  netMarks: number;
+  aiAttempt: VerdictBucket;
+  aiSkip: VerdictBucket;
+  noVerdict: number;
+  /** marks gained (+) or lost (−) had the user skipped everything the AI said to skip */
+  followingAiDelta: number;
+  calibration: CalibrationBin[];
+  guessing: GuessingBySubject[];
+  guessingNet: number;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const marksFor = (correct: boolean) => (correct ? MARKS_CORRECT : MARKS_WRONG);
+
+/** Expected net marks for one attempt answered right with probability p. */
+export function expectedMarks(p: number) {
+  const q = Math.max(0, Math.min(1, p));
+  return q * MARKS_CORRECT + (1 - q) * MARKS_WRONG;
+}
+
+const CALIBRATION_EDGES = [0, 50, 70, 85, 101];
+
+function emptyBucket(): VerdictBucket {
+  return { attempts: 0, correct: 0, netMarks: 0, expectedNetMarks: 0 };
+}
+
+export function buildRiskReport(attempts: BlindAttempt[]): RiskReport {
+  // first attempt per question; dropped if the analysis was already open
+  const firsts = new Map<number, BlindAttempt>();
+  for (const a of [...attempts].sort((x, y) => x.createdAt.localeCompare(y.createdAt))) {
+    if (firsts.has(a.questionId)) continue;
+    firsts.set(a.questionId, a);
+  }
+  const blind = Array.from(firsts.values()).filter(
+    (a): a is BlindAttempt & { isCorrect: boolean } => !a.analysisOpenedFirst && a.isCorrect !== null
+  );
+
+  const aiAttempt = emptyBucket();
+  const aiSkip = emptyBucket();
+  let noVerdict = 0;
+  let netMarks = 0;
+
+  const bins = CALIBRATION_EDGES.slice(0, -1).map(() => ({ n: 0, stated: 0, ok: 0 }));
+  const guessing = new Map<string, { n: number; net: number }>();
+
+  for (const a of blind) {
+    const m = marksFor(a.isCorrect);
+    netMarks += m;
+
+    if (a.verdict) {
+      const b = a.verdict.recommendation === "skip" ? aiSkip : aiAttempt;
+      b.attempts += 1;
+      if (a.isCorrect) b.correct += 1;
+      b.netMarks += m;
+
+      // expected marks and calibration only make sense where the AI backed an answer
+      if (a.verdict.recommendation === "attempt") {
+        const conf = a.verdict.confidence;
+        b.expectedNetMarks += expectedMarks(conf / 100);
+        const i = bins.findIndex((_, k) => conf >= CALIBRATION_EDGES[k] && conf < CALIBRATION_EDGES[k + 1]);
+        if (i >= 0) {
+          bins[i].n += 1;
+          bins[i].stated += conf;
+          if (a.isCorrect) bins[i].ok += 1;
+        }
+      }
+    } else {
+      noVerdict += 1;
+    }
+
+    if (a.confidence === "guess" || a.confidence === "fifty_fifty") {
+      const g = guessing.get(a.area) ?? { n: 0, net: 0 };
+      g.n += 1;
+      g.net += m;
+      guessing.set(a.area, g);
+    }
+  }
+
+  const guessList = Array.from(guessing.entries())
+    .map(([area, g]) => ({
+      area,
+      guesses: g.n,
+      netMarks: round2(g.net),
+      perGuess: round2(g.net / g.n),
+    }))
+    .sort((a, b) => a.netMarks - b.netMarks);
+
+  const roundBucket = (b: VerdictBucket): VerdictBucket => ({
+    ...b,
+    netMarks: round2(b.netMarks),
+    expectedNetMarks: round2(b.expectedNetMarks),
+  });
+
+  return {
+    blindAttempts: blind.length,
+    netMarks: round2(netMarks),
+    aiAttempt: roundBucket(aiAttempt),
+    aiSkip: roundBucket(aiSkip),
+    noVerdict,
+    followingAiDelta: round2(-aiSkip.netMarks),
+    calibration: bins
+      .map((b, i) => ({
+        label: `${CALIBRATION_EDGES[i]}–${Math.min(100, CALIBRATION_EDGES[i + 1])}%`,
+        attempts: b.n,
+        avgStatedPct: b.n ? Math.round(b.stated / b.n) : 0,
+        actualPct: b.n ? Math.round((b.ok / b.n) * 100) : 0,
+      }))
+      .filter((b) => b.attempts > 0),
+    guessing: guessList,
+    guessingNet: round2(guessList.reduce((s, g) => s + g.netMarks, 0)),
+  };
+}
@@ -0,0 +1,68 @@
+// lib/scoring.ts
+// UPSC Prelims (GS Paper I) marking: +2 for a correct answer, −0.66 for a wrong one,
+// 0 for an unattempted question. Questions dropped from the key score nothing (lib/answerKey).
+import type { AnswerKey } from "@/lib/answerKey";
+
+export const MARKS_CORRECT = 2;
+export const MARKS_WRONG = -0.66;
+
+export type ScoredAnswer = {
+  selected: string | null;
+  correct: string | null;
+  /** key status aware grading (lib/answerKey); falls back to `correct` when absent */
+  key?: AnswerKey;
+};
+
+export type ScoreSummary = {
+  total: number;
+  attempted: number;
+  correct: number;
+  wrong: number;
+  unattempted: number;
+  voided: number; // dropped by UPSC: no marks either way, excluded from maxMarks
+  netMarks: number;
+  maxMarks: number;
+  accuracyPct: number; // correct / attempted, 0..100
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function normalizeOption(x: unknown): "A" | "B" | "C" | "D" | null {
+  const s = String(x ?? "").trim().toUpperCase();
+  return s === "A" || s === "B" || s === "C" || s === "D" ? s : null;
+}
+
+export function scoreAnswers(items: ScoredAnswer[]): ScoreSummary {
+  let correct = 0;
+  let wrong = 0;
+  let voided = 0;
+
+  for (const it of items) {
+    if (it.key && it.key.accepted.length === 0) {
+      voided += 1;
+      continue;
+    }
+
+    const sel = normalizeOption(it.selected);
+    if (!sel) continue;
+
+    const ok = it.key ? (it.key.accepted as string[]).includes(sel) : sel === normalizeOption(it.correct);
+    if (ok) correct += 1;
+    else wrong += 1;
+  }
+
+  const attempted = correct + wrong;
+  const scored = items.length - voided;
+
+  return {
+    total: items.length,
+    attempted,
+    correct,
+    wrong,
+    unattempted: scored - attempted,
+    voided,
+    netMarks: round2(correct * MARKS_CORRECT + wrong * MARKS_WRONG),
+    maxMarks: round2(scored * MARKS_CORRECT),
+    accuracyPct: attempted ? Math.round((correct / attempted) * 100) : 0,
+  };
+}
@@ -0,0 +1,83 @@
+// lib/search.ts
+// Full-text search over PYQs: question text + options, and the topic brief / facts of
+// each question's current analysis ("all PYQs on Ramsar sites"). Analyses are only
+// searched for questions the caller has unlocked or when they have Pro.
+//
+// Ranking and snippets are done in Postgres (public.search_questions, see
+// supabase/migrations). Snippets mark matches with control characters rather than
+// HTML, so the UI can highlight them without rendering markup from the database.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type SearchMatch = "question" | "analysis" | "both";
+
+export type SearchHit = {
+  questionId: number;
+  year: number | null;
+  questionNumber: number | null;
+  subject: string | null;
+  topicId: string | null;
+  rank: number;
+  matchedIn: SearchMatch;
+  snippet: string;
+};
+
+export type SnippetPart = { text: string; hit: boolean };
+
+export const MIN_QUERY_LENGTH = 3;
+export const SEARCH_LIMIT = 20;
+
+const HIT_START = "\u0001";
+const HIT_END = "\u0002";
+
+type SearchRow = {
+  question_id: number;
+  year: number | null;
+  question_number: number | null;
+  subject: string | null;
+  topic_id: string | null;
+  rank: number;
+  matched_in: SearchMatch;
+  snippet: string | null;
+};
+
+/** "the «Ramsar» convention" → [{the, false}, {Ramsar, true}, {convention, false}] */
+export function snippetParts(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const chunk of snippet.split(HIT_START)) {
+    const end = chunk.indexOf(HIT_END);
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, hit: false });
+      continue;
+    }
+    parts.push({ text: chunk.slice(0, end), hit: true });
+    if (end + 1 < chunk.length) parts.push({ text: chunk.slice(end + 1), hit: false });
+  }
+  return parts;
+}
+
+export async function searchQuestions(
+  client: SupabaseClient,
+  query: string,
+  limit = SEARCH_LIMIT
+): Promise<SearchHit[]> {
+  const q = query.trim();
+  if (q.length < MIN_QUERY_LENGTH) return [];
+
+  const { data, error } = await client.rpc("search_questions", {
+    search_query: q,
+    max_results: limit,
+  });
+
+  if (error) throw error;
+
+  return ((data ?? []) as SearchRow[]).map((r) => ({
+    questionId: r.question_id,
+    year: r.year,
+    questionNumber: r.question_number,
+    subject: r.subject,
+    topicId: r.topic_id,
+    rank: r.rank,
+    matchedIn: r.matched_in,
+    snippet: r.snippet ?? "",
+  }));
+}
@@ -0,0 +1,108 @@
+// lib/spacedRepetition.ts
+// SM-2 style review scheduler, replayed from the full question_attempts history.
+//
+// Every attempt is a review. Correct answers grow the interval (2 days → 6 days →
+// interval × easiness); a wrong answer resets the question to a 48-hour re-attempt.
+// Answering correctly after a longer gap than scheduled counts the real gap, so a
+// question recalled after a month isn't pulled back to a 6-day cycle.
+
+export type AttemptEvent = {
+  question_id: number;
+  is_correct: boolean | null;
+  created_at: string;
+};
+
+export type ReviewState = {
+  questionId: number;
+  repetitions: number; // consecutive correct reviews
+  easiness: number; // SM-2 E-factor, >= 1.3
+  intervalDays: number;
+  lapses: number; // times answered wrong
+  lastReviewedAt: string;
+  lastCorrect: boolean;
+  dueAt: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+const FIRST_INTERVAL_DAYS = 2; // "reattempt after 48 hours"
+const SECOND_INTERVAL_DAYS = 6;
+
+// SM-2 grades 0..5; we only know right/wrong, plus whether recall held over the full gap.
+const QUALITY_WRONG = 2;
+const QUALITY_CORRECT_EARLY = 4;
+const QUALITY_CORRECT_ON_TIME = 5;
+
+function nextEasiness(ef: number, q: number) {
+  const next = ef + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+  return Math.max(MIN_EASINESS, Math.round(next * 100) / 100);
+}
+
+/** Replays attempts (any order) into one review state per question. */
+export function buildReviewSchedule(events: AttemptEvent[]): Map<number, ReviewState> {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  const out = new Map<number, ReviewState>();
+
+  for (const ev of sorted) {
+    const at = new Date(ev.created_at).getTime();
+    if (!Number.isFinite(at)) continue;
+    if (ev.is_correct === null) continue; // not scored (question dropped from the key)
+
+    const correct = ev.is_correct === true;
+    const prev = out.get(ev.question_id);
+
+    let repetitions = prev?.repetitions ?? 0;
+    let easiness = prev?.easiness ?? INITIAL_EASINESS;
+    let intervalDays = prev?.intervalDays ?? 0;
+    let lapses = prev?.lapses ?? 0;
+
+    const elapsedDays = prev ? (at - new Date(prev.lastReviewedAt).getTime()) / DAY_MS : 0;
+
+    if (correct) {
+      const onTime = !!prev && elapsedDays >= prev.intervalDays;
+      easiness = nextEasiness(easiness, onTime ? QUALITY_CORRECT_ON_TIME : QUALITY_CORRECT_EARLY);
+      repetitions += 1;
+
+      if (repetitions === 1) intervalDays = FIRST_INTERVAL_DAYS;
+      else if (repetitions === 2) intervalDays = SECOND_INTERVAL_DAYS;
+      else intervalDays = Math.round(Math.max(intervalDays, elapsedDays) * easiness);
+    } else {
+      easiness = nextEasiness(easiness, QUALITY_WRONG);
+      repetitions = 0;
+      lapses += 1;
+      intervalDays = FIRST_INTERVAL_DAYS;
+    }
+
+    out.set(ev.question_id, {
+      questionId: ev.question_id,
+      repetitions,
+      easiness,
+      intervalDays,
+      lapses,
+      lastReviewedAt: new Date(at).toISOString(),
+      lastCorrect: correct,
+      dueAt: new Date(at + intervalDays * DAY_MS).toISOString(),
+    });
+  }
+
+  return out;
+}
+
+/** Questions due by the end of today (local time), most overdue first. */
+export function dueForReview(
+  schedule: Map<number, ReviewState>,
+  now: Date = new Date()
+): ReviewState[] {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  const cutoff = endOfToday.getTime();
+
+  return Array.from(schedule.values())
+    .filter((s) => new Date(s.dueAt).getTime() <= cutoff)
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
@@ -0,0 +1,15 @@
+// lib/supabaseAdmin.ts
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for server routes only (bypasses RLS).
+ * Never import this from client components.
+ */
+export function getSupabaseAdmin() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url) throw new Error("NEXT_PUBLIC_SUPABASE_URL missing");
+  if (!key) throw new Error("SUPABASE_SERVICE_ROLE_KEY missing");
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
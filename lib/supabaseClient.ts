@@ -1,10 +1,12 @@
 // lib/supabaseClient.ts
-import { createClient } from "@supabase/supabase-js";
+// Browser client. The session lives in cookies (not localStorage) so that proxy.ts can
+// see who is signed in and guard pages before they render (see lib/authSession.ts).
+import { createBrowserClient } from "@supabase/ssr";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
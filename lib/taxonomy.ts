@@ -0,0 +1,129 @@
+// lib/taxonomy.ts
+// Syllabus taxonomy: paper → subject → topic → subtopic (table `topics`).
+// Pure apart from fetchTopics, so the practice filter, the profile roll-up and the
+// importer share one set of rules.
+//
+// Topic ids are dotted paths ("gs1.polity.constitution"), so every ancestor of a
+// node is a prefix of its id and roll-ups need no parent lookups.
+// questions.topic_id holds the most specific node a question is tagged with;
+// questions.subject stays as the display string it always was.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type TopicLevel = "paper" | "subject" | "topic" | "subtopic";
+
+export const TOPIC_LEVELS: TopicLevel[] = ["paper", "subject", "topic", "subtopic"];
+
+export type Topic = {
+  id: string;
+  parent_id: string | null;
+  level: TopicLevel;
+  name: string;
+  sort_order: number;
+};
+
+export type TopicNode = Topic & { depth: number; children: TopicNode[] };
+
+/** Bucket for questions / attempts with no topic_id yet. */
+export const UNTAGGED = "__untagged";
+
+export async function fetchTopics(client: SupabaseClient): Promise<Topic[]> {
+  const { data, error } = await client
+    .from("topics")
+    .select("id, parent_id, level, name, sort_order")
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as Topic[];
+}
+
+/** "gs1.polity.constitution" → ["gs1", "gs1.polity", "gs1.polity.constitution"] */
+export function ancestorIds(topicId: string): string[] {
+  const parts = topicId.split(".");
+  return parts.map((_, i) => parts.slice(0, i + 1).join("."));
+}
+
+/** True when topicId is nodeId itself or anywhere below it. */
+export function isWithin(topicId: string | null | undefined, nodeId: string) {
+  if (!topicId) return nodeId === UNTAGGED;
+  return topicId === nodeId || topicId.startsWith(`${nodeId}.`);
+}
+
+export function buildTopicTree(topics: Topic[]): TopicNode[] {
+  const nodes = new Map<string, TopicNode>();
+  for (const t of topics) nodes.set(t.id, { ...t, depth: 0, children: [] });
+
+  const roots: TopicNode[] = [];
+  for (const n of nodes.values()) {
+    const parent = n.parent_id ? nodes.get(n.parent_id) : null;
+    if (parent) parent.children.push(n);
+    else roots.push(n);
+  }
+
+  const order = (list: TopicNode[], depth: number) => {
+    list.sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+    for (const n of list) {
+      n.depth = depth;
+      order(n.children, depth + 1);
+    }
+  };
+  order(roots, 0);
+
+  return roots;
+}
+
+/** Depth-first, parents before children (for tables and indented lists). */
+export function flattenTree(roots: TopicNode[]): TopicNode[] {
+  const out: TopicNode[] = [];
+  const walk = (list: TopicNode[]) => {
+    for (const n of list) {
+      out.push(n);
+      walk(n.children);
+    }
+  };
+  walk(roots);
+  return out;
+}
+
+/** "GS Paper I › Polity › Constitution" (unknown ids fall back to the id). */
+export function topicPath(byId: Map<string, Topic>, topicId: string | null | undefined, sep = " › ") {
+  if (!topicId) return "";
+  return ancestorIds(topicId)
+    .map((id) => byId.get(id)?.name)
+    .filter(Boolean)
+    .join(sep) || topicId;
+}
+
+/* -------------------------------------------------------
+   Roll-up
+------------------------------------------------------- */
+
+export type TopicTally = { total: number; correct: number };
+
+/**
+ * Counts every item at its own node and at each ancestor, so a paper's numbers
+ * include all of its subjects. Items with no topic land in UNTAGGED.
+ * `correct` is only counted when the item says so (question counts leave it unset);
+ * `count` lets one item stand for several (server-side counts per topic).
+ */
+export function rollUp(
+  items: { topicId: string | null | undefined; correct?: boolean | null; count?: number }[]
+) {
+  const tally = new Map<string, TopicTally>();
+
+  for (const item of items) {
+    const ids = item.topicId ? ancestorIds(item.topicId) : [UNTAGGED];
+    for (const id of ids) {
+      const cur = tally.get(id) ?? { total: 0, correct: 0 };
+      const n = item.count ?? 1;
+      cur.total += n;
+      if (item.correct === true) cur.correct += n;
+      tally.set(id, cur);
+    }
+  }
+
+  return tally;
+}
+
+export function accuracyPct(t: TopicTally | undefined) {
+  return t && t.total ? Math.round((t.correct / t.total) * 100) : 0;
+}
@@ -0,0 +1,62 @@
+// proxy.ts (Next 16's name for root middleware)
+// Page protection for every signed-in area, decided on the server before anything
+// renders: no session → /login?redirect=<page>, not onboarded → /onboarding?redirect=<page>.
+// Signed-in users hitting /login go straight to their redirect target.
+//
+// API routes are not covered here: they authenticate the Bearer token themselves.
+import type { NextRequest } from "next/server";
+import { getProxySession } from "@/lib/authSession";
+import { REDIRECT_PARAM, safeRedirect } from "@/lib/authRedirect";
+
+// Need a session; all but /onboarding also need a finished onboarding
+const PROTECTED = ["/practice", "/profile", "/notes", "/admin", "/onboarding"];
+const ONBOARDING = "/onboarding";
+
+const matches = (pathname: string, base: string) => pathname === base || pathname.startsWith(`${base}/`);
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const { supabase, user, respond } = await getProxySession(request);
+
+  const redirect = (path: string, next?: string) => {
+    const url = request.nextUrl.clone();
+    url.pathname = path;
+    url.search = "";
+    if (next) url.searchParams.set(REDIRECT_PARAM, next);
+    return respond(url);
+  };
+
+  if (pathname === "/login") {
+    if (!user) return respond();
+    const target = new URL(safeRedirect(request.nextUrl.searchParams.get(REDIRECT_PARAM)), request.url);
+    return respond(target);
+  }
+
+  if (!PROTECTED.some((p) => matches(pathname, p))) return respond();
+
+  const here = `${pathname}${search}`;
+  if (!user) return redirect("/login", here);
+
+  if (!matches(pathname, ONBOARDING)) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("onboarded")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (!profile || profile.onboarded === false) return redirect(ONBOARDING, here);
+  }
+
+  return respond();
+}
+
+export const config = {
+  matcher: [
+    "/login",
+    "/practice/:path*",
+    "/profile/:path*",
+    "/notes/:path*",
+    "/admin/:path*",
+    "/onboarding/:path*",
+  ],
+};
@@ -0,0 +1,210 @@
+// scripts/eval-analysis.ts
+// Offline quality eval for the analysis generator: runs the pinned cases in
+// eval/cases.json through generateQuestionAnalysis and scores every output with the
+// rule-based checks in lib/analysisEval.ts.
+//
+//   npm run eval:analysis                          fixture LLM: the reference output in eval/fixtures/
+//   npm run eval:analysis -- --llm replay          model outputs recorded in eval/recordings/
+//   npm run eval:analysis -- --llm live --record   env-configured provider (billed); saves recordings
+//   npm run eval:analysis -- --llm replay --out eval/reports/before.json --only ramsar-convention
+//
+// Each case has a hand-written reference output in eval/fixtures/<id>.json, so the default
+// run is a passing baseline that catches changes to parsing, post-processing and the
+// checks themselves. Prompt changes need recordings from a real model: compare prompt
+// versions by diffing two --out reports. A recording belongs to the exact
+// prompt it was made with: after a buildPrompt change, replay reports it as stale until
+// it is re-recorded. --strict exits 1 when any check fails (errors always exit 1).
+import fs from "fs";
+import path from "path";
+import { generateQuestionAnalysis } from "@/lib/generateQuestionAnalysis";
+import type { LlmCall } from "@/lib/generateQuestionAnalysis";
+import type { LlmProvider } from "@/lib/llmProvider";
+import { createFixtureProvider, createLlmProvider, getLlmConfig, llmConfigProblem } from "@/lib/llmProvider";
+import type { CaseReport, EvalCase, EvalReport } from "@/lib/analysisEval";
+import {
+  caseScore,
+  checkTotals,
+  formatReport,
+  generateInput,
+  hashText,
+  promptVersion,
+  scoreAnalysis,
+} from "@/lib/analysisEval";
+
+type Mode = "fixture" | "replay" | "live";
+
+type Recording = {
+  prompt: string; // hashText of the full prompt sent for this case
+  model: string;
+  outputs: string[]; // raw content per call (2 when the retry fired)
+};
+
+const CASES_FILE = "eval/cases.json";
+const RECORDINGS_DIR = "eval/recordings";
+const FIXTURES_DIR = "eval/fixtures";
+
+function usage(): never {
+  console.error(
+    "usage: npm run eval:analysis -- [--llm fixture|replay|live] [--record] [--cases file.json] " +
+      "[--only id[,id]] [--out report.json] [--strict]"
+  );
+  process.exit(2);
+}
+
+function argValue(args: string[], name: string) {
+  const i = args.indexOf(name);
+  if (i < 0) return null;
+  const v = args[i + 1];
+  if (!v || v.startsWith("--")) usage();
+  return v;
+}
+
+const recordingPath = (id: string) => path.join(RECORDINGS_DIR, `${id}.json`);
+
+function readRecording(id: string): Recording | null {
+  const file = recordingPath(id);
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as Recording) : null;
+}
+
+/** Same provider, with every prompt and raw output kept for scoring / recording. */
+function capturing(provider: LlmProvider, sent: { prompt: string; content: string }[]): LlmProvider {
+  return {
+    ...provider,
+    async complete(req) {
+      const res = await provider.complete(req);
+      sent.push({ prompt: req.prompt, content: res.content });
+      return res;
+    },
+  };
+}
+
+function providerFor(mode: Mode, c: EvalCase): LlmProvider {
+  if (mode === "fixture") {
+    const file = path.join(FIXTURES_DIR, `${c.id}.json`);
+    if (!fs.existsSync(file)) throw new Error(`no fixture output (add ${file})`);
+    return createFixtureProvider(fs.readFileSync(file, "utf8"));
+  }
+  if (mode === "live") return createLlmProvider(getLlmConfig());
+
+  const rec = readRecording(c.id);
+  if (!rec) throw new Error(`no recording (run with --llm live --record)`);
+
+  let call = 0;
+  return createFixtureProvider(
+    (req) => {
+      if (hashText(req.prompt) !== rec.prompt) {
+        throw new Error("recording is stale: the prompt changed (re-record with --llm live --record)");
+      }
+      return rec.outputs[Math.min(call++, rec.outputs.length - 1)];
+    },
+    { model: rec.model }
+  );
+}
+
+function parseRaw(content: string | undefined): unknown {
+  try {
+    return JSON.parse(content ?? "");
+  } catch {
+    return null;
+  }
+}
+
+async function runCase(mode: Mode, c: EvalCase, record: boolean): Promise<CaseReport> {
+  const sent: { prompt: string; content: string }[] = [];
+  const calls: LlmCall[] = [];
+  const base = { id: c.id, calls: 0, weak: [] as boolean[], fallback: false };
+
+  try {
+    const provider = capturing(providerFor(mode, c), sent);
+    const analysis = await generateQuestionAnalysis(generateInput(c), {
+      provider,
+      onLlmCall: (call) => calls.push(call),
+    });
+
+    if (record && sent.length) {
+      const rec: Recording = {
+        prompt: hashText(sent[0].prompt),
+        model: calls[0]?.model ?? provider.config.model,
+        outputs: sent.map((s) => s.content),
+      };
+      fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+      fs.writeFileSync(recordingPath(c.id), JSON.stringify(rec, null, 2) + "\n");
+    }
+
+    const checks = scoreAnalysis(c, analysis, parseRaw(sent[sent.length - 1]?.content));
+    return {
+      ...base,
+      calls: calls.length,
+      weak: calls.map((x) => x.weak),
+      fallback: calls.length > 0 && calls.every((x) => x.weak),
+      error: null,
+      score: caseScore(checks),
+      checks,
+    };
+  } catch (e) {
+    return { ...base, calls: calls.length, error: e instanceof Error ? e.message : String(e), score: "0/0", checks: [] };
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const mode = (argValue(args, "--llm") ?? "fixture") as Mode;
+  if (!["fixture", "replay", "live"].includes(mode)) usage();
+
+  const record = args.includes("--record");
+  if (record && mode !== "live") {
+    console.error("--record needs --llm live");
+    process.exit(2);
+  }
+
+  const envFile = path.resolve(process.cwd(), ".env.local");
+  if (fs.existsSync(envFile)) process.loadEnvFile(envFile);
+
+  if (mode === "live") {
+    const problem = llmConfigProblem();
+    if (problem) {
+      console.error(problem);
+      process.exit(1);
+    }
+  }
+
+  const casesFile = argValue(args, "--cases") ?? CASES_FILE;
+  let cases = JSON.parse(fs.readFileSync(casesFile, "utf8")) as EvalCase[];
+  const only = argValue(args, "--only");
+  if (only) {
+    const ids = new Set(only.split(","));
+    cases = cases.filter((c) => ids.has(c.id));
+    if (!cases.length) {
+      console.error(`no cases match --only ${only}`);
+      process.exit(2);
+    }
+  }
+
+  // One at a time: live runs stay inside provider rate limits and replay stays ordered
+  const reports: CaseReport[] = [];
+  for (const c of cases) reports.push(await runCase(mode, c, record));
+
+  const report: EvalReport = {
+    llm: mode === "live" ? `live:${getLlmConfig().model}` : mode,
+    prompt: promptVersion(),
+    cases: reports,
+    totals: checkTotals(reports),
+  };
+
+  console.log(formatReport(report));
+
+  const out = argValue(args, "--out");
+  if (out) {
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\nreport written to ${out}`);
+  }
+
+  const failed = reports.some((r) => r.checks.some((c) => c.status === "fail"));
+  if (reports.some((r) => r.error) || (args.includes("--strict") && failed)) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+// scripts/import-questions.ts
+// Bulk-load PYQs from a CSV or JSON file (same rules as /api/admin/questions/import).
+//
+//   npm run import:questions -- papers/2024.csv --dry-run
+//   npm run import:questions -- papers/2024.json
+//
+// Reads NEXT_PUBLIC_SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY from the environment
+// (or .env.local). Exits 1 when any row has an error, so it can gate CI.
+import fs from "fs";
+import path from "path";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { detectFormat, importQuestions, parseImportText } from "@/lib/questionImport";
+
+function usage(): never {
+  console.error("usage: npm run import:questions -- <file.csv|file.json> [--dry-run] [--format csv|json]");
+  process.exit(2);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const formatIdx = args.indexOf("--format");
+  const formatArg = formatIdx >= 0 ? args[formatIdx + 1] : null;
+  const file = args.find((a, i) => !a.startsWith("--") && (formatIdx < 0 || i !== formatIdx + 1));
+  if (!file) usage();
+
+  const envFile = path.resolve(process.cwd(), ".env.local");
+  if (fs.existsSync(envFile)) process.loadEnvFile(envFile);
+
+  const text = fs.readFileSync(file, "utf8");
+  const format = detectFormat(text, formatArg ?? path.extname(file));
+  const rows = parseImportText(text, format);
+
+  const report = await importQuestions(getSupabaseAdmin(), rows, { dryRun });
+
+  for (const e of report.errors) {
+    console.log(`row ${e.row}${e.field ? ` [${e.field}]` : ""}: ${e.message}`);
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] " : ""}${report.total} rows, ${report.valid} valid, ` +
+      `${report.duplicates} duplicates, ${report.errors.length} errors, ${report.inserted} inserted`
+  );
+
+  if (report.errors.length) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
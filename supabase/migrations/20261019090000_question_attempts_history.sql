@@ -0,0 +1,12 @@
+-- Keep every attempt as its own row so the spaced-repetition scheduler
+-- (lib/spacedRepetition.ts) can replay a question's full review history.
+-- Previously the client upserted on (user_id, question_id), overwriting wrong answers.
+
+alter table public.question_attempts
+  drop constraint if exists question_attempts_user_id_question_id_key;
+
+alter table public.question_attempts
+  alter column created_at set default now();
+
+create index if not exists question_attempts_user_question_created_idx
+  on public.question_attempts (user_id, question_id, created_at desc);
@@ -0,0 +1,54 @@
+-- Canonical, versioned analysis per question (shared by all users) and a
+-- per-user unlock record that drives the LIFETIME_FREE quota.
+-- Replaces per-user rows in question_analysis, which are backfilled below.
+
+create table if not exists public.question_analysis_versions (
+  id bigint generated by default as identity primary key,
+  question_id int8 not null references public.questions (id) on delete cascade,
+  version int not null,
+  analysis jsonb not null,
+  official_answer text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (question_id, version)
+);
+
+create table if not exists public.analysis_unlocks (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question_id int8 not null references public.questions (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, question_id)
+);
+
+-- Writes happen only through the service role (app/api/analysis).
+alter table public.question_analysis_versions enable row level security;
+alter table public.analysis_unlocks enable row level security;
+
+create policy "unlocks: read own"
+  on public.analysis_unlocks for select
+  using (auth.uid() = user_id);
+
+create policy "analysis versions: read when unlocked"
+  on public.question_analysis_versions for select
+  using (
+    exists (
+      select 1 from public.analysis_unlocks u
+      where u.user_id = auth.uid()
+        and u.question_id = question_analysis_versions.question_id
+    )
+  );
+
+-- Backfill: most recent per-user analysis becomes version 1 of each question,
+-- and every existing per-user row counts as an unlock.
+insert into public.question_analysis_versions (question_id, version, analysis, created_by, created_at)
+select distinct on (qa.question_id)
+  qa.question_id, 1, qa.analysis, qa.user_id, coalesce(qa.updated_at, now())
+from public.question_analysis qa
+where qa.analysis is not null
+order by qa.question_id, qa.updated_at desc nulls last
+on conflict (question_id, version) do nothing;
+
+insert into public.analysis_unlocks (user_id, question_id, created_at)
+select qa.user_id, qa.question_id, coalesce(qa.updated_at, now())
+from public.question_analysis qa
+on conflict (user_id, question_id) do nothing;
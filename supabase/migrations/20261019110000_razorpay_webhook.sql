@@ -0,0 +1,16 @@
+-- Razorpay webhook support (app/api/payments/razorpay/webhook).
+-- payments.payment_id is the idempotency key shared by /verify and the webhook;
+-- processed webhook event ids are kept so retries are acknowledged without reapplying.
+
+create unique index if not exists payments_payment_id_key on public.payments (payment_id);
+create index if not exists payments_order_id_idx on public.payments (order_id);
+
+create table if not exists public.payment_webhook_events (
+  event_id text primary key,
+  event text not null,
+  payment_id text,
+  received_at timestamptz not null default now()
+);
+
+alter table public.payment_webhook_events enable row level security;
+-- no policies: service role only
@@ -0,0 +1,21 @@
+-- Every Razorpay order created by /api/payments/razorpay/order, keyed by user.
+-- /verify checks ownership and takes amount + currency from here, never from the client.
+
+create table if not exists public.payment_orders (
+  order_id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount int8 not null, -- paise
+  currency text not null default 'INR',
+  receipt text,
+  status text not null default 'created' check (status in ('created', 'paid')),
+  created_at timestamptz not null default now(),
+  paid_at timestamptz
+);
+
+create index if not exists payment_orders_user_id_idx on public.payment_orders (user_id);
+
+alter table public.payment_orders enable row level security;
+
+create policy "payment orders: read own"
+  on public.payment_orders for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,43 @@
+-- Subscription plans (lib/plans.ts): entitlement = plan_id + pro_until instead of is_pro.
+-- lifetime → plan_id 'lifetime', pro_until null; other plans are Pro while pro_until > now().
+
+alter table public.profiles
+  add column if not exists plan_id text check (plan_id in ('monthly', 'prelims', 'lifetime')),
+  add column if not exists pro_until timestamptz;
+
+alter table public.payment_orders
+  add column if not exists plan_id text;
+
+-- Existing Pro users bought the old ₹399 "Lifetime access"
+update public.profiles
+set plan_id = 'lifetime', pro_until = null
+where is_pro = true and plan_id is null;
+
+comment on column public.profiles.is_pro is 'legacy; entitlement comes from plan_id / pro_until';
+
+-- Plans are written by the payment routes (service role) only; users can still
+-- update the rest of their profile row.
+create or replace function public.profiles_protect_plan()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.plan_id := null;
+    new.pro_until := null;
+  elsif new.plan_id is distinct from old.plan_id or new.pro_until is distinct from old.pro_until then
+    raise exception 'plan_id / pro_until can only be changed by the server';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_plan on public.profiles;
+create trigger profiles_protect_plan
+  before insert or update on public.profiles
+  for each row execute function public.profiles_protect_plan();
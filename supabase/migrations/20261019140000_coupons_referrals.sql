@@ -0,0 +1,74 @@
+-- Checkout codes (lib/coupons.ts): partner coupons + per-user referral codes.
+-- Redemptions are written when an order is paid (/verify, webhook), one per order.
+
+create table if not exists public.coupons (
+  code text primary key check (code = upper(code)),
+  kind text not null check (kind in ('percent', 'flat')),
+  value int not null check (value > 0), -- percent 1..100, or paise
+  expires_at timestamptz,
+  max_uses int check (max_uses is null or max_uses > 0),
+  per_user_limit int not null default 1 check (per_user_limit > 0),
+  active boolean not null default true,
+  note text, -- e.g. partner / campaign name
+  created_at timestamptz not null default now(),
+  check (kind <> 'percent' or value <= 100)
+);
+
+alter table public.coupons enable row level security;
+-- no policies: service role only
+
+-- Every user gets a referral code (volatile default → distinct per existing row)
+alter table public.profiles
+  add column if not exists referral_code text unique
+    default upper(substr(md5(gen_random_uuid()::text), 1, 8));
+
+update public.profiles
+set referral_code = upper(substr(md5(gen_random_uuid()::text), 1, 8))
+where referral_code is null;
+
+alter table public.payment_orders
+  add column if not exists list_amount int8,
+  add column if not exists code text,
+  add column if not exists code_kind text check (code_kind in ('coupon', 'referral')),
+  add column if not exists discount int8 not null default 0,
+  add column if not exists referrer_id uuid references auth.users (id) on delete set null;
+
+create table if not exists public.code_redemptions (
+  order_id text primary key references public.payment_orders (order_id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code text not null,
+  kind text not null check (kind in ('coupon', 'referral')),
+  referrer_id uuid references auth.users (id) on delete set null,
+  discount int8 not null default 0,
+  redeemed_at timestamptz not null default now()
+);
+
+create index if not exists code_redemptions_code_idx on public.code_redemptions (code);
+create index if not exists code_redemptions_user_idx on public.code_redemptions (user_id);
+create index if not exists code_redemptions_referrer_idx on public.code_redemptions (referrer_id)
+  where referrer_id is not null;
+
+alter table public.code_redemptions enable row level security;
+
+create policy "code redemptions: read own"
+  on public.code_redemptions for select
+  using (auth.uid() = user_id or auth.uid() = referrer_id);
+
+-- Referral codes are assigned by the database, not editable from the client
+create or replace function public.profiles_protect_referral_code()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role'
+     and new.referral_code is distinct from old.referral_code then
+    raise exception 'referral_code can only be changed by the server';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_referral_code on public.profiles;
+create trigger profiles_protect_referral_code
+  before update on public.profiles
+  for each row execute function public.profiles_protect_referral_code();
@@ -0,0 +1,32 @@
+-- Admin role for /api/admin/* (lib/adminAuth.ts) + lookup index for the bulk importer,
+-- which treats (year, question_number) as the identity of a question.
+
+alter table public.profiles
+  add column if not exists role text not null default 'user' check (role in ('user', 'admin'));
+
+-- Promote with: update public.profiles set role = 'admin' where email = '...';
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.role := 'user';
+  elsif new.role is distinct from old.role then
+    raise exception 'role can only be changed by the server';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+  before insert or update on public.profiles
+  for each row execute function public.profiles_protect_role();
+
+create index if not exists questions_year_number_idx on public.questions (year, question_number);
@@ -0,0 +1,27 @@
+-- Admin console (/admin): answer-key change log + invalidation of analyses
+-- that were generated against an old key.
+
+create table if not exists public.answer_key_changes (
+  id bigint generated by default as identity primary key,
+  question_id int8 not null references public.questions (id) on delete cascade,
+  old_option text,
+  new_option text,
+  reason text,
+  changed_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists answer_key_changes_question_idx
+  on public.answer_key_changes (question_id, created_at desc);
+
+alter table public.answer_key_changes enable row level security;
+-- no policies: service role only
+
+alter table public.question_analysis_versions
+  add column if not exists invalidated_at timestamptz,
+  add column if not exists invalidated_reason text;
+
+-- Current version lookup skips invalidated rows
+create index if not exists question_analysis_versions_current_idx
+  on public.question_analysis_versions (question_id, version desc)
+  where invalidated_at is null;
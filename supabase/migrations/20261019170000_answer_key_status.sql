@@ -0,0 +1,25 @@
+-- Answer-key status: provisional → final, plus questions UPSC drops or
+-- awards for more than one option. See lib/answerKey.ts.
+
+alter table public.questions
+  add column if not exists key_status text not null default 'final',
+  add column if not exists accepted_options text[];
+
+alter table public.questions
+  drop constraint if exists questions_key_status_check;
+
+alter table public.questions
+  add constraint questions_key_status_check
+  check (key_status in ('provisional', 'final', 'dropped', 'multiple_correct'));
+
+-- Dropped questions have no single key
+alter table public.questions
+  alter column correct_option drop not null;
+
+-- A dropped question is never scored, so attempts on it carry no result
+alter table public.question_attempts
+  alter column is_correct drop not null;
+
+alter table public.answer_key_changes
+  add column if not exists old_status text,
+  add column if not exists new_status text;
@@ -0,0 +1,114 @@
+-- Syllabus taxonomy (paper → subject → topic → subtopic) and questions.topic_id.
+-- Ids are dotted paths so ancestors are prefixes; see lib/taxonomy.ts.
+
+create table if not exists public.topics (
+  id text primary key,
+  parent_id text references public.topics (id) on delete cascade,
+  level text not null check (level in ('paper', 'subject', 'topic', 'subtopic')),
+  name text not null,
+  sort_order int not null default 0,
+  check (
+    (parent_id is null and id !~ '\.')
+    or (parent_id is not null and id like parent_id || '.%')
+  )
+);
+
+alter table public.topics enable row level security;
+
+drop policy if exists "topics: read all" on public.topics;
+create policy "topics: read all"
+  on public.topics for select
+  using (true);
+
+insert into public.topics (id, parent_id, level, name, sort_order) values
+  ('gs1', null, 'paper', 'GS Paper I', 1),
+  ('csat', null, 'paper', 'GS Paper II (CSAT)', 2),
+
+  ('gs1.history', 'gs1', 'subject', 'History', 1),
+  ('gs1.history.ancient-medieval', 'gs1.history', 'topic', 'Ancient & Medieval', 1),
+  ('gs1.history.modern', 'gs1.history', 'topic', 'Modern History', 2),
+  ('gs1.history.art-culture', 'gs1.history', 'topic', 'Art & Culture', 3),
+
+  ('gs1.geography', 'gs1', 'subject', 'Geography', 2),
+  ('gs1.geography.physical', 'gs1.geography', 'topic', 'Physical Geography', 1),
+  ('gs1.geography.india', 'gs1.geography', 'topic', 'Indian Geography', 2),
+  ('gs1.geography.world', 'gs1.geography', 'topic', 'World Geography', 3),
+
+  ('gs1.polity', 'gs1', 'subject', 'Polity', 3),
+  ('gs1.polity.constitution', 'gs1.polity', 'topic', 'Constitution', 1),
+  ('gs1.polity.constitution.fundamental-rights', 'gs1.polity.constitution', 'subtopic', 'Fundamental Rights & DPSP', 1),
+  ('gs1.polity.constitution.amendments', 'gs1.polity.constitution', 'subtopic', 'Amendments & Schedules', 2),
+  ('gs1.polity.institutions', 'gs1.polity', 'topic', 'Parliament, Executive & Judiciary', 2),
+  ('gs1.polity.bodies', 'gs1.polity', 'topic', 'Constitutional & Statutory Bodies', 3),
+  ('gs1.polity.governance', 'gs1.polity', 'topic', 'Governance & Local Government', 4),
+
+  ('gs1.economy', 'gs1', 'subject', 'Economy', 4),
+  ('gs1.economy.macro', 'gs1.economy', 'topic', 'Growth, Inflation & National Income', 1),
+  ('gs1.economy.banking', 'gs1.economy', 'topic', 'Money, Banking & Markets', 2),
+  ('gs1.economy.fiscal', 'gs1.economy', 'topic', 'Budget & Fiscal Policy', 3),
+  ('gs1.economy.external', 'gs1.economy', 'topic', 'External Sector & Trade', 4),
+  ('gs1.economy.schemes', 'gs1.economy', 'topic', 'Schemes & Social Sector', 5),
+
+  ('gs1.environment', 'gs1', 'subject', 'Environment', 5),
+  ('gs1.environment.ecology', 'gs1.environment', 'topic', 'Ecology & Biodiversity', 1),
+  ('gs1.environment.protected-areas', 'gs1.environment', 'topic', 'Protected Areas & Species', 2),
+  ('gs1.environment.climate', 'gs1.environment', 'topic', 'Climate Change & Pollution', 3),
+  ('gs1.environment.conventions', 'gs1.environment', 'topic', 'Conventions & Bodies', 4),
+
+  ('gs1.science-tech', 'gs1', 'subject', 'Science & Tech', 6),
+  ('gs1.science-tech.biotech', 'gs1.science-tech', 'topic', 'Biology & Biotech', 1),
+  ('gs1.science-tech.space', 'gs1.science-tech', 'topic', 'Space & Defence', 2),
+  ('gs1.science-tech.it', 'gs1.science-tech', 'topic', 'IT & Emerging Tech', 3),
+  ('gs1.science-tech.basic', 'gs1.science-tech', 'topic', 'Physics & Chemistry', 4),
+
+  ('gs1.current-affairs', 'gs1', 'subject', 'Current Events', 7),
+  ('gs1.current-affairs.national', 'gs1.current-affairs', 'topic', 'National', 1),
+  ('gs1.current-affairs.international', 'gs1.current-affairs', 'topic', 'International Relations', 2),
+
+  ('csat.comprehension', 'csat', 'subject', 'Comprehension', 1),
+  ('csat.reasoning', 'csat', 'subject', 'Logical Reasoning', 2),
+  ('csat.numeracy', 'csat', 'subject', 'Basic Numeracy', 3)
+on conflict (id) do nothing;
+
+-- Free-text subject strings (upper-cased, trimmed) → taxonomy node.
+-- Also read by the bulk importer for rows without an explicit topic.
+create table if not exists public.topic_subject_aliases (
+  subject text primary key,
+  topic_id text not null references public.topics (id) on delete cascade
+);
+
+alter table public.topic_subject_aliases enable row level security;
+-- no policies: service role only
+
+insert into public.topic_subject_aliases (subject, topic_id) values
+  ('ANCIENT & MEDIEVAL', 'gs1.history.ancient-medieval'),
+  ('ANCIENT HISTORY', 'gs1.history.ancient-medieval'),
+  ('MEDIEVAL HISTORY', 'gs1.history.ancient-medieval'),
+  ('MODERN HISTORY', 'gs1.history.modern'),
+  ('ART & CULTURE', 'gs1.history.art-culture'),
+  ('HISTORY', 'gs1.history'),
+  ('GEOGRAPHY', 'gs1.geography'),
+  ('POLITY', 'gs1.polity'),
+  ('INDIAN POLITY', 'gs1.polity'),
+  ('ECONOMICS', 'gs1.economy'),
+  ('ECONOMY', 'gs1.economy'),
+  ('ENVIRONMENT', 'gs1.environment'),
+  ('ECOLOGY', 'gs1.environment'),
+  ('SCIENCE & TECH', 'gs1.science-tech'),
+  ('SCIENCE AND TECHNOLOGY', 'gs1.science-tech'),
+  ('S&T', 'gs1.science-tech'),
+  ('CURRENT EVENTS', 'gs1.current-affairs'),
+  ('CURRENT AFFAIRS', 'gs1.current-affairs'),
+  ('CSAT', 'csat')
+on conflict (subject) do nothing;
+
+alter table public.questions
+  add column if not exists topic_id text references public.topics (id) on delete set null;
+
+create index if not exists questions_topic_idx on public.questions (topic_id);
+
+update public.questions q
+set topic_id = a.topic_id
+from public.topic_subject_aliases a
+where q.topic_id is null
+  and upper(trim(q.subject)) = a.subject;
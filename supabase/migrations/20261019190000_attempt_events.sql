@@ -0,0 +1,12 @@
+-- question_attempts as an event log: how each answer was given, not just what.
+-- See lib/attemptEvents.ts. Existing rows keep nulls (unknown).
+
+alter table public.question_attempts
+  add column if not exists time_spent_ms int check (time_spent_ms >= 0),
+  add column if not exists confidence text check (confidence in ('sure', 'fifty_fifty', 'guess')),
+  add column if not exists analysis_opened_first boolean not null default false,
+  add column if not exists session_id uuid;
+
+create index if not exists question_attempts_session_idx
+  on public.question_attempts (session_id)
+  where session_id is not null;
@@ -0,0 +1,41 @@
+-- Revision notebook: private notes per question + highlighted analysis facts.
+-- Owner-only via RLS; the browser client reads/writes directly (lib/notes.ts).
+
+create table if not exists public.question_notes (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question_id int8 not null references public.questions (id) on delete cascade,
+  body text not null default '',
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, question_id)
+);
+
+create index if not exists question_notes_tags_idx on public.question_notes using gin (tags);
+
+create table if not exists public.fact_highlights (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question_id int8 not null references public.questions (id) on delete cascade,
+  statement_id int not null,
+  fact text not null,
+  source_pointer text,
+  created_at timestamptz not null default now(),
+  unique (user_id, question_id, statement_id, fact)
+);
+
+alter table public.question_notes enable row level security;
+alter table public.fact_highlights enable row level security;
+
+drop policy if exists "question notes: own" on public.question_notes;
+create policy "question notes: own"
+  on public.question_notes for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "fact highlights: own" on public.fact_highlights;
+create policy "fact highlights: own"
+  on public.fact_highlights for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,61 @@
+-- Bookmarks + named question collections (lib/collections.ts).
+-- Bookmarks are the user's single collection with kind = 'bookmarks'.
+-- Shared collections are read-only to any signed-in user with the link.
+
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) between 1 and 80),
+  kind text not null default 'custom' check (kind in ('bookmarks', 'custom')),
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists collections_one_bookmarks_idx
+  on public.collections (user_id)
+  where kind = 'bookmarks';
+
+create index if not exists collections_user_idx on public.collections (user_id, created_at desc);
+
+create table if not exists public.collection_items (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  question_id int8 not null references public.questions (id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, question_id)
+);
+
+create index if not exists collection_items_question_idx on public.collection_items (question_id);
+
+alter table public.collections enable row level security;
+alter table public.collection_items enable row level security;
+
+drop policy if exists "collections: own" on public.collections;
+create policy "collections: own"
+  on public.collections for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "collections: read shared" on public.collections;
+create policy "collections: read shared"
+  on public.collections for select
+  using (is_shared and auth.role() = 'authenticated');
+
+drop policy if exists "collection items: own" on public.collection_items;
+create policy "collection items: own"
+  on public.collection_items for all
+  using (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+drop policy if exists "collection items: read shared" on public.collection_items;
+create policy "collection items: read shared"
+  on public.collection_items for select
+  using (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.is_shared and auth.role() = 'authenticated'
+  ));
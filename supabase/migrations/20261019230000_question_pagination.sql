@@ -0,0 +1,163 @@
+-- Server-side filtering, keyset pagination and per-filter counts for the practice
+-- page (app/api/questions, lib/questionQuery.ts).
+--
+-- Status is per user: 'attempted' / 'unattempted' by any attempt, 'wrong' when the
+-- latest attempt is wrong, 'bookmarked' via the user's bookmarks collection.
+-- Called only by the service role with the verified user id.
+
+create index if not exists questions_year_id_idx on public.questions (year, id);
+create index if not exists questions_topic_id_idx on public.questions (topic_id text_pattern_ops);
+
+-- Every question with its user status and which of the filters it passes.
+create or replace function public.practice_question_flags(
+  p_user uuid,
+  p_year int,
+  p_topic text,   -- taxonomy node (includes descendants) or '__untagged'
+  p_subject text, -- raw questions.subject, case-insensitive
+  p_status text   -- 'all' | 'unattempted' | 'attempted' | 'wrong' | 'bookmarked'
+)
+returns table (
+  question_id int8,
+  year int,
+  topic_key text,
+  year_ok boolean,
+  topic_ok boolean,
+  subject_ok boolean,
+  status_ok boolean,
+  attempted boolean,
+  wrong boolean,
+  bookmarked boolean
+)
+language sql
+stable
+set search_path = public
+as $$
+  with latest as (
+    select distinct on (a.question_id) a.question_id, a.is_correct
+    from question_attempts a
+    where a.user_id = p_user
+    order by a.question_id, a.created_at desc
+  ),
+  marked as (
+    select distinct ci.question_id
+    from collection_items ci
+    join collections c on c.id = ci.collection_id
+    where c.user_id = p_user and c.kind = 'bookmarks'
+  ),
+  base as (
+    select
+      q.id as question_id,
+      q.year::int as year,
+      coalesce(q.topic_id, '__untagged') as topic_key,
+      (p_year is null or q.year = p_year) as year_ok,
+      (
+        p_topic is null
+        or (p_topic = '__untagged' and q.topic_id is null)
+        or q.topic_id = p_topic
+        or q.topic_id like replace(replace(p_topic, '_', '\_'), '%', '\%') || '.%'
+      ) as topic_ok,
+      (p_subject is null or upper(trim(q.subject)) = upper(trim(p_subject))) as subject_ok,
+      l.question_id is not null as attempted,
+      coalesce(l.is_correct = false, false) as wrong,
+      m.question_id is not null as bookmarked
+    from questions q
+    left join latest l on l.question_id = q.id
+    left join marked m on m.question_id = q.id
+  )
+  select
+    b.question_id, b.year, b.topic_key, b.year_ok, b.topic_ok, b.subject_ok,
+    case coalesce(p_status, 'all')
+      when 'attempted' then b.attempted
+      when 'unattempted' then not b.attempted
+      when 'wrong' then b.wrong
+      when 'bookmarked' then b.bookmarked
+      else true
+    end as status_ok,
+    b.attempted, b.wrong, b.bookmarked
+  from base b;
+$$;
+
+-- One page of matching questions after the cursor (ascending id).
+create or replace function public.practice_questions_page(
+  p_user uuid,
+  p_year int,
+  p_topic text,
+  p_subject text,
+  p_status text,
+  p_after int8,
+  p_limit int
+)
+returns setof public.questions
+language sql
+stable
+set search_path = public
+as $$
+  select q.*
+  from questions q
+  join practice_question_flags(p_user, p_year, p_topic, p_subject, p_status) f
+    on f.question_id = q.id
+  where f.year_ok and f.topic_ok and f.subject_ok and f.status_ok
+    and (p_after is null or q.id > p_after)
+  order by q.id
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+$$;
+
+-- Facet counts: each dimension is counted with every *other* filter applied, so
+-- the year list shows what picking that year would give under the current topic.
+create or replace function public.practice_question_counts(
+  p_user uuid,
+  p_year int,
+  p_topic text,
+  p_subject text,
+  p_status text
+)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  with f as (
+    select * from practice_question_flags(p_user, p_year, p_topic, p_subject, p_status)
+  )
+  select jsonb_build_object(
+    'total',
+    (select count(*) from f where year_ok and topic_ok and subject_ok and status_ok),
+    'by_year',
+    (
+      select coalesce(jsonb_object_agg(year, n), '{}'::jsonb)
+      from (
+        select year, count(*) as n from f
+        where topic_ok and subject_ok and status_ok and year is not null
+        group by year
+      ) t
+    ),
+    'by_topic',
+    (
+      select coalesce(jsonb_object_agg(topic_key, n), '{}'::jsonb)
+      from (
+        select topic_key, count(*) as n from f
+        where year_ok and subject_ok and status_ok
+        group by topic_key
+      ) t
+    ),
+    'by_status',
+    (
+      select jsonb_build_object(
+        'all', count(*),
+        'unattempted', count(*) filter (where not attempted),
+        'attempted', count(*) filter (where attempted),
+        'wrong', count(*) filter (where wrong),
+        'bookmarked', count(*) filter (where bookmarked)
+      )
+      from f
+      where year_ok and topic_ok and subject_ok
+    )
+  );
+$$;
+
+revoke all on function public.practice_question_flags(uuid, int, text, text, text) from public;
+revoke all on function public.practice_questions_page(uuid, int, text, text, text, int8, int) from public;
+revoke all on function public.practice_question_counts(uuid, int, text, text, text) from public;
+grant execute on function public.practice_question_flags(uuid, int, text, text, text) to service_role;
+grant execute on function public.practice_questions_page(uuid, int, text, text, text, int8, int) to service_role;
+grant execute on function public.practice_question_counts(uuid, int, text, text, text) to service_role;
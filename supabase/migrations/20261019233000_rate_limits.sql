@@ -0,0 +1,73 @@
+-- Token buckets for the API rate limiter (lib/rateLimit.ts, RATE_LIMIT_STORE=database).
+-- One row per bucket key ("generate:user:<uuid>", "regenerate:day:<uuid>:2026-10-19", …);
+-- only the service role touches them, through rate_limit_take.
+
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists rate_limit_buckets_expires_idx on public.rate_limit_buckets (expires_at);
+
+-- RLS on with no policies: invisible to anon/authenticated
+alter table public.rate_limit_buckets enable row level security;
+
+-- Refill for the elapsed time, then take one token if there is one. The row lock makes
+-- concurrent requests for the same key queue up instead of both spending the last token.
+create or replace function public.rate_limit_take(
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_sec double precision, -- 0 = fixed window (the key carries the window)
+  p_expires_at timestamptz
+)
+returns table (allowed boolean, tokens double precision)
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_tokens double precision;
+  v_updated timestamptz;
+  v_expires timestamptz;
+  v_allowed boolean;
+begin
+  insert into rate_limit_buckets as b (key, tokens, updated_at, expires_at)
+  values (p_key, p_capacity, now(), p_expires_at)
+  on conflict (key) do nothing;
+
+  select b.tokens, b.updated_at, b.expires_at
+    into v_tokens, v_updated, v_expires
+  from rate_limit_buckets b
+  where b.key = p_key
+  for update;
+
+  if v_expires <= now() then
+    v_tokens := p_capacity;
+  else
+    v_tokens := least(
+      p_capacity,
+      v_tokens + extract(epoch from (now() - v_updated)) * p_refill_per_sec
+    );
+  end if;
+
+  v_allowed := v_tokens >= 1;
+  if v_allowed then
+    v_tokens := v_tokens - 1;
+  end if;
+
+  update rate_limit_buckets b
+  set tokens = v_tokens, updated_at = now(), expires_at = p_expires_at
+  where b.key = p_key;
+
+  -- Occasional sweep so expired buckets don't pile up
+  if random() < 0.01 then
+    delete from rate_limit_buckets b where b.expires_at < now();
+  end if;
+
+  return query select v_allowed, v_tokens;
+end;
+$$;
+
+revoke all on function public.rate_limit_take(text, double precision, double precision, timestamptz) from public;
+grant execute on function public.rate_limit_take(text, double precision, double precision, timestamptz) to service_role;
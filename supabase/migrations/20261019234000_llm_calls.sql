@@ -0,0 +1,68 @@
+-- One row per LLM provider call (lib/llmUsage.ts): who and what it was for, tokens,
+-- cost at the time of the call, latency, and whether the weak-output retry fired.
+-- Written and read only by the service role (admin spend report).
+
+create table if not exists public.llm_calls (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  request_id uuid not null, -- calls made for the same API request (first attempt + retry)
+  route text not null, -- 'analysis' | 'analysis:refresh' | 'admin:regenerate' | 'admin:diagnostics'
+  plan text not null, -- 'free', the paid plan id, or 'admin'
+  user_id uuid references auth.users (id) on delete set null,
+  question_id int8 references public.questions (id) on delete set null,
+  provider text not null,
+  model text not null,
+  attempt int not null,
+  prompt_tokens int, -- null when the provider didn't report usage
+  completion_tokens int,
+  cost_usd numeric(12, 6), -- null for unknown models or missing usage
+  latency_ms int not null,
+  weak boolean not null default false,
+  error text
+);
+
+create index if not exists llm_calls_created_idx on public.llm_calls (created_at desc);
+create index if not exists llm_calls_user_idx on public.llm_calls (user_id, created_at desc);
+
+-- RLS on with no policies: invisible to anon/authenticated
+alter table public.llm_calls enable row level security;
+
+-- Daily totals per (UTC day, plan, route) since p_since, for the admin spend report.
+create or replace function public.llm_spend_daily(p_since timestamptz)
+returns table (
+  day date,
+  plan text,
+  route text,
+  calls int,
+  requests int,
+  prompt_tokens int8,
+  completion_tokens int8,
+  cost_usd numeric,
+  weak_calls int,
+  failed_calls int,
+  unpriced_calls int
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    (c.created_at at time zone 'utc')::date as day,
+    c.plan,
+    c.route,
+    count(*)::int as calls,
+    count(distinct c.request_id)::int as requests,
+    coalesce(sum(c.prompt_tokens), 0)::int8 as prompt_tokens,
+    coalesce(sum(c.completion_tokens), 0)::int8 as completion_tokens,
+    coalesce(sum(c.cost_usd), 0) as cost_usd,
+    (count(*) filter (where c.weak))::int as weak_calls,
+    (count(*) filter (where c.error is not null))::int as failed_calls,
+    (count(*) filter (where c.cost_usd is null))::int as unpriced_calls
+  from llm_calls c
+  where c.created_at >= p_since
+  group by 1, 2, 3
+  order by 1 desc, 2, 3;
+$$;
+
+revoke all on function public.llm_spend_daily(timestamptz) from public;
+grant execute on function public.llm_spend_daily(timestamptz) to service_role;
@@ -0,0 +1,105 @@
+-- Checkout codes are held from order creation until payment (lib/coupons.ts), so one
+-- single-use code can't discount several unpaid orders that are then all paid.
+--
+-- A hold counts against the caps while it is live: not released (payment.failed, order
+-- creation failed), not expired, and its order not yet paid. Once paid, the order's
+-- code_redemptions row counts instead.
+
+create table if not exists public.code_reservations (
+  id uuid primary key default gen_random_uuid(),
+  code text not null,
+  kind text not null check (kind in ('coupon', 'referral')),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  order_id text unique references public.payment_orders (order_id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  released_at timestamptz
+);
+
+create index if not exists code_reservations_code_idx on public.code_reservations (code, expires_at);
+create index if not exists code_reservations_user_idx on public.code_reservations (user_id, kind);
+
+alter table public.code_reservations enable row level security;
+-- no policies: service role only
+
+-- Checks the caps against paid redemptions + live holds and takes a hold, atomically:
+-- concurrent checkouts with the same code (or the same buyer's referral) queue on an
+-- advisory lock. error is null on success.
+create or replace function public.reserve_checkout_code(
+  p_code text,
+  p_kind text,
+  p_user uuid,
+  p_hold_minutes int
+)
+returns table (reservation_id uuid, error text)
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_max_uses int;
+  v_per_user int;
+  v_all int;
+  v_mine int;
+  v_id uuid;
+begin
+  if p_kind = 'referral' then
+    -- One referral per buyer, whichever code it was
+    perform pg_advisory_xact_lock(hashtext('checkout-referral:' || p_user::text));
+
+    select count(*) into v_mine
+    from (
+      select 1 from code_redemptions cr where cr.user_id = p_user and cr.kind = 'referral'
+      union all
+      select 1 from code_reservations r
+      where r.user_id = p_user and r.kind = 'referral'
+        and r.released_at is null and r.expires_at > now()
+        and not exists (select 1 from code_redemptions cr where cr.order_id = r.order_id)
+    ) t;
+
+    if v_mine > 0 then
+      return query select null::uuid, 'You have already used a referral code'::text;
+      return;
+    end if;
+  else
+    perform pg_advisory_xact_lock(hashtext('checkout-code:' || p_code));
+
+    select c.max_uses, c.per_user_limit into v_max_uses, v_per_user
+    from coupons c
+    where c.code = p_code;
+
+    if not found then
+      return query select null::uuid, 'Invalid code'::text;
+      return;
+    end if;
+
+    select count(*), count(*) filter (where t.user_id = p_user) into v_all, v_mine
+    from (
+      select cr.user_id from code_redemptions cr where cr.code = p_code
+      union all
+      select r.user_id from code_reservations r
+      where r.code = p_code
+        and r.released_at is null and r.expires_at > now()
+        and not exists (select 1 from code_redemptions cr where cr.order_id = r.order_id)
+    ) t;
+
+    if v_max_uses is not null and v_all >= v_max_uses then
+      return query select null::uuid, 'This code has been fully used'::text;
+      return;
+    end if;
+
+    if v_mine >= v_per_user then
+      return query select null::uuid, 'You have already used this code'::text;
+      return;
+    end if;
+  end if;
+
+  insert into code_reservations (code, kind, user_id, expires_at)
+  values (p_code, p_kind, p_user, now() + make_interval(mins => p_hold_minutes))
+  returning id into v_id;
+
+  return query select v_id, null::text;
+end;
+$$;
+
+revoke all on function public.reserve_checkout_code(text, text, uuid, int) from public;
+grant execute on function public.reserve_checkout_code(text, text, uuid, int) to service_role;
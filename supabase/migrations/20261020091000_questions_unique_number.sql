@@ -0,0 +1,11 @@
+-- (year, question_number) is the identity the bulk importer dedupes on (lib/questionImport.ts).
+-- Make it a constraint so two concurrent imports cannot both insert the same question;
+-- the losing chunk fails with a unique violation and is reported as an insert error.
+-- Fails if duplicates already exist: resolve them first with
+--   select year, question_number, array_agg(id) from public.questions
+--   where question_number is not null group by 1, 2 having count(*) > 1;
+
+create unique index if not exists questions_year_number_key
+  on public.questions (year, question_number);
+
+drop index if exists public.questions_year_number_idx;
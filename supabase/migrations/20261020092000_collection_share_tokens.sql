@@ -0,0 +1,46 @@
+-- Shared collections are opened by an unguessable share token, not by listing the table.
+-- The old "read shared" policies let any signed-in user select every shared collection
+-- (owner user_id included); they are replaced by get_shared_collection(), which returns
+-- one collection for a token the caller already has and never exposes the owner.
+
+alter table public.collections
+  add column if not exists share_token uuid not null default gen_random_uuid();
+
+create unique index if not exists collections_share_token_idx on public.collections (share_token);
+
+drop policy if exists "collections: read shared" on public.collections;
+drop policy if exists "collection items: read shared" on public.collection_items;
+
+create or replace function public.get_shared_collection(p_token uuid)
+returns table (
+  id uuid,
+  name text,
+  kind text,
+  is_shared boolean,
+  is_owner boolean,
+  question_ids int8[] -- in the order they were added
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.name,
+    c.kind,
+    c.is_shared,
+    c.user_id = auth.uid() as is_owner,
+    coalesce(
+      (select array_agg(ci.question_id order by ci.added_at, ci.question_id)
+       from collection_items ci
+       where ci.collection_id = c.id),
+      '{}'
+    ) as question_ids
+  from collections c
+  where c.share_token = p_token
+    and (c.is_shared or c.user_id = auth.uid());
+$$;
+
+revoke all on function public.get_shared_collection(uuid) from public;
+grant execute on function public.get_shared_collection(uuid) to authenticated;
@@ -0,0 +1,102 @@
+-- search_questions ranked on every current analysis for every caller, so a free user
+-- could learn from matched_in = 'analysis' and the rank order what a paywalled
+-- explanation says. Analyses now only count (and are only quoted) when the caller has
+-- unlocked the question or has Pro; everything else is searched on the question alone.
+--
+-- Ranked hits with a snippet; matches are wrapped in chr(1) … chr(2).
+-- Security definer so the unlock / plan checks run against tables the caller can't
+-- read directly.
+create or replace function public.search_questions(search_query text, max_results int default 20)
+returns table (
+  question_id int8,
+  year int,
+  question_number int,
+  subject text,
+  topic_id text,
+  rank real,
+  matched_in text, -- 'question' | 'analysis' | 'both'
+  snippet text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', search_query) as tsq
+  ),
+  caller as (
+    select coalesce((
+      select p.plan_id = 'lifetime' or p.pro_until > now()
+      from profiles p
+      where p.id = auth.uid()
+    ), false) as is_pro
+  ),
+  question_hits as (
+    select qs.id as question_id, ts_rank(qs.search_tsv, q.tsq) as rank
+    from questions qs, q
+    where qs.search_tsv @@ q.tsq
+  ),
+  -- only the current version of each analysis (highest, not invalidated)
+  analysis_hits as (
+    select v.question_id, ts_rank(v.search_tsv, q.tsq) as rank, v.analysis
+    from question_analysis_versions v, q, caller
+    where v.invalidated_at is null
+      and v.search_tsv @@ q.tsq
+      and (
+        caller.is_pro
+        or exists (
+          select 1 from analysis_unlocks u
+          where u.user_id = auth.uid() and u.question_id = v.question_id
+        )
+      )
+      and not exists (
+        select 1 from question_analysis_versions newer
+        where newer.question_id = v.question_id
+          and newer.invalidated_at is null
+          and newer.version > v.version
+      )
+  ),
+  ranked as (
+    select
+      coalesce(qh.question_id, ah.question_id) as question_id,
+      -- a hit in the question itself beats one that only the explanation mentions
+      greatest(coalesce(qh.rank, 0), coalesce(ah.rank, 0) * 0.6)::real as rank,
+      case
+        when qh.question_id is null then 'analysis'
+        when ah.question_id is null then 'question'
+        else 'both'
+      end as matched_in,
+      ah.analysis
+    from question_hits qh
+    full join analysis_hits ah on ah.question_id = qh.question_id
+    order by 2 desc, 1
+    limit least(greatest(coalesce(max_results, 20), 1), 50)
+  )
+  select
+    r.question_id,
+    qs.year::int,
+    qs.question_number::int,
+    qs.subject,
+    qs.topic_id,
+    r.rank,
+    r.matched_in,
+    ts_headline(
+      'english',
+      case
+        when r.matched_in <> 'analysis'
+          then concat_ws(' ', qs.question_text, qs.option_a, qs.option_b, qs.option_c, qs.option_d)
+        -- analysis_hits only holds analyses the caller can read
+        else public.analysis_search_text(r.analysis)
+      end,
+      q.tsq,
+      'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MinWords=10, MaxWords=28, MaxFragments=2'
+    ) as snippet
+  from ranked r
+  join questions qs on qs.id = r.question_id
+  cross join q
+  order by r.rank desc, r.question_id;
+$$;
+
+revoke all on function public.search_questions(text, int) from public;
+grant execute on function public.search_questions(text, int) to authenticated;
@@ -0,0 +1,58 @@
+-- practice_questions_page joined practice_question_flags, which computes the status of
+-- every question for the user on every page. Walk questions in id order after the
+-- cursor instead and check the status only for those candidates, so a page costs
+-- about `limit` index probes (question_attempts_user_question_created_idx) however
+-- large the bank is. Same signature and semantics as before; counts still use the
+-- flags function, since a facet count has to look at every question anyway.
+
+create or replace function public.practice_questions_page(
+  p_user uuid,
+  p_year int,
+  p_topic text,
+  p_subject text,
+  p_status text,
+  p_after int8,
+  p_limit int
+)
+returns setof public.questions
+language sql
+stable
+set search_path = public
+as $$
+  select q.*
+  from questions q
+  where (p_after is null or q.id > p_after)
+    and (p_year is null or q.year = p_year)
+    and (
+      p_topic is null
+      or (p_topic = '__untagged' and q.topic_id is null)
+      or q.topic_id = p_topic
+      or q.topic_id like replace(replace(p_topic, '_', '\_'), '%', '\%') || '.%'
+    )
+    and (p_subject is null or upper(trim(q.subject)) = upper(trim(p_subject)))
+    and case coalesce(p_status, 'all')
+      when 'attempted' then exists (
+        select 1 from question_attempts a
+        where a.user_id = p_user and a.question_id = q.id
+      )
+      when 'unattempted' then not exists (
+        select 1 from question_attempts a
+        where a.user_id = p_user and a.question_id = q.id
+      )
+      when 'wrong' then coalesce((
+        select a.is_correct = false from question_attempts a
+        where a.user_id = p_user and a.question_id = q.id
+        order by a.created_at desc
+        limit 1
+      ), false)
+      when 'bookmarked' then exists (
+        select 1
+        from collection_items ci
+        join collections c on c.id = ci.collection_id
+        where ci.question_id = q.id and c.user_id = p_user and c.kind = 'bookmarks'
+      )
+      else true
+    end
+  order by q.id
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+$$;
@@ -0,0 +1,76 @@
+-- question_attempts.is_correct is what the review queue, weak-area sets, the risk
+-- report and the "Last answer wrong" filter read, so it has to follow the current key.
+-- A key change (provisional → final, a revised option, dropped, multiple_correct)
+-- re-grades the stored attempts in the same transaction as the update.
+-- Mirrors lib/answerKey.ts: answerKeyOf + gradeAnswer + gradeToIsCorrect.
+
+-- true / false, or null when the answer isn't scored (no answer, dropped, no key)
+create or replace function public.grade_attempt(
+  p_key_status text,
+  p_correct_option text,
+  p_accepted_options text[],
+  p_selected text
+)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  with accepted as (
+    select array(
+      select distinct o
+      from unnest(
+        array[upper(trim(p_correct_option))]
+        || case
+          when p_key_status = 'multiple_correct'
+            then array(select upper(trim(x)) from unnest(coalesce(p_accepted_options, '{}')) x)
+          else '{}'::text[]
+        end
+      ) o
+      where o in ('A', 'B', 'C', 'D')
+    ) as opts
+  )
+  select case
+    when upper(trim(coalesce(p_selected, ''))) not in ('A', 'B', 'C', 'D') then null
+    when p_key_status = 'dropped' or cardinality(a.opts) = 0 then null
+    else upper(trim(p_selected)) = any (a.opts)
+  end
+  from accepted a;
+$$;
+
+create or replace function public.questions_regrade_attempts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update question_attempts a
+  set is_correct = grade_attempt(new.key_status, new.correct_option, new.accepted_options, a.selected_option)
+  where a.question_id = new.id
+    and a.is_correct is distinct from
+      grade_attempt(new.key_status, new.correct_option, new.accepted_options, a.selected_option);
+  return new;
+end;
+$$;
+
+drop trigger if exists questions_regrade_attempts on public.questions;
+create trigger questions_regrade_attempts
+  after update of correct_option, key_status, accepted_options on public.questions
+  for each row
+  when (
+    old.correct_option is distinct from new.correct_option
+    or old.key_status is distinct from new.key_status
+    or old.accepted_options is distinct from new.accepted_options
+  )
+  execute function public.questions_regrade_attempts();
+
+-- Attempts graded under keys changed before this trigger existed
+update public.question_attempts a
+set is_correct = public.grade_attempt(q.key_status, q.correct_option, q.accepted_options, a.selected_option)
+from public.questions q
+where q.id = a.question_id
+  and a.is_correct is distinct from
+    public.grade_attempt(q.key_status, q.correct_option, q.accepted_options, a.selected_option);
+
+revoke all on function public.questions_regrade_attempts() from public;
@@ -0,0 +1,16 @@
+-- Puts one token back into a bucket (lib/rateLimit.ts refundRateLimit), e.g. a daily
+-- regeneration whose LLM call failed. Expired or missing buckets are full already.
+
+create or replace function public.rate_limit_give(p_key text, p_capacity double precision)
+returns void
+language sql
+set search_path = public
+as $$
+  update rate_limit_buckets b
+  set tokens = least(p_capacity, b.tokens + 1)
+  where b.key = p_key
+    and b.expires_at > now();
+$$;
+
+revoke all on function public.rate_limit_give(text, double precision) from public;
+grant execute on function public.rate_limit_give(text, double precision) to service_role;
@@ -0,0 +1,99 @@
+-- Holds lapse after CODE_HOLD_MINUTES but a Razorpay order can still be paid later, so
+-- redeeming on capture re-checks the caps under the same advisory lock as
+-- reserve_checkout_code. An order whose hold lapsed and whose slot has since been taken
+-- is paid at the discounted price already; it gets no redemption and is flagged instead
+-- (code_flagged_at) for support to follow up.
+--
+-- Full refunds reverse the redemption (reversed_at), which takes back the referrer's
+-- bonus analyses; the use itself still counts against the caps.
+
+alter table public.payment_orders
+  add column if not exists code_flagged_at timestamptz;
+
+alter table public.code_redemptions
+  add column if not exists reversed_at timestamptz;
+
+-- 'none' (no code on the order), 'redeemed' (now or earlier), or 'over_cap' (flagged)
+create or replace function public.redeem_checkout_code(p_order_id text)
+returns text
+language plpgsql
+set search_path = public
+as $$
+declare
+  o payment_orders%rowtype;
+  v_max_uses int;
+  v_per_user int;
+  v_all int;
+  v_mine int;
+  v_live boolean;
+begin
+  select * into o from payment_orders where order_id = p_order_id;
+  if not found or o.code is null or o.code_kind is null then
+    return 'none';
+  end if;
+
+  if o.code_kind = 'referral' then
+    perform pg_advisory_xact_lock(hashtext('checkout-referral:' || o.user_id::text));
+  else
+    perform pg_advisory_xact_lock(hashtext('checkout-code:' || o.code));
+  end if;
+
+  if exists (select 1 from code_redemptions cr where cr.order_id = p_order_id) then
+    return 'redeemed';
+  end if;
+
+  -- A live hold already counted this order against the caps
+  select exists (
+    select 1 from code_reservations r
+    where r.order_id = p_order_id and r.released_at is null and r.expires_at > now()
+  ) into v_live;
+
+  if not v_live then
+    if o.code_kind = 'referral' then
+      select count(*) into v_mine
+      from (
+        select 1 from code_redemptions cr where cr.user_id = o.user_id and cr.kind = 'referral'
+        union all
+        select 1 from code_reservations r
+        where r.user_id = o.user_id and r.kind = 'referral'
+          and r.released_at is null and r.expires_at > now()
+          and not exists (select 1 from code_redemptions cr where cr.order_id = r.order_id)
+      ) t;
+
+      v_all := 0;
+      v_max_uses := null;
+      v_per_user := 1;
+    else
+      select c.max_uses, c.per_user_limit into v_max_uses, v_per_user
+      from coupons c
+      where c.code = o.code;
+
+      select count(*), count(*) filter (where t.user_id = o.user_id) into v_all, v_mine
+      from (
+        select cr.user_id from code_redemptions cr where cr.code = o.code
+        union all
+        select r.user_id from code_reservations r
+        where r.code = o.code
+          and r.released_at is null and r.expires_at > now()
+          and not exists (select 1 from code_redemptions cr where cr.order_id = r.order_id)
+      ) t;
+    end if;
+
+    if (v_max_uses is not null and v_all >= v_max_uses)
+      or (v_per_user is not null and v_mine >= v_per_user) then
+      update payment_orders set code_flagged_at = coalesce(code_flagged_at, now())
+      where order_id = p_order_id;
+      return 'over_cap';
+    end if;
+  end if;
+
+  insert into code_redemptions (order_id, user_id, code, kind, referrer_id, discount)
+  values (p_order_id, o.user_id, o.code, o.code_kind, o.referrer_id, coalesce(o.discount, 0))
+  on conflict (order_id) do nothing;
+
+  return 'redeemed';
+end;
+$$;
+
+revoke all on function public.redeem_checkout_code(text) from public;
+grant execute on function public.redeem_checkout_code(text) to service_role;